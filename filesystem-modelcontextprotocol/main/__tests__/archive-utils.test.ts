@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import { createWriteStream } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { pipeline } from 'stream/promises';
+import * as tar from 'tar';
+import yazl from 'yazl';
+import {
+  createArchive,
+  detectArchiveFormat,
+  extractArchive,
+  listArchive,
+} from '../archive-utils.js';
+import { ALL_PERMISSIONS, type AllowedDirectory } from '../path-validation.js';
+
+// Builds a tar archive by hand, so that entries can have paths node-tar would not write
+function buildTar(entries: { path: string; type?: string; linkpath?: string; data?: string }[]): Buffer {
+  const blocks: Buffer[] = [];
+  for (const entry of entries) {
+    const data = Buffer.from(entry.data ?? '');
+    const header = Buffer.alloc(512);
+    new tar.Header({
+      path: entry.path,
+      type: (entry.type ?? 'File') as tar.Header['type'],
+      linkpath: entry.linkpath,
+      size: data.length,
+      mode: 0o644,
+      mtime: new Date(),
+    }).encode(header);
+    blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return Buffer.concat(blocks);
+}
+
+async function writeZip(zipPath: string, add: (zip: yazl.ZipFile) => void): Promise<void> {
+  const zip = new yazl.ZipFile();
+  add(zip);
+  zip.end();
+  await pipeline(zip.outputStream, createWriteStream(zipPath));
+}
+
+describe('archive utilities', () => {
+  let testDir: string;
+  let allowed: AllowedDirectory[];
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'archive-test-')));
+    allowed = [{ path: testDir, permissions: [...ALL_PERMISSIONS] }];
+    await fs.mkdir(path.join(testDir, 'project', 'src'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'project', 'README.md'), '# project\n');
+    await fs.writeFile(path.join(testDir, 'project', 'src', 'index.ts'), 'export {};\n');
+    await fs.symlink('README.md', path.join(testDir, 'project', 'link.md'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('detects the format from the file name', () => {
+    expect(detectArchiveFormat('/a/b.zip')).toBe('zip');
+    expect(detectArchiveFormat('/a/b.tar')).toBe('tar');
+    expect(detectArchiveFormat('/a/b.TAR.GZ')).toBe('tar.gz');
+    expect(detectArchiveFormat('/a/b.tgz')).toBe('tar.gz');
+    expect(() => detectArchiveFormat('/a/b.rar')).toThrow('Cannot tell the archive format');
+  });
+
+  it.each(['zip', 'tar', 'tar.gz'] as const)('creates, lists and extracts %s archives', async (format) => {
+    const archivePath = path.join(testDir, `project.${format}`);
+    const created = await createArchive(archivePath, [path.join(testDir, 'project')], { format });
+
+    const listed = await listArchive(archivePath, format);
+    expect(listed).toEqual(created);
+    const byPath = Object.fromEntries(listed.map(entry => [entry.path.replace(/\/$/, ''), entry]));
+    expect(byPath['project/src'].type).toBe('directory');
+    expect(byPath['project/src/index.ts']).toMatchObject({ type: 'file', size: 11 });
+    expect(byPath['project/link.md']).toMatchObject({ type: 'symlink', linkTarget: 'README.md' });
+
+    const destination = path.join(testDir, 'out');
+    const result = await extractArchive(archivePath, destination, allowed, { format });
+    expect(result.skipped).toBe(0);
+    expect(result.totalBytes).toBe(21);
+    expect(await fs.readFile(path.join(destination, 'project', 'src', 'index.ts'), 'utf-8')).toBe('export {};\n');
+    expect(await fs.readlink(path.join(destination, 'project', 'link.md'))).toBe('README.md');
+  });
+
+  it('does not add the archive to itself', async () => {
+    const archivePath = path.join(testDir, 'project', 'self.zip');
+    const entries = await createArchive(archivePath, [path.join(testDir, 'project')]);
+
+    expect(entries.map(entry => entry.path)).not.toContain('project/self.zip');
+    await expect(createArchive(archivePath, [path.join(testDir, 'project')])).rejects.toThrow('Archive already exists');
+  });
+
+  it('refuses tar entries that escape the destination', async () => {
+    const archivePath = path.join(testDir, 'slip.tar');
+    await fs.writeFile(archivePath, buildTar([
+      { path: 'ok.txt', data: 'fine' },
+      { path: '../evil.txt', data: 'evil' },
+    ]));
+
+    await expect(extractArchive(archivePath, path.join(testDir, 'out'), allowed))
+      .rejects.toThrow('entry "../evil.txt" resolves outside');
+    await expect(fs.access(path.join(testDir, 'evil.txt'))).rejects.toThrow();
+    await expect(fs.access(path.join(testDir, 'out', 'ok.txt'))).rejects.toThrow();
+  });
+
+  it('refuses zip entries that escape the destination', async () => {
+    const archivePath = path.join(testDir, 'slip.zip');
+    await writeZip(archivePath, zip => zip.addBuffer(Buffer.from('evil'), 'xx/evil.txt'));
+    const bytes = await fs.readFile(archivePath);
+    await fs.writeFile(archivePath, Buffer.from(bytes.toString('latin1').split('xx/evil.txt').join('../evil.txt'), 'latin1'));
+
+    await expect(extractArchive(archivePath, path.join(testDir, 'out'), allowed)).rejects.toThrow();
+    await expect(fs.access(path.join(testDir, 'evil.txt'))).rejects.toThrow();
+  });
+
+  it('refuses symlinks that point outside the allowed directories', async () => {
+    const archivePath = path.join(testDir, 'link.zip');
+    await writeZip(archivePath, zip => zip.addBuffer(Buffer.from('/etc'), 'etc', { mode: 0o120777 }));
+
+    await expect(extractArchive(archivePath, path.join(testDir, 'out'), allowed))
+      .rejects.toThrow('is a symlink to /etc, which is outside the allowed directories');
+  });
+
+  it('refuses entries written through a symlink from the same archive', async () => {
+    const archivePath = path.join(testDir, 'through.tar');
+    await fs.writeFile(archivePath, buildTar([
+      { path: 'dir', type: 'SymbolicLink', linkpath: '..' },
+      { path: 'dir/evil.txt', data: 'evil' },
+    ]));
+
+    await expect(extractArchive(archivePath, path.join(testDir, 'out'), allowed))
+      .rejects.toThrow('is inside the symlink dir');
+  });
+
+  it('refuses symlinks whose target passes through a symlink from the same archive', async () => {
+    const archivePath = path.join(testDir, 'chained.tar');
+    // Read lexically, a/../.. stays in testDir; on disk b leads to testDir first, so a would leave it
+    await fs.writeFile(archivePath, buildTar([
+      { path: 'b', type: 'SymbolicLink', linkpath: '..' },
+      { path: 'a', type: 'SymbolicLink', linkpath: 'b/../..' },
+    ]));
+
+    await expect(extractArchive(archivePath, path.join(testDir, 'out'), allowed))
+      .rejects.toThrow('passes through the symlink b from the same archive');
+    await expect(fs.lstat(path.join(testDir, 'out', 'b'))).rejects.toThrow();
+  });
+
+  it('refuses hard links', async () => {
+    const archivePath = path.join(testDir, 'hard.tar');
+    await fs.writeFile(archivePath, buildTar([{ path: 'passwd', type: 'Link', linkpath: '/etc/passwd' }]));
+
+    await expect(extractArchive(archivePath, path.join(testDir, 'out'), allowed)).rejects.toThrow('hard link');
+  });
+
+  it('enforces the entry count and size limits', async () => {
+    const archivePath = path.join(testDir, 'project.tar.gz');
+    await createArchive(archivePath, [path.join(testDir, 'project')]);
+
+    await expect(extractArchive(archivePath, path.join(testDir, 'out'), allowed, { limits: { maxEntries: 2 } }))
+      .rejects.toThrow('more than the limit of 2');
+    await expect(listArchive(archivePath, undefined, 2)).rejects.toThrow('more than the limit of 2 entries');
+    const zipPath = path.join(testDir, 'project.zip');
+    await createArchive(zipPath, [path.join(testDir, 'project')]);
+    await expect(listArchive(zipPath, undefined, 2)).rejects.toThrow('more than the limit of 2 entries');
+    expect(await listArchive(zipPath, undefined, 100)).toHaveLength((await listArchive(zipPath)).length);
+    await expect(extractArchive(archivePath, path.join(testDir, 'out'), allowed, { limits: { maxTotalBytes: 20 } }))
+      .rejects.toThrow('expands to 21 bytes, more than the limit of 20');
+  });
+
+  it('fails, skips or overwrites existing files', async () => {
+    const archivePath = path.join(testDir, 'project.zip');
+    await createArchive(archivePath, [path.join(testDir, 'project')]);
+    const destination = path.join(testDir, 'out');
+    await fs.mkdir(path.join(destination, 'project'), { recursive: true });
+    await fs.writeFile(path.join(destination, 'project', 'README.md'), 'local');
+
+    await expect(extractArchive(archivePath, destination, allowed)).rejects.toThrow('already exists');
+
+    const skipped = await extractArchive(archivePath, destination, allowed, { overwrite: 'skip' });
+    expect(skipped.skipped).toBe(1);
+    expect(await fs.readFile(path.join(destination, 'project', 'README.md'), 'utf-8')).toBe('local');
+
+    await extractArchive(archivePath, destination, allowed, { overwrite: 'overwrite' });
+    expect(await fs.readFile(path.join(destination, 'project', 'README.md'), 'utf-8')).toBe('# project\n');
+  });
+
+  it('refuses to overwrite a directory with a file before writing anything', async () => {
+    const archivePath = path.join(testDir, 'project.zip');
+    await createArchive(archivePath, [path.join(testDir, 'project')]);
+    const destination = path.join(testDir, 'out');
+    await fs.mkdir(path.join(destination, 'project', 'README.md'), { recursive: true });
+
+    await expect(extractArchive(archivePath, destination, allowed, { overwrite: 'overwrite' }))
+      .rejects.toThrow('is a directory, but the archive has a file there');
+    expect(await fs.readdir(path.join(destination, 'project'))).toEqual(['README.md']);
+  });
+
+  it('refuses to write into read-only directories inside the destination', async () => {
+    const archivePath = path.join(testDir, 'project.tar');
+    await createArchive(archivePath, [path.join(testDir, 'project')]);
+    const destination = path.join(testDir, 'out');
+    await fs.mkdir(path.join(destination, 'project'), { recursive: true });
+    allowed.push({ path: path.join(destination, 'project'), permissions: ['read'] });
+
+    await expect(extractArchive(archivePath, destination, allowed)).rejects.toThrow('writing is not permitted');
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { openAuditLog, countChangedBytes, type AuditLog } from '../audit-utils.js';
+import { hashContent, deletePath } from '../lib.js';
+import { applyUnifiedPatch } from '../patch-utils.js';
+import { createAccessPolicy } from '../path-validation.js';
+
+describe('audit-utils', () => {
+  let testDir: string;
+  let logPath: string;
+  let auditLog: AuditLog;
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'audit-test-')));
+    logPath = path.join(testDir, 'audit.jsonl');
+    auditLog = await openAuditLog(logPath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('counts the bytes between the first and last difference', () => {
+    expect(countChangedBytes(Buffer.from('hello world'), Buffer.from('hello there world'))).toBe(6);
+    expect(countChangedBytes(Buffer.from('abc'), Buffer.from('axc'))).toBe(2);
+    expect(countChangedBytes(null, Buffer.from('new'))).toBe(3);
+    expect(countChangedBytes(Buffer.from('same'), Buffer.from('same'))).toBe(0);
+  });
+
+  it('records hashes and sizes before and after each call as JSON lines', async () => {
+    const file = path.join(testDir, 'a.txt');
+    await auditLog.track('write_file', [file], () => fs.writeFile(file, 'one'));
+    await auditLog.track('write_file', [file], () => fs.writeFile(file, 'one two'));
+
+    const lines = (await fs.readFile(logPath, 'utf-8')).trim().split('\n').map(line => JSON.parse(line));
+    expect(lines).toHaveLength(2);
+    expect(lines[0].paths[0]).toEqual({
+      path: file,
+      before: null,
+      after: { type: 'file', size: 3, sha256: hashContent('one') },
+      bytesChanged: 3,
+    });
+    expect(lines[1]).toMatchObject({
+      tool: 'write_file',
+      paths: [{ before: { sha256: hashContent('one') }, after: { size: 7, sha256: hashContent('one two') }, bytesChanged: 4 }],
+    });
+    expect(Date.parse(lines[1].timestamp)).not.toBeNaN();
+  });
+
+  it('records moves, directories and failed calls', async () => {
+    const source = path.join(testDir, 'from.txt');
+    const destination = path.join(testDir, 'to.txt');
+    await fs.writeFile(source, 'data');
+
+    await auditLog.track('move_file', [source, destination], () => fs.rename(source, destination));
+    await auditLog.track('create_directory', [path.join(testDir, 'sub')], () => fs.mkdir(path.join(testDir, 'sub')));
+    await expect(auditLog.track('move_file', [source, destination], () => fs.rename(source, destination)))
+      .rejects.toThrow('ENOENT');
+
+    const [move, mkdir, failed] = await auditLog.query();
+    expect(move.paths.map(entry => [entry.before?.type ?? null, entry.after?.type ?? null])).toEqual([['file', null], [null, 'file']]);
+    expect(mkdir.paths[0]).toMatchObject({ before: null, after: { type: 'directory' }, bytesChanged: 0 });
+    expect(failed.error).toContain('ENOENT');
+  });
+
+  it('filters by path, tool and time and keeps the most recent entries', async () => {
+    const sub = path.join(testDir, 'sub');
+    await fs.mkdir(sub);
+    for (const name of ['a', 'b', 'c']) {
+      await auditLog.track('write_file', [path.join(sub, name)], () => fs.writeFile(path.join(sub, name), name));
+    }
+    await auditLog.track('create_directory', [path.join(testDir, 'other')], () => fs.mkdir(path.join(testDir, 'other')));
+
+    expect((await auditLog.query({ path: sub })).map(record => path.basename(record.paths[0].path))).toEqual(['a', 'b', 'c']);
+    expect((await auditLog.query({ path: sub, limit: 2 })).map(record => path.basename(record.paths[0].path))).toEqual(['b', 'c']);
+    expect(await auditLog.query({ path: path.join(testDir, 'su') })).toHaveLength(0);
+    expect(await auditLog.query({ tool: 'create_directory' })).toHaveLength(1);
+    expect(await auditLog.query({ since: new Date(Date.now() + 60_000) })).toHaveLength(0);
+    expect(await auditLog.query({ until: new Date(Date.now() + 60_000) })).toHaveLength(4);
+  });
+
+  it('only returns records whose paths all lie within the given directories', async () => {
+    const a = path.join(testDir, 'a');
+    const b = path.join(testDir, 'b');
+    await fs.mkdir(a);
+    await fs.mkdir(b);
+    await auditLog.track('write_file', [path.join(a, 'x')], () => fs.writeFile(path.join(a, 'x'), 'x'));
+    await auditLog.track('move_file', [path.join(a, 'x'), path.join(b, 'x')], () => fs.rename(path.join(a, 'x'), path.join(b, 'x')));
+    await auditLog.track('write_file', [path.join(b, 'y')], () => fs.writeFile(path.join(b, 'y'), 'y'));
+
+    expect((await auditLog.query({ within: [b] })).map(record => record.tool)).toEqual(['write_file']);
+    expect(await auditLog.query({ within: [a, b] })).toHaveLength(3);
+    expect(await auditLog.query({ within: [] })).toHaveLength(0);
+  });
+
+  it('hashes large files without comparing their contents', async () => {
+    auditLog = await openAuditLog(logPath, { maxComparedBytes: 4 });
+    const file = path.join(testDir, 'large.txt');
+    await auditLog.track('write_file', [file], () => fs.writeFile(file, 'large contents'));
+
+    const [record] = await auditLog.query();
+    expect(record.paths[0]).toEqual({ path: file, before: null, after: { type: 'file', size: 14, sha256: hashContent('large contents') } });
+  });
+
+  it('records deletes and patches so they can be queried by tool', async () => {
+    const doomed = path.join(testDir, 'doomed.txt');
+    const patched = path.join(testDir, 'patched.txt');
+    await fs.writeFile(doomed, 'bye');
+    await fs.writeFile(patched, 'one\ntwo\n');
+
+    await auditLog.track('delete_path', [doomed], () => deletePath(doomed));
+    const patch = ['--- a/patched.txt', '+++ b/patched.txt', '@@ -1,2 +1,2 @@', ' one', '-two', '+three', ''].join('\n');
+    const preview = await applyUnifiedPatch(patch, testDir, createAccessPolicy([testDir]), { dryRun: true });
+    expect(preview.files[0].target).toBe(patched);
+    await auditLog.track('apply_patch', [preview.files[0].target!], () => applyUnifiedPatch(patch, testDir, createAccessPolicy([testDir])));
+
+    const [deleted] = await auditLog.query({ tool: 'delete_path' });
+    expect(deleted.paths[0]).toMatchObject({ path: doomed, before: { sha256: hashContent('bye') }, after: null, bytesChanged: 3 });
+    const [applied] = await auditLog.query({ tool: 'apply_patch' });
+    expect(applied.paths[0]).toMatchObject({
+      path: patched,
+      before: { sha256: hashContent('one\ntwo\n') },
+      after: { sha256: hashContent('one\nthree\n') },
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  findFilesByPatterns,
+  truncateMiddle,
+  readFilesWithBudget,
+  formatBatchReadReport,
+  type BatchReadTarget,
+} from '../batch-read-utils.js';
+import { createAccessPolicy } from '../path-validation.js';
+
+describe('batch-read-utils', () => {
+  let testDir: string;
+
+  const targetsFor = async (patterns: string[]): Promise<BatchReadTarget[]> =>
+    (await findFilesByPatterns(testDir, patterns, createAccessPolicy([testDir]))).map(validPath => ({
+      path: path.relative(testDir, validPath),
+      validPath,
+      matched: true,
+    }));
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'batch-read-test-')));
+    await fs.mkdir(path.join(testDir, 'src', 'nested'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'src', 'b.ts'), 'b\n');
+    await fs.writeFile(path.join(testDir, 'src', 'a.ts'), 'a\n');
+    await fs.writeFile(path.join(testDir, 'src', 'nested', 'c.ts'), 'c\n');
+    await fs.writeFile(path.join(testDir, 'src', 'notes.md'), 'notes\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('finds files matching any pattern once, sorted by relative path', async () => {
+    const targets = await targetsFor(['src/**/*.ts', 'src/*', '**/*.ts']);
+    expect(targets.map(target => target.path)).toEqual([
+      path.join('src', 'a.ts'),
+      path.join('src', 'b.ts'),
+      path.join('src', 'nested', 'c.ts'),
+      path.join('src', 'notes.md'),
+    ]);
+  });
+
+  it('keeps the first and last lines of long text', () => {
+    const content = Array.from({ length: 100 }, (_, i) => `line ${i + 1}`).join('\n');
+    const truncated = truncateMiddle(content, 300)!;
+
+    expect(Buffer.byteLength(truncated.text)).toBeLessThanOrEqual(300);
+    expect(truncated.text.startsWith('line 1\nline 2\n')).toBe(true);
+    expect(truncated.text.endsWith('line 99\nline 100')).toBe(true);
+    expect(truncated.text).toContain(`[... lines ${truncated.omittedStartLine}-${truncated.omittedEndLine} omitted`);
+    expect(truncateMiddle('short', 300)).toBeNull();
+  });
+
+  it('stops at maxFiles and truncates or skips files over maxTotalBytes', async () => {
+    await fs.writeFile(path.join(testDir, 'src', 'a.ts'), 'x'.repeat(100) + '\n' + 'y'.repeat(100));
+    await fs.writeFile(path.join(testDir, 'src', 'b.ts'), Array.from({ length: 200 }, (_, i) => `b${i}`).join('\n'));
+    await fs.writeFile(path.join(testDir, 'src', 'nested', 'c.ts'), 'c'.repeat(300));
+    const targets = await targetsFor(['src/**/*.ts']);
+
+    const limited = await readFilesWithBudget(targets, { maxFiles: 2 });
+    expect(limited.files.map(file => file.path)).toEqual([path.join('src', 'a.ts'), path.join('src', 'b.ts')]);
+    expect(limited.skipped).toEqual([{ path: path.join('src', 'nested', 'c.ts'), reason: 'maxFiles of 2 reached' }]);
+
+    const budgeted = await readFilesWithBudget(targets, { maxTotalBytes: 600 });
+    expect(budgeted.files[0].truncated).toBeUndefined();
+    expect(budgeted.files[1].truncated).toBeDefined();
+    expect(budgeted.totalBytes).toBeLessThanOrEqual(600);
+    expect(budgeted.skipped.map(file => file.path)).toEqual([path.join('src', 'nested', 'c.ts')]);
+  });
+
+  it('skips binary matches and reports what was left out', async () => {
+    await fs.writeFile(path.join(testDir, 'src', 'image.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x00, 0x0d, 0x0a]));
+    await fs.writeFile(path.join(testDir, 'src', 'long.md'), 'z\n'.repeat(1000));
+    const targets = await targetsFor(['src/*']);
+    targets.push({ path: 'gone.txt', validPath: path.join(testDir, 'gone.txt'), matched: false });
+
+    const result = await readFilesWithBudget(targets, { maxBytesPerFile: 400 });
+    expect(result.files.find(file => file.path === 'gone.txt')?.error).toBeDefined();
+
+    const limited = await readFilesWithBudget(targets, { maxFileSize: 1000 });
+    expect(limited.skipped).toContainEqual({ path: path.join('src', 'long.md'), reason: '1.95 KB, over the 1000 B read limit' });
+
+    const report = formatBatchReadReport(result);
+    expect(report).toContain('Returned 4 of 5 files');
+    expect(report).toContain(`- ${path.join('src', 'long.md')}: lines `);
+    expect(report).toContain(`- ${path.join('src', 'image.png')}: binary file`);
+    expect(formatBatchReadReport(await readFilesWithBudget(targets.slice(0, 2)))).toBe('');
+  });
+});
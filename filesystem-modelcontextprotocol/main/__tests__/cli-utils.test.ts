@@ -0,0 +1,50 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseCommandLine } from '../cli-utils.js';
+
+describe('parseCommandLine', () => {
+  it('separates options from allowed directories', () => {
+    expect(parseCommandLine(['/a', '--audit-log', '/logs/audit.jsonl', '/b:ro'])).toEqual({
+      directories: ['/a', '/b:ro'],
+      auditLog: '/logs/audit.jsonl',
+    });
+    expect(parseCommandLine(['--audit-log=/logs/audit.jsonl', '--snapshot-dir', '/state/snapshots'])).toEqual({
+      directories: [],
+      auditLog: '/logs/audit.jsonl',
+      snapshotDir: '/state/snapshots',
+    });
+    expect(parseCommandLine(['--http-port', '8080', '--http-host=0.0.0.0', '/a'])).toEqual({
+      directories: ['/a'],
+      httpPort: 8080,
+      httpHost: '0.0.0.0',
+    });
+    expect(parseCommandLine(['--http-port=0', '--http-idle-timeout', '600', '--http-max-sessions=10'])).toEqual({
+      directories: [],
+      httpPort: 0,
+      httpIdleTimeout: 600,
+      httpMaxSessions: 10,
+    });
+    expect(parseCommandLine(['--roots-policy=intersect', '/a'])).toEqual({
+      directories: ['/a'],
+      rootsPolicy: 'intersect',
+    });
+    expect(parseCommandLine(['--max-read-bytes', '10M', '--max-session-bytes=1g', '--max-image-pixels', '1000000'])).toEqual({
+      directories: [],
+      maxReadBytes: 10 * 1024 * 1024,
+      maxSessionBytes: 1024 ** 3,
+      maxImagePixels: 1000000,
+    });
+  });
+
+  it('rejects unknown options and missing or invalid values', () => {
+    expect(() => parseCommandLine(['--verbose'])).toThrow('Unknown option: --verbose');
+    expect(() => parseCommandLine(['/a', '--audit-log'])).toThrow('--audit-log requires a value');
+    expect(() => parseCommandLine(['--http-port', 'http'])).toThrow('--http-port must be a port number');
+    expect(() => parseCommandLine(['--http-host', '0.0.0.0'])).toThrow('--http-host requires --http-port');
+    expect(() => parseCommandLine(['--http-max-sessions', '10'])).toThrow('--http-max-sessions requires --http-port');
+    expect(() => parseCommandLine(['--http-port', '80', '--http-idle-timeout', '1.5'])).toThrow('--http-idle-timeout must be a positive number');
+    expect(() => parseCommandLine(['--roots-policy', 'merge', '/a'])).toThrow('--roots-policy must be one of replace, union, intersect, got merge');
+    expect(() => parseCommandLine(['--max-read-bytes', '10 MB'])).toThrow('--max-read-bytes must be a size such as 1048576 or 10M, got 10 MB');
+    expect(() => parseCommandLine(['--max-image-pixels', '0'])).toThrow('--max-image-pixels must be a positive number');
+    expect(() => parseCommandLine(['--roots-policy', 'intersect'])).toThrow('--roots-policy intersect requires at least one allowed directory');
+  });
+});
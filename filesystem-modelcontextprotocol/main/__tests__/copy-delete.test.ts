@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { copyPath, deletePath, validateEntryPath } from '../lib.js';
+import { createAccessPolicy, type AccessPolicy } from '../path-validation.js';
+
+describe('copyPath and deletePath', () => {
+  let testDir: string;
+  let policy: AccessPolicy;
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'copy-delete-test-')));
+    policy = createAccessPolicy([testDir]);
+
+    await fs.mkdir(path.join(testDir, 'src', 'nested'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'src', 'a.txt'), 'a');
+    await fs.writeFile(path.join(testDir, 'src', 'nested', 'b.txt'), 'b');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('copyPath', () => {
+    it('copies files and directories recursively', async () => {
+      await copyPath(path.join(testDir, 'src'), path.join(testDir, 'copy'), policy);
+
+      expect(await fs.readFile(path.join(testDir, 'copy', 'a.txt'), 'utf-8')).toBe('a');
+      expect(await fs.readFile(path.join(testDir, 'copy', 'nested', 'b.txt'), 'utf-8')).toBe('b');
+    });
+
+    it('fails when the destination exists by default', async () => {
+      await fs.writeFile(path.join(testDir, 'dest.txt'), 'existing');
+
+      await expect(copyPath(path.join(testDir, 'src', 'a.txt'), path.join(testDir, 'dest.txt'), policy))
+        .rejects.toThrow('Destination already exists');
+    });
+
+    it('overwrites or skips existing files according to the policy', async () => {
+      await fs.mkdir(path.join(testDir, 'dest'));
+      await fs.writeFile(path.join(testDir, 'dest', 'a.txt'), 'old');
+
+      await copyPath(path.join(testDir, 'src'), path.join(testDir, 'dest'), policy, 'skip');
+      expect(await fs.readFile(path.join(testDir, 'dest', 'a.txt'), 'utf-8')).toBe('old');
+      expect(await fs.readFile(path.join(testDir, 'dest', 'nested', 'b.txt'), 'utf-8')).toBe('b');
+
+      await copyPath(path.join(testDir, 'src'), path.join(testDir, 'dest'), policy, 'overwrite');
+      expect(await fs.readFile(path.join(testDir, 'dest', 'a.txt'), 'utf-8')).toBe('a');
+    });
+
+    it('rejects symlinks pointing outside allowed directories', async () => {
+      const outsideDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'copy-outside-')));
+      try {
+        await fs.writeFile(path.join(outsideDir, 'secret.txt'), 'secret');
+        try {
+          await fs.symlink(path.join(outsideDir, 'secret.txt'), path.join(testDir, 'src', 'link.txt'));
+        } catch {
+          return; // Symlinks not supported in this environment
+        }
+
+        await expect(copyPath(path.join(testDir, 'src'), path.join(testDir, 'copy'), policy))
+          .rejects.toThrow('Access denied');
+        // What was copied before the link is removed again
+        await expect(fs.lstat(path.join(testDir, 'copy'))).rejects.toThrow();
+
+        // When merging, only the entries the copy created are removed
+        await fs.mkdir(path.join(testDir, 'dest'));
+        await fs.writeFile(path.join(testDir, 'dest', 'kept.txt'), 'kept');
+        await expect(copyPath(path.join(testDir, 'src'), path.join(testDir, 'dest'), policy, 'skip'))
+          .rejects.toThrow('Access denied');
+        expect((await fs.readdir(path.join(testDir, 'dest'))).sort()).toEqual(['kept.txt']);
+      } finally {
+        await fs.rm(outsideDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('deletePath', () => {
+    it('deletes files and empty directories', async () => {
+      await fs.mkdir(path.join(testDir, 'empty'));
+
+      await deletePath(path.join(testDir, 'src', 'a.txt'));
+      await deletePath(path.join(testDir, 'empty'));
+
+      expect(await fs.readdir(testDir)).toEqual(['src']);
+    });
+
+    it('requires confirmation for non-empty directories', async () => {
+      await expect(deletePath(path.join(testDir, 'src'))).rejects.toThrow('Directory is not empty');
+      expect(await fs.readdir(testDir)).toEqual(['src']);
+
+      await deletePath(path.join(testDir, 'src'), true);
+      expect(await fs.readdir(testDir)).toEqual([]);
+    });
+
+    it('deletes a symlink without touching its target', async () => {
+      const linkPath = path.join(testDir, 'link.txt');
+      try {
+        await fs.symlink(path.join(testDir, 'src', 'a.txt'), linkPath);
+      } catch {
+        return; // Symlinks not supported in this environment
+      }
+
+      await deletePath(await validateEntryPath(linkPath, policy));
+
+      expect(await fs.readFile(path.join(testDir, 'src', 'a.txt'), 'utf-8')).toBe('a');
+      await expect(fs.lstat(linkPath)).rejects.toThrow();
+    });
+
+    it('deletes symlinks that point outside the allowed directories or nowhere', async () => {
+      const outsideLink = path.join(testDir, 'outside');
+      const danglingLink = path.join(testDir, 'dangling');
+      try {
+        await fs.symlink(os.tmpdir(), outsideLink);
+        await fs.symlink(path.join(testDir, 'missing'), danglingLink);
+      } catch {
+        return; // Symlinks not supported in this environment
+      }
+
+      await deletePath(await validateEntryPath(outsideLink, policy, 'delete'));
+      await deletePath(await validateEntryPath(danglingLink, policy, 'delete'));
+
+      expect(await fs.readdir(testDir)).toEqual(['src']);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  diffDirectories,
+  diffTexts,
+  fileContentsEqual,
+  formatDirectoryDiff,
+  formatSideBySideDiff,
+  formatUnifiedDiff,
+  readComparableFile,
+} from '../diff-utils.js';
+
+const ORIGINAL = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight'].join('\n') + '\n';
+
+describe('text diffs', () => {
+  it('produces unified diffs with the requested context', () => {
+    const changed = ORIGINAL.replace('four', 'FOUR');
+
+    const diff = diffTexts(ORIGINAL, changed, 'a.txt', 'b.txt', { context: 1 });
+    expect(diff.hunks).toEqual([{
+      oldStart: 3, oldLines: 3, newStart: 3, newLines: 3,
+      lines: [' three', '-four', '+FOUR', ' five'],
+    }]);
+    expect(formatUnifiedDiff(diff)).toContain('--- a.txt\n+++ b.txt\n@@ -3,3 +3,3 @@\n three\n-four\n+FOUR\n five');
+  });
+
+  it('ignores whitespace-only changes when asked', () => {
+    const reindented = ORIGINAL.replace('two', '  two ').replace('six', 's i x');
+
+    expect(diffTexts(ORIGINAL, reindented, 'a', 'b', { context: 1 }).hunks).toHaveLength(2);
+    expect(diffTexts(ORIGINAL, reindented, 'a', 'b', { context: 1, ignoreWhitespace: true }).hunks).toEqual([]);
+  });
+
+  it('treats CRLF and LF line endings as equal', () => {
+    expect(diffTexts(ORIGINAL, ORIGINAL.replace(/\n/g, '\r\n'), 'a', 'b').hunks).toEqual([]);
+  });
+
+  it('lines up changed, removed and added lines side by side', () => {
+    const changed = ORIGINAL.replace('two\n', 'TWO\n').replace('five\n', '').replace('eight\n', 'eight\nnine\n');
+
+    const output = formatSideBySideDiff(diffTexts(ORIGINAL, changed, 'a.txt', 'b.txt', { context: 0 }));
+    expect(output.split('\n')).toEqual([
+      '--- a.txt',
+      '+++ b.txt',
+      '@@ -2,1 +2,1 @@',
+      '2 two | 2 TWO',
+      '@@ -5,1 +4,0 @@',
+      '5 five <',
+      '@@ -8,0 +8,1 @@',
+      '   > 8 nine',
+    ]);
+    expect(formatUnifiedDiff(diffTexts(ORIGINAL, changed, 'a.txt', 'b.txt', { context: 0 })))
+      .toContain('@@ -5,1 +4,0 @@\n-five\n@@ -8,0 +8,1 @@\n+nine');
+  });
+});
+
+describe('file and directory diffs', () => {
+  let testDir: string;
+  let oldDir: string;
+  let newDir: string;
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'diff-test-')));
+    oldDir = path.join(testDir, 'old');
+    newDir = path.join(testDir, 'new');
+    for (const dir of [oldDir, newDir]) {
+      await fs.mkdir(path.join(dir, 'src'), { recursive: true });
+      await fs.writeFile(path.join(dir, '.gitignore'), 'build/\n');
+      await fs.writeFile(path.join(dir, 'src', 'same.ts'), 'export const a = 1;\n');
+    }
+    await fs.writeFile(path.join(oldDir, 'src', 'changed.ts'), 'export const b = 1;\n');
+    await fs.writeFile(path.join(newDir, 'src', 'changed.ts'), 'export const b = 2;\n');
+    await fs.writeFile(path.join(oldDir, 'src', 'spacing.ts'), 'if (x) {\n  y();\n}\n');
+    await fs.writeFile(path.join(newDir, 'src', 'spacing.ts'), 'if (x) {\n    y();\n}\n');
+    await fs.writeFile(path.join(oldDir, 'removed.md'), 'gone');
+    await fs.mkdir(path.join(newDir, 'docs'));
+    await fs.writeFile(path.join(newDir, 'docs', 'guide.md'), 'new');
+    await fs.mkdir(path.join(newDir, 'build'));
+    await fs.writeFile(path.join(newDir, 'build', 'out.js'), '');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('lists added, removed and changed files, skipping ignored ones', async () => {
+    const diff = await diffDirectories(oldDir, newDir, [testDir]);
+
+    expect(diff).toEqual({
+      added: ['docs/'],
+      removed: ['removed.md'],
+      changed: ['src/changed.ts', 'src/spacing.ts'],
+      unchanged: 2,
+    });
+    expect(formatDirectoryDiff(diff, 'old', 'new')).toBe([
+      '--- old',
+      '+++ new',
+      'A docs/',
+      'D removed.md',
+      'M src/changed.ts',
+      'M src/spacing.ts',
+      '',
+      '1 added, 1 removed, 2 changed, 2 unchanged',
+    ].join('\n'));
+  });
+
+  it('includes ignored entries and ignores whitespace when asked', async () => {
+    const diff = await diffDirectories(oldDir, newDir, [testDir], { respectGitignore: false, ignoreWhitespace: true });
+
+    expect(diff.added).toEqual(['build/', 'docs/']);
+    expect(diff.changed).toEqual(['src/changed.ts']);
+  });
+
+  it('compares large files byte for byte without reading them as text', async () => {
+    await fs.writeFile(path.join(oldDir, 'src', 'big.ts'), 'x'.repeat(200_000) + '\n');
+    await fs.writeFile(path.join(newDir, 'src', 'big.ts'), 'x'.repeat(200_000) + ' \n');
+    expect(await fileContentsEqual(path.join(oldDir, 'src', 'big.ts'), path.join(oldDir, 'src', 'big.ts'))).toBe(true);
+    expect(await fileContentsEqual(path.join(oldDir, 'src', 'big.ts'), path.join(newDir, 'src', 'big.ts'))).toBe(false);
+
+    const whole = await diffDirectories(oldDir, newDir, [testDir], { ignoreWhitespace: true });
+    expect(whole.changed).toEqual(['src/changed.ts']);
+    const limited = await diffDirectories(oldDir, newDir, [testDir], { ignoreWhitespace: true, maxFileBytes: 1000 });
+    expect(limited.changed).toEqual(['src/big.ts', 'src/changed.ts']);
+  });
+
+  it('reads binary files as null', async () => {
+    const binaryPath = path.join(testDir, 'data.bin');
+    await fs.writeFile(binaryPath, Buffer.from([0x00, 0x01, 0xff, 0x00, 0x10, 0x20, 0x00, 0x00]));
+
+    expect(await readComparableFile(binaryPath)).toBeNull();
+    expect(await readComparableFile(path.join(newDir, 'src', 'same.ts'))).toBe('export const a = 1;\n');
+  });
+});
@@ -3,56 +3,21 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
 
-// We need to test the buildTree function, but it's defined inside the request handler
-// So we'll extract the core logic into a testable function
-import { minimatch } from 'minimatch';
-
-interface TreeEntry {
-    name: string;
-    type: 'file' | 'directory';
-    children?: TreeEntry[];
-}
+import { buildDirectoryTree, formatDirectoryTree, type TreeEntry } from '../lib.js';
+import { createAccessPolicy, type AccessPolicy } from '../path-validation.js';
 
-async function buildTreeForTesting(currentPath: string, rootPath: string, excludePatterns: string[] = []): Promise<TreeEntry[]> {
-    const entries = await fs.readdir(currentPath, {withFileTypes: true});
-    const result: TreeEntry[] = [];
-
-    for (const entry of entries) {
-        const relativePath = path.relative(rootPath, path.join(currentPath, entry.name));
-        const shouldExclude = excludePatterns.some(pattern => {
-            if (pattern.includes('*')) {
-                return minimatch(relativePath, pattern, {dot: true});
-            }
-            // For files: match exact name or as part of path
-            // For directories: match as directory path
-            return minimatch(relativePath, pattern, {dot: true}) ||
-                   minimatch(relativePath, `**/${pattern}`, {dot: true}) ||
-                   minimatch(relativePath, `**/${pattern}/**`, {dot: true});
-        });
-        if (shouldExclude)
-            continue;
-
-        const entryData: TreeEntry = {
-            name: entry.name,
-            type: entry.isDirectory() ? 'directory' : 'file'
-        };
-
-        if (entry.isDirectory()) {
-            const subPath = path.join(currentPath, entry.name);
-            entryData.children = await buildTreeForTesting(subPath, rootPath, excludePatterns);
-        }
-
-        result.push(entryData);
-    }
-
-    return result;
+async function buildTreeForTesting(rootPath: string, excludePatterns: string[] = []): Promise<TreeEntry[]> {
+    const { entries } = await buildDirectoryTree(rootPath, createAccessPolicy([rootPath]), { excludePatterns, respectGitignore: false });
+    return entries;
 }
 
 describe('buildTree exclude patterns', () => {
     let testDir: string;
+    let policy: AccessPolicy;
 
     beforeEach(async () => {
-        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'filesystem-test-'));
+        testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'filesystem-test-')));
+        policy = createAccessPolicy([testDir]);
         
         // Create test directory structure
         await fs.mkdir(path.join(testDir, 'src'));
@@ -75,7 +40,7 @@ describe('buildTree exclude patterns', () => {
 
     it('should exclude files matching simple patterns', async () => {
         // Test the current implementation - this will fail until the bug is fixed
-        const tree = await buildTreeForTesting(testDir, testDir, ['.env']);
+        const tree = await buildTreeForTesting(testDir, ['.env']);
         const fileNames = tree.map(entry => entry.name);
         
         expect(fileNames).not.toContain('.env');
@@ -85,7 +50,7 @@ describe('buildTree exclude patterns', () => {
     });
 
     it('should exclude directories matching simple patterns', async () => {
-        const tree = await buildTreeForTesting(testDir, testDir, ['node_modules']);
+        const tree = await buildTreeForTesting(testDir, ['node_modules']);
         const dirNames = tree.map(entry => entry.name);
         
         expect(dirNames).not.toContain('node_modules');
@@ -94,7 +59,7 @@ describe('buildTree exclude patterns', () => {
     });
 
     it('should exclude nested directories with same pattern', async () => {
-        const tree = await buildTreeForTesting(testDir, testDir, ['node_modules']);
+        const tree = await buildTreeForTesting(testDir, ['node_modules']);
         
         // Find the nested directory
         const nestedDir = tree.find(entry => entry.name === 'nested');
@@ -107,7 +72,7 @@ describe('buildTree exclude patterns', () => {
     });
 
     it('should handle glob patterns correctly', async () => {
-        const tree = await buildTreeForTesting(testDir, testDir, ['*.env']);
+        const tree = await buildTreeForTesting(testDir, ['*.env']);
         const fileNames = tree.map(entry => entry.name);
         
         expect(fileNames).not.toContain('.env');
@@ -116,7 +81,7 @@ describe('buildTree exclude patterns', () => {
     });
 
     it('should handle dot files correctly', async () => {
-        const tree = await buildTreeForTesting(testDir, testDir, ['.git']);
+        const tree = await buildTreeForTesting(testDir, ['.git']);
         const dirNames = tree.map(entry => entry.name);
         
         expect(dirNames).not.toContain('.git');
@@ -124,7 +89,7 @@ describe('buildTree exclude patterns', () => {
     });
 
     it('should work with multiple exclude patterns', async () => {
-        const tree = await buildTreeForTesting(testDir, testDir, ['node_modules', '.env', '.git']);
+        const tree = await buildTreeForTesting(testDir, ['node_modules', '.env', '.git']);
         const entryNames = tree.map(entry => entry.name);
         
         expect(entryNames).not.toContain('node_modules');
@@ -135,7 +100,7 @@ describe('buildTree exclude patterns', () => {
     });
 
     it('should handle empty exclude patterns', async () => {
-        const tree = await buildTreeForTesting(testDir, testDir, []);
+        const tree = await buildTreeForTesting(testDir, []);
         const entryNames = tree.map(entry => entry.name);
         
         // All entries should be included
@@ -144,4 +109,72 @@ describe('buildTree exclude patterns', () => {
         expect(entryNames).toContain('.git');
         expect(entryNames).toContain('src');
     });
-});
\ No newline at end of file
+});
+
+describe('buildDirectoryTree limits and ignore rules', () => {
+    let testDir: string;
+    let policy: AccessPolicy;
+
+    beforeEach(async () => {
+        testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'filesystem-tree-test-')));
+        policy = createAccessPolicy([testDir]);
+
+        await fs.mkdir(path.join(testDir, 'src', 'lib', 'deep'), { recursive: true });
+        await fs.mkdir(path.join(testDir, 'node_modules', 'pkg'), { recursive: true });
+        await fs.mkdir(path.join(testDir, '.git'));
+        await fs.writeFile(path.join(testDir, '.gitignore'), 'node_modules/\n*.log\n');
+        await fs.writeFile(path.join(testDir, 'debug.log'), '');
+        await fs.writeFile(path.join(testDir, 'src', 'index.ts'), '');
+        await fs.writeFile(path.join(testDir, 'src', 'lib', 'a.ts'), '');
+        await fs.writeFile(path.join(testDir, 'src', 'lib', 'b.ts'), '');
+        await fs.writeFile(path.join(testDir, 'src', 'lib', 'deep', 'c.ts'), '');
+        await fs.writeFile(path.join(testDir, 'src', '.gitignore'), '!keep.log\n');
+        await fs.writeFile(path.join(testDir, 'src', 'keep.log'), '');
+    });
+
+    afterEach(async () => {
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('skips gitignored entries and the .git directory by default', async () => {
+        const { entries, ignoredEntries } = await buildDirectoryTree(testDir, policy);
+        const names = entries.map(entry => entry.name);
+
+        expect(names).toEqual(['.gitignore', 'src']);
+        expect(ignoredEntries).toBe(3);
+        const src = entries.find(entry => entry.name === 'src')!;
+        expect(src.children!.map(child => child.name)).toContain('keep.log');
+    });
+
+    it('reports directories cut off by maxDepth', async () => {
+        const result = await buildDirectoryTree(testDir, policy, { maxDepth: 1 });
+        const src = result.entries.find(entry => entry.name === 'src')!;
+
+        expect(src.children).toEqual([]);
+        expect(src.truncated).toEqual({ reason: 'maxDepth', omittedEntries: 4 });
+        expect(result.truncatedDirectories).toEqual([{ path: 'src', reason: 'maxDepth', omittedEntries: 4 }]);
+    });
+
+    it('fills upper levels first and reports directories cut off by maxEntries', async () => {
+        const result = await buildDirectoryTree(testDir, policy, { maxEntries: 4 });
+
+        expect(result.totalEntries).toBe(4);
+        expect(result.entries.map(entry => entry.name)).toEqual(['.gitignore', 'src']);
+        expect(result.truncatedDirectories).toEqual([{ path: 'src', reason: 'maxEntries', omittedEntries: 2 }]);
+    });
+
+    it('formats the tree as indented text', async () => {
+        const { entries } = await buildDirectoryTree(path.join(testDir, 'src'), policy, { maxDepth: 2 });
+
+        expect(formatDirectoryTree(entries)).toBe([
+            '.gitignore',
+            'index.ts',
+            'keep.log',
+            'lib/',
+            '  a.ts',
+            '  b.ts',
+            '  deep/',
+            '    ... 1 entry not shown (maxDepth reached)',
+        ].join('\n'));
+    });
+});
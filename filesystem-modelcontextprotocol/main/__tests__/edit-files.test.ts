@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { applyMultiFileEdits } from '../lib.js';
+
+describe('applyMultiFileEdits', () => {
+  let testDir: string;
+  let fileA: string;
+  let fileB: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'edit-files-test-'));
+    fileA = path.join(testDir, 'a.ts');
+    fileB = path.join(testDir, 'b.ts');
+    await fs.writeFile(fileA, 'export const a = 1;\nexport const shared = "old";\n');
+    await fs.writeFile(fileB, 'import { shared } from "./a";\nconsole.log(shared);\n');
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('applies edits to every file and returns a combined diff', async () => {
+    const diff = await applyMultiFileEdits([
+      { path: fileA, edits: [{ oldText: 'shared = "old"', newText: 'renamed = "old"' }] },
+      { path: fileB, edits: [{ oldText: 'shared', newText: 'renamed', occurrence: 1 }] },
+    ]);
+
+    expect(diff).toContain(`--- ${fileA}`);
+    expect(diff).toContain(`--- ${fileB}`);
+    expect(diff.startsWith('```diff\n')).toBe(true);
+    expect(await fs.readFile(fileA, 'utf-8')).toBe('export const a = 1;\nexport const renamed = "old";\n');
+    expect(await fs.readFile(fileB, 'utf-8')).toBe('import { renamed } from "./a";\nconsole.log(shared);\n');
+  });
+
+  it('does not write anything in dry run mode', async () => {
+    const diff = await applyMultiFileEdits([
+      { path: fileA, edits: [{ oldText: 'a = 1', newText: 'a = 2' }] },
+    ], true);
+
+    expect(diff).toContain('+export const a = 2;');
+    expect(await fs.readFile(fileA, 'utf-8')).toContain('a = 1');
+  });
+
+  it('leaves all files untouched when one edit does not match', async () => {
+    await expect(applyMultiFileEdits([
+      { path: fileA, edits: [{ oldText: 'a = 1', newText: 'a = 2' }] },
+      { path: fileB, edits: [{ oldText: 'missing text', newText: 'x' }] },
+    ])).rejects.toThrow(`No files were modified. Edit failed for ${fileB}`);
+
+    expect(await fs.readFile(fileA, 'utf-8')).toContain('a = 1');
+    expect((await fs.readdir(testDir)).sort()).toEqual(['a.ts', 'b.ts']);
+  });
+
+  it('rejects duplicate paths', async () => {
+    await expect(applyMultiFileEdits([
+      { path: fileA, edits: [{ oldText: 'a = 1', newText: 'a = 2' }] },
+      { path: fileA, edits: [{ oldText: 'shared', newText: 'other' }] },
+    ])).rejects.toThrow('Duplicate path in edit transaction');
+  });
+
+  it('rolls back already renamed files when a later rename fails', async () => {
+    const realRename = fs.rename.bind(fs);
+    jest.spyOn(fs, 'rename').mockImplementation(async (from, to) => {
+      if (to === fileB) {
+        throw new Error('simulated rename failure');
+      }
+      return realRename(from, to);
+    });
+
+    await expect(applyMultiFileEdits([
+      { path: fileA, edits: [{ oldText: 'a = 1', newText: 'a = 2' }] },
+      { path: fileB, edits: [{ oldText: 'console.log', newText: 'console.info' }] },
+    ])).rejects.toThrow('All files were restored to their original contents');
+
+    jest.restoreAllMocks();
+    expect(await fs.readFile(fileA, 'utf-8')).toBe('export const a = 1;\nexport const shared = "old";\n');
+    expect(await fs.readFile(fileB, 'utf-8')).toContain('console.log');
+    expect((await fs.readdir(testDir)).sort()).toEqual(['a.ts', 'b.ts']);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import iconv from 'iconv-lite';
+import {
+  detectEncoding,
+  detectLineEnding,
+  applyLineEnding,
+  decodeText,
+  encodeText,
+  detectFileFormat,
+  describeTextFormat,
+} from '../encoding-utils.js';
+import { applyFileEdits, applyMultiFileEdits, readFileLines, readTextFile, writeFileContent } from '../lib.js';
+
+describe('encoding detection', () => {
+  it('detects plain UTF-8', () => {
+    expect(detectEncoding(Buffer.from('hello 世界'))).toEqual({ encoding: 'utf-8', bom: false, guessed: false });
+  });
+
+  it('detects byte order marks', () => {
+    expect(detectEncoding(Buffer.from([0xef, 0xbb, 0xbf, 0x61]))).toEqual({ encoding: 'utf-8', bom: true, guessed: false });
+    expect(detectEncoding(iconv.encode('hi', 'utf-16le', { addBOM: true }))).toEqual({ encoding: 'utf-16le', bom: true, guessed: false });
+    expect(detectEncoding(iconv.encode('hi', 'utf-16be', { addBOM: true }))).toEqual({ encoding: 'utf-16be', bom: true, guessed: false });
+  });
+
+  it('detects UTF-16 without a BOM', () => {
+    expect(detectEncoding(iconv.encode('plain ascii text', 'utf-16le')).encoding).toBe('utf-16le');
+    expect(detectEncoding(iconv.encode('plain ascii text', 'utf-16be')).encoding).toBe('utf-16be');
+  });
+
+  it('guesses GBK, Shift-JIS and windows-1252', () => {
+    expect(detectEncoding(iconv.encode('这是一个中文测试文件，包含简体字。', 'gbk'))).toEqual({ encoding: 'gbk', bom: false, guessed: true });
+    expect(detectEncoding(iconv.encode('これは日本語のテストファイルです。', 'shift_jis')).encoding).toBe('shift_jis');
+    expect(detectEncoding(Buffer.from([0x63, 0x61, 0x66, 0xe9, 0xff]))).toEqual({ encoding: 'windows-1252', bom: false, guessed: true });
+  });
+
+  it('tolerates a multi-byte character cut off at the end of a sample', () => {
+    const sample = Buffer.from('abc世').subarray(0, 5);
+    expect(detectEncoding(sample, true).encoding).toBe('utf-8');
+  });
+});
+
+describe('line endings', () => {
+  it('detects the dominant style', () => {
+    expect(detectLineEnding('a\r\nb\r\nc\n')).toBe('crlf');
+    expect(detectLineEnding('a\nb\r\nc\n')).toBe('lf');
+    expect(detectLineEnding('no newline')).toBe('lf');
+  });
+
+  it('converts between styles', () => {
+    expect(applyLineEnding('a\nb\r\nc', 'crlf')).toBe('a\r\nb\r\nc');
+    expect(applyLineEnding('a\r\nb\nc', 'lf')).toBe('a\nb\nc');
+  });
+});
+
+describe('decodeText and encodeText', () => {
+  it('round-trips non-UTF-8 content with its format', () => {
+    const original = iconv.encode('第一行\r\n第二行\r\n', 'gbk');
+    const { content, format } = decodeText(original);
+
+    expect(content).toBe('第一行\r\n第二行\r\n');
+    expect(format).toEqual({ encoding: 'gbk', bom: false, lineEnding: 'crlf', guessed: true });
+    expect(encodeText(content, format)).toEqual(original);
+  });
+
+  it('strips and restores the BOM', () => {
+    const original = iconv.encode('text', 'utf-16le', { addBOM: true });
+    const { content, format } = decodeText(original);
+
+    expect(content).toBe('text');
+    expect(encodeText(content, format)).toEqual(original);
+  });
+
+  it('returns plain UTF-8 as a string', () => {
+    expect(encodeText('a\nb', { encoding: 'utf-8', bom: false, lineEnding: 'lf' })).toBe('a\nb');
+  });
+
+  it('rejects characters the target encoding cannot represent', () => {
+    expect(() => encodeText('emoji 😀', { encoding: 'gbk', bom: false, lineEnding: 'lf' }))
+      .toThrow('cannot be represented in gbk');
+  });
+
+  it('describes formats', () => {
+    expect(describeTextFormat({ encoding: 'utf-16le', bom: true, lineEnding: 'crlf' }))
+      .toBe('utf-16le, with BOM, CRLF line endings');
+    expect(describeTextFormat({ encoding: 'gbk', bom: false, lineEnding: 'lf', guessed: true }))
+      .toBe('gbk (guessed), LF line endings');
+  });
+});
+
+describe('encoding-aware file operations', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'encoding-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('detects the format of a file on disk', async () => {
+    const filePath = path.join(testDir, 'sjis.txt');
+    await fs.writeFile(filePath, iconv.encode('こんにちは\r\n世界\r\n', 'shift_jis'));
+
+    expect(await detectFileFormat(filePath)).toEqual({ encoding: 'shift_jis', bom: false, lineEnding: 'crlf', guessed: true });
+    expect(await detectFileFormat(path.join(testDir, 'missing.txt'))).toBeNull();
+  });
+
+  it('preserves encoding and line endings when editing', async () => {
+    const filePath = path.join(testDir, 'gbk.txt');
+    await fs.writeFile(filePath, iconv.encode('你好\r\n世界\r\n', 'gbk'));
+
+    await applyFileEdits(filePath, [{ oldText: '世界', newText: '朋友' }], false, undefined, {}, 'gbk');
+
+    expect(await fs.readFile(filePath)).toEqual(iconv.encode('你好\r\n朋友\r\n', 'gbk'));
+  });
+
+  it('refuses to edit a file whose encoding is only a guess', async () => {
+    const filePath = path.join(testDir, 'latin1.txt');
+    const original = iconv.encode('café\nnaïve\n', 'latin1');
+    await fs.writeFile(filePath, original);
+
+    await expect(applyFileEdits(filePath, [{ oldText: 'caf', newText: 'CAF' }]))
+      .rejects.toThrow(/encoding of .* is unknown.*Pass encoding/);
+    await expect(applyMultiFileEdits([{ path: filePath, edits: [{ oldText: 'caf', newText: 'CAF' }] }]))
+      .rejects.toThrow('is unknown');
+    expect(await fs.readFile(filePath)).toEqual(original);
+
+    await applyFileEdits(filePath, [{ oldText: 'caf', newText: 'CAF' }], false, undefined, {}, 'latin1');
+    expect(await fs.readFile(filePath)).toEqual(iconv.encode('CAFé\nnaïve\n', 'latin1'));
+  });
+
+  it('writes content in the requested format', async () => {
+    const filePath = path.join(testDir, 'utf16.txt');
+    await writeFileContent(filePath, 'a\nb\n', { encoding: 'utf-16le', bom: true, lineEnding: 'crlf' });
+
+    const { content, format } = await readTextFile(filePath);
+    expect(content).toBe('a\r\nb\r\n');
+    expect(format).toEqual({ encoding: 'utf-16le', bom: true, lineEnding: 'crlf', guessed: false });
+  });
+
+  it('reads line ranges from UTF-16 files', async () => {
+    const filePath = path.join(testDir, 'lines.txt');
+    await fs.writeFile(filePath, iconv.encode('one\ntwo\nthree\n', 'utf-16le', { addBOM: true }));
+
+    const result = await readFileLines(filePath, 2, 2, false, 'utf-16le');
+    expect(result.content).toBe('two');
+    expect(result.totalLines).toBe(3);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import iconv from 'iconv-lite';
+import { getDetailedFileInfo, formatDetailedFileInfo, summarizeFileInfo } from '../file-info-utils.js';
+
+describe('file-info-utils', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'file-info-test-')));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('describes text files with encoding, line count and ownership', async () => {
+    const file = path.join(testDir, 'notes.md');
+    await fs.writeFile(file, '# Notes\r\nfirst\r\nsecond');
+
+    const info = await getDetailedFileInfo(file);
+
+    expect(info).toMatchObject({
+      isFile: true,
+      isSymbolicLink: false,
+      mimeType: 'text/markdown',
+      binary: false,
+      encoding: 'utf-8, CRLF line endings',
+      lineCount: 3,
+      hardLinks: 1,
+      uid: (await fs.stat(file)).uid,
+    });
+    expect(info.symlinkTarget).toBeUndefined();
+    expect(formatDetailedFileInfo(info)).toContain('lineCount: 3');
+  });
+
+  it('detects binary files and falls back to a generic MIME type', async () => {
+    const file = path.join(testDir, 'blob');
+    await fs.writeFile(file, Buffer.from([0x89, 0x50, 0x4e, 0x47, 0, 0, 0, 0x0d, 0x49, 0x48, 0x44, 0x52]));
+
+    const info = await getDetailedFileInfo(file);
+
+    expect(info).toMatchObject({ binary: true, mimeType: 'application/octet-stream' });
+    expect(info.encoding).toBeUndefined();
+    expect(info.lineCount).toBeUndefined();
+    expect(formatDetailedFileInfo(info)).not.toContain('lineCount');
+  });
+
+  it('describes symlinks without following them', async () => {
+    const target = path.join(testDir, 'target.txt');
+    const link = path.join(testDir, 'link.txt');
+    await fs.writeFile(target, 'a\nb\n');
+    await fs.symlink('target.txt', link);
+    await fs.link(target, path.join(testDir, 'hard.txt'));
+
+    const info = await getDetailedFileInfo(link);
+    expect(info).toMatchObject({ isSymbolicLink: true, isFile: false, symlinkTarget: 'target.txt', lineCount: 2 });
+
+    const hidden = await getDetailedFileInfo(link, { describeTarget: false });
+    expect(hidden.lineCount).toBeUndefined();
+    expect(summarizeFileInfo(hidden)).toContain('-> target.txt');
+
+    expect((await getDetailedFileInfo(target)).hardLinks).toBe(2);
+  });
+
+  it('counts lines of UTF-16 and empty files', async () => {
+    const utf16 = path.join(testDir, 'utf16.txt');
+    await fs.writeFile(utf16, Buffer.concat([Buffer.from([0xff, 0xfe]), iconv.encode('one\ntwo\nĊ', 'utf-16le')]));
+    await fs.writeFile(path.join(testDir, 'empty.txt'), '');
+
+    expect((await getDetailedFileInfo(utf16)).lineCount).toBe(3);
+    expect((await getDetailedFileInfo(path.join(testDir, 'empty.txt'))).lineCount).toBe(0);
+    expect((await getDetailedFileInfo(utf16, { countLines: false })).lineCount).toBeUndefined();
+  });
+});
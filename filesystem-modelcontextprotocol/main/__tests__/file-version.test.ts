@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  applyFileEdits,
+  getFileVersion,
+  hashContent,
+  readTextFileWithVersion,
+  writeFileContent,
+} from '../lib.js';
+
+describe('optimistic concurrency', () => {
+  let testDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'file-version-test-')));
+    filePath = path.join(testDir, 'notes.txt');
+    await fs.writeFile(filePath, 'line one\nline two\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('reports the hash and mtime of a file', async () => {
+    const { content, version } = await readTextFileWithVersion(filePath);
+    const stats = await fs.stat(filePath);
+
+    expect(content).toBe('line one\nline two\n');
+    expect(version.hash).toBe(hashContent('line one\nline two\n'));
+    expect(version.mtime).toBe(stats.mtime.toISOString());
+    expect(await getFileVersion(filePath)).toEqual(version);
+  });
+
+  it('writes when the file is unchanged', async () => {
+    const { version } = await readTextFileWithVersion(filePath);
+
+    await writeFileContent(filePath, 'replaced\n', undefined, { expectedHash: version.hash });
+    expect(await fs.readFile(filePath, 'utf-8')).toBe('replaced\n');
+
+    const updated = await getFileVersion(filePath);
+    await writeFileContent(filePath, 'again\n', undefined, { expectedMtime: updated.mtime });
+    expect(await fs.readFile(filePath, 'utf-8')).toBe('again\n');
+  });
+
+  it('refuses to overwrite a file changed since it was read and shows what changed', async () => {
+    const { version } = await readTextFileWithVersion(filePath);
+    await fs.writeFile(filePath, 'line one\nline two edited by a human\n');
+
+    const write = writeFileContent(filePath, 'agent content\n', undefined, { expectedHash: version.hash });
+    await expect(write).rejects.toThrow('Conflict');
+    await expect(write).rejects.toThrow('+line two edited by a human');
+    expect(await fs.readFile(filePath, 'utf-8')).toBe('line one\nline two edited by a human\n');
+  });
+
+  it('refuses to edit a file whose mtime changed', async () => {
+    const { version } = await readTextFileWithVersion(filePath);
+    const later = new Date(Date.parse(version.mtime) + 5000);
+    await fs.utimes(filePath, later, later);
+
+    await expect(applyFileEdits(filePath, [{ oldText: 'line one', newText: 'first' }], false, {
+      expectedMtime: version.mtime,
+    })).rejects.toThrow('expected mtime');
+    expect(await fs.readFile(filePath, 'utf-8')).toBe('line one\nline two\n');
+  });
+
+  it('edits when the hash matches', async () => {
+    const { version } = await readTextFileWithVersion(filePath);
+
+    await applyFileEdits(filePath, [{ oldText: 'line one', newText: 'first' }], false, {
+      expectedHash: `sha256:${version.hash.toUpperCase()}`,
+    });
+    expect(await fs.readFile(filePath, 'utf-8')).toBe('first\nline two\n');
+  });
+
+  it('treats a deleted file as a conflict', async () => {
+    const { version } = await readTextFileWithVersion(filePath);
+    await fs.unlink(filePath);
+
+    await expect(writeFileContent(filePath, 'new\n', undefined, { expectedHash: version.hash }))
+      .rejects.toThrow('no longer exists');
+  });
+
+  it('rejects malformed timestamps', async () => {
+    await expect(writeFileContent(filePath, 'new\n', undefined, { expectedMtime: 'yesterday' }))
+      .rejects.toThrow('Invalid expectedMtime');
+  });
+});
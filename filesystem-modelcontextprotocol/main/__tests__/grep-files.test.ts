@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { grepFilesWithValidation, isBinaryBuffer } from '../lib.js';
+import { createAccessPolicy, type AccessPolicy } from '../path-validation.js';
+
+describe('grepFilesWithValidation', () => {
+  let testDir: string;
+  let policy: AccessPolicy;
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'grep-test-')));
+    policy = createAccessPolicy([testDir]);
+
+    await fs.mkdir(path.join(testDir, 'src', 'nested'), { recursive: true });
+    await fs.mkdir(path.join(testDir, 'node_modules'));
+    await fs.writeFile(path.join(testDir, 'src', 'index.ts'), 'import a from "a";\nconst TODO = 1;\n// todo: refactor\nexport default a;\n');
+    await fs.writeFile(path.join(testDir, 'src', 'nested', 'util.js'), 'function helper() {}\n// TODO later\n');
+    await fs.writeFile(path.join(testDir, 'node_modules', 'dep.js'), '// TODO in dependency\n');
+    await fs.writeFile(path.join(testDir, 'image.bin'), Buffer.from([0x89, 0x00, 0x54, 0x4f, 0x44, 0x4f]));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('finds regex matches with line numbers', async () => {
+    const result = await grepFilesWithValidation(testDir, 'TODO\\b', policy, { excludePatterns: ['node_modules'] });
+    const found = result.matches.map(m => `${path.relative(testDir, m.path)}:${m.lineNumber}`).sort();
+
+    expect(found).toEqual([path.join('src', 'index.ts') + ':2', path.join('src', 'nested', 'util.js') + ':2']);
+    expect(result.truncated).toBe(false);
+  });
+
+  it('supports case-insensitive literal matching', async () => {
+    const result = await grepFilesWithValidation(path.join(testDir, 'src'), 'todo:', policy, {
+      literal: true,
+      caseInsensitive: false,
+    });
+    expect(result.matches).toHaveLength(1);
+
+    const insensitive = await grepFilesWithValidation(path.join(testDir, 'src'), 'TODO', policy, {
+      literal: true,
+      caseInsensitive: true,
+      includePatterns: ['*.ts'],
+    });
+    expect(insensitive.matches.map(m => m.lineNumber)).toEqual([2, 3]);
+  });
+
+  it('treats regex metacharacters literally in literal mode', async () => {
+    const result = await grepFilesWithValidation(testDir, 'helper()', policy, { literal: true });
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0].line).toBe('function helper() {}');
+  });
+
+  it('returns context lines around matches', async () => {
+    const result = await grepFilesWithValidation(path.join(testDir, 'src', 'index.ts'), 'const', policy, {
+      contextBefore: 1,
+      contextAfter: 2,
+    });
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0].before).toEqual(['import a from "a";']);
+    expect(result.matches[0].after).toEqual(['// todo: refactor', 'export default a;']);
+  });
+
+  it('enforces per-file and total match limits', async () => {
+    const perFile = await grepFilesWithValidation(path.join(testDir, 'src'), 'o', policy, { maxMatchesPerFile: 1 });
+    expect(perFile.matches).toHaveLength(2);
+
+    const total = await grepFilesWithValidation(testDir, 'TODO', policy, { caseInsensitive: true, maxResults: 2 });
+    expect(total.matches).toHaveLength(2);
+    expect(total.truncated).toBe(true);
+  });
+
+  it('skips binary files', async () => {
+    const result = await grepFilesWithValidation(testDir, 'TODO', policy, { includePatterns: ['*.bin'] });
+    expect(result.matches).toHaveLength(0);
+    expect(result.binaryFilesSkipped).toBe(1);
+  });
+
+  it('skips files over the size limit and stops at the total byte limit', async () => {
+    const large = await grepFilesWithValidation(testDir, 'TODO', policy, { maxFileBytes: 30 });
+    expect(large.largeFilesSkipped).toBe(2);
+    expect(large.matches.map(m => path.basename(m.path))).toEqual(['dep.js']);
+
+    const limited = await grepFilesWithValidation(path.join(testDir, 'src'), 'TODO', policy, { maxTotalBytes: 80 });
+    expect(limited.stoppedAtByteLimit).toBe(true);
+    expect(limited.filesSearched).toBe(1);
+    expect(limited.bytesScanned).toBeLessThanOrEqual(80);
+  });
+
+  it('does not follow symlinks outside allowed directories', async () => {
+    const outsideDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'grep-outside-')));
+    try {
+      await fs.writeFile(path.join(outsideDir, 'secret.txt'), 'TODO secret\n');
+      try {
+        await fs.symlink(path.join(outsideDir, 'secret.txt'), path.join(testDir, 'link.txt'));
+      } catch {
+        return; // Symlinks not supported in this environment
+      }
+
+      const result = await grepFilesWithValidation(testDir, 'secret', policy);
+      expect(result.matches).toHaveLength(0);
+    } finally {
+      await fs.rm(outsideDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('isBinaryBuffer', () => {
+  it('detects NUL bytes', () => {
+    expect(isBinaryBuffer(Buffer.from('plain text'))).toBe(false);
+    expect(isBinaryBuffer(Buffer.from([0x61, 0x00, 0x62]))).toBe(true);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { createHash } from 'crypto';
+import { hashFileContent, hashDirectory, formatManifest, parseManifest, verifyManifest, formatVerifyReport } from '../hash-utils.js';
+import { createAccessPolicy, type AccessPolicy } from '../path-validation.js';
+
+const digest = (algorithm: string, data: string) => createHash(algorithm).update(data).digest('hex');
+
+describe('hash-utils', () => {
+  let testDir: string;
+  let policy: AccessPolicy;
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'hash-test-')));
+    policy = createAccessPolicy([testDir]);
+    await fs.mkdir(path.join(testDir, 'dist', 'assets'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'dist', 'app.js'), 'console.log(1);\n');
+    await fs.writeFile(path.join(testDir, 'dist', 'assets', 'logo.svg'), '<svg/>');
+    await fs.writeFile(path.join(testDir, 'dist', 'debug.log'), 'noise');
+    await fs.writeFile(path.join(testDir, 'dist', '.gitignore'), '*.log\n');
+    await fs.symlink('app.js', path.join(testDir, 'dist', 'latest.js'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('hashes files with each algorithm', async () => {
+    const file = path.join(testDir, 'dist', 'app.js');
+    for (const algorithm of ['sha256', 'sha1', 'md5'] as const) {
+      expect(await hashFileContent(file, algorithm)).toBe(digest(algorithm, 'console.log(1);\n'));
+    }
+  });
+
+  it('hashes directories into a sorted manifest without following symlinks', async () => {
+    const { entries, skipped } = await hashDirectory(path.join(testDir, 'dist'), [testDir]);
+
+    expect(entries.map(entry => entry.path)).toEqual(['.gitignore', 'app.js', 'assets/logo.svg']);
+    expect(skipped).toEqual(['latest.js']);
+    expect(formatManifest(entries).split('\n')[1]).toBe(`${digest('sha256', 'console.log(1);\n')}  app.js`);
+
+    const unfiltered = await hashDirectory(path.join(testDir, 'dist'), [testDir], 'md5', { respectGitignore: false });
+    expect(unfiltered.entries.map(entry => entry.path)).toContain('debug.log');
+  });
+
+  it('parses sha256sum style manifests and rejects malformed ones', () => {
+    const manifest = `# build\n${digest('sha1', 'a')}  a.txt\n${digest('sha1', 'b')} *dir/b.bin\n\n`;
+
+    expect(parseManifest(manifest)).toEqual({
+      algorithm: 'sha1',
+      entries: [{ path: 'a.txt', hash: digest('sha1', 'a') }, { path: 'dir/b.bin', hash: digest('sha1', 'b') }],
+    });
+    expect(() => parseManifest('not a manifest')).toThrow('Invalid manifest line 1');
+    expect(() => parseManifest(`${digest('md5', 'a')}  a\n${digest('sha1', 'b')}  b`))
+      .toThrow('Manifest line 2 has a sha1 hash, but earlier lines use md5');
+  });
+
+  it('verifies a manifest and reports changed, missing and denied files', async () => {
+    const dist = path.join(testDir, 'dist');
+    const { entries } = await hashDirectory(dist, [testDir]);
+    await fs.writeFile(path.join(dist, 'app.js'), 'console.log(2);\n');
+    await fs.rm(path.join(dist, 'assets', 'logo.svg'));
+    const manifest = `${formatManifest(entries)}\n${digest('sha256', 'x')}  ../../outside.txt\n`;
+
+    const { algorithm, results } = await verifyManifest(manifest, dist, policy);
+
+    expect(algorithm).toBe('sha256');
+    expect(results.map(result => [result.path, result.status])).toEqual([
+      ['.gitignore', 'ok'],
+      ['app.js', 'changed'],
+      ['assets/logo.svg', 'missing'],
+      ['../../outside.txt', 'error'],
+    ]);
+    expect(results[1].actual).toBe(digest('sha256', 'console.log(2);\n'));
+    expect(formatVerifyReport(algorithm, results))
+      .toContain('4 files checked with sha256: 1 ok, 1 changed, 1 missing, 1 could not be checked');
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { startHttpServer, MCP_ENDPOINT_PATH, type McpHttpServer } from '../http-utils.js';
+import { validatePath } from '../lib.js';
+import { openAuditLog } from '../audit-utils.js';
+import { createAccessPolicy } from '../path-validation.js';
+
+describe('startHttpServer', () => {
+  let testDir: string;
+  let httpServer: McpHttpServer;
+  const clients: Client[] = [];
+
+  // A tool call can replace its session's allowed directories before reading a file
+  const createSession = () => {
+    const policy = createAccessPolicy();
+    const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const args = request.params.arguments as { allow?: string; read: string };
+      if (args.allow) {
+        policy.set([args.allow]);
+      }
+      const validPath = await validatePath(args.read, policy);
+      return { content: [{ type: 'text', text: await fs.readFile(validPath, 'utf-8') }] };
+    });
+    return server;
+  };
+
+  const connect = async (token?: string) => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const url = new URL(`http://127.0.0.1:${httpServer.port}${MCP_ENDPOINT_PATH}`);
+    await client.connect(new StreamableHTTPClientTransport(url, {
+      requestInit: token ? { headers: { Authorization: `Bearer ${token}` } } : undefined,
+    }));
+    clients.push(client);
+    return client;
+  };
+
+  const read = async (client: Client, args: { allow?: string; read: string }) => {
+    const result = await client.callTool({ name: 'read', arguments: args });
+    return (result.content as { text: string }[])[0].text;
+  };
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'http-test-')));
+    await fs.mkdir(path.join(testDir, 'a'));
+    await fs.mkdir(path.join(testDir, 'b'));
+    await fs.writeFile(path.join(testDir, 'a', 'file.txt'), 'from a');
+    await fs.writeFile(path.join(testDir, 'b', 'file.txt'), 'from b');
+    httpServer = await startHttpServer(createSession, { host: '127.0.0.1', port: 0, authToken: 'secret' });
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map(client => client.close()));
+    await httpServer.close();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('rejects clients without the bearer token', async () => {
+    await expect(connect()).rejects.toThrow();
+    await expect(connect('wrong')).rejects.toThrow();
+    const response = await fetch(`http://127.0.0.1:${httpServer.port}${MCP_ENDPOINT_PATH}`, { method: 'POST' });
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer');
+    expect(httpServer.sessionCount()).toBe(0);
+  });
+
+  it('keeps allowed directories separate for each session', async () => {
+    const first = await connect('secret');
+    const second = await connect('secret');
+    expect(httpServer.sessionCount()).toBe(2);
+
+    const fileA = path.join(testDir, 'a', 'file.txt');
+    const fileB = path.join(testDir, 'b', 'file.txt');
+    expect(await read(first, { allow: path.join(testDir, 'a'), read: fileA })).toBe('from a');
+    expect(await read(second, { allow: path.join(testDir, 'b'), read: fileB })).toBe('from b');
+
+    await expect(read(first, { read: fileB })).rejects.toThrow('Access denied');
+  });
+
+  it('ends a session when the client terminates it', async () => {
+    const client = await connect('secret');
+    const transport = client.transport as StreamableHTTPClientTransport;
+    const sessionId = transport.sessionId!;
+    await transport.terminateSession();
+    expect(httpServer.sessionCount()).toBe(0);
+
+    const response = await fetch(`http://127.0.0.1:${httpServer.port}${MCP_ENDPOINT_PATH}`, {
+      method: 'POST',
+      headers: {
+        Authorization: 'Bearer secret',
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'mcp-session-id': sessionId,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(response.status).toBe(404);
+  });
+
+  it('only shows each session the audit entries within its own directories', async () => {
+    await httpServer.close();
+    const auditLog = await openAuditLog(path.join(testDir, 'audit.jsonl'));
+    // Like the filesystem server, every session writes to and queries the one shared log
+    httpServer = await startHttpServer(() => {
+      const policy = createAccessPolicy();
+      const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+      server.setRequestHandler(CallToolRequestSchema, async (request) => {
+        const args = request.params.arguments as { allow?: string; write?: string };
+        if (args.allow) {
+          policy.set([args.allow]);
+        }
+        if (args.write) {
+          const validPath = await validatePath(args.write, policy);
+          await auditLog.track('write_file', [validPath], () => fs.writeFile(validPath, 'written'));
+        }
+        const records = await auditLog.query({ within: policy.directories() });
+        return { content: [{ type: 'text', text: records.map(record => record.paths[0].path).join('\n') }] };
+      });
+      return server;
+    }, { host: '127.0.0.1', port: 0, authToken: 'secret' });
+
+    const first = await connect('secret');
+    const second = await connect('secret');
+    const fileA = path.join(testDir, 'a', 'new.txt');
+    const fileB = path.join(testDir, 'b', 'new.txt');
+    const call = async (client: Client, args: { allow?: string; write?: string }) => {
+      const result = await client.callTool({ name: 'audit', arguments: args });
+      return (result.content as { text: string }[])[0].text;
+    };
+    expect(await call(first, { allow: path.join(testDir, 'a'), write: fileA })).toBe(fileA);
+    expect(await call(second, { allow: path.join(testDir, 'b') })).toBe('');
+    expect(await call(second, { write: fileB })).toBe(fileB);
+    expect(await call(first, {})).toBe(fileA);
+  });
+
+  it('closes sessions that stay idle for the timeout', async () => {
+    await httpServer.close();
+    let closed = 0;
+    httpServer = await startHttpServer(() => {
+      const server = createSession();
+      server.onclose = () => { closed++; };
+      return server;
+    }, { host: '127.0.0.1', port: 0, authToken: 'secret', sessionIdleTimeout: 0.2 });
+
+    const client = await connect('secret');
+    expect(httpServer.sessionCount()).toBe(1);
+    await client.listTools();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await client.listTools();
+    expect(httpServer.sessionCount()).toBe(1);
+
+    await new Promise(resolve => setTimeout(resolve, 400));
+    expect(httpServer.sessionCount()).toBe(0);
+    expect(closed).toBe(1);
+    await expect(client.listTools()).rejects.toThrow();
+  });
+
+  it('refuses new sessions beyond the maximum', async () => {
+    await httpServer.close();
+    httpServer = await startHttpServer(createSession, { host: '127.0.0.1', port: 0, maxSessions: 2 });
+
+    const first = await connect();
+    await connect();
+    await expect(connect()).rejects.toThrow();
+    expect(httpServer.sessionCount()).toBe(2);
+
+    await (first.transport as StreamableHTTPClientTransport).terminateSession();
+    await connect();
+    expect(httpServer.sessionCount()).toBe(2);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { findGlobalExcludesFile, loadIgnoreRules, loadIgnoreRulesForRoot, isIgnored } from '../ignore-utils.js';
+import { searchFilesWithValidation } from '../lib.js';
+import { createAccessPolicy } from '../path-validation.js';
+
+describe('ignore rules', () => {
+  let testDir: string;
+  let homeDir: string;
+  const originalEnv = { HOME: process.env.HOME, XDG_CONFIG_HOME: process.env.XDG_CONFIG_HOME };
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'ignore-test-')));
+    homeDir = path.join(testDir, 'home');
+    await fs.mkdir(path.join(homeDir, '.config', 'git'), { recursive: true });
+    process.env.HOME = homeDir;
+    delete process.env.XDG_CONFIG_HOME;
+
+    const repo = path.join(testDir, 'repo');
+    await fs.mkdir(path.join(repo, '.git', 'info'), { recursive: true });
+    await fs.mkdir(path.join(repo, 'src', 'generated'), { recursive: true });
+    await fs.mkdir(path.join(repo, 'node_modules', 'pkg'), { recursive: true });
+    await fs.writeFile(path.join(repo, '.gitignore'), 'node_modules/\n*.log\n');
+    await fs.writeFile(path.join(repo, 'src', '.gitignore'), '!keep.log\n');
+    await fs.writeFile(path.join(repo, 'src', '.ignore'), 'generated/\n');
+    await fs.writeFile(path.join(repo, 'debug.log'), '');
+    await fs.writeFile(path.join(repo, 'src', 'keep.log'), '');
+    await fs.writeFile(path.join(repo, 'src', 'index.ts'), '');
+    await fs.writeFile(path.join(repo, 'src', 'generated', 'types.ts'), '');
+    await fs.writeFile(path.join(repo, 'node_modules', 'pkg', 'index.ts'), '');
+  });
+
+  afterEach(async () => {
+    process.env.HOME = originalEnv.HOME;
+    if (originalEnv.XDG_CONFIG_HOME === undefined) {
+      delete process.env.XDG_CONFIG_HOME;
+    } else {
+      process.env.XDG_CONFIG_HOME = originalEnv.XDG_CONFIG_HOME;
+    }
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('applies nested ignore files with negation', async () => {
+    const repo = path.join(testDir, 'repo');
+    const rootRules = await loadIgnoreRules(repo);
+    const srcRules = await loadIgnoreRules(path.join(repo, 'src'), rootRules);
+
+    expect(isIgnored(path.join(repo, 'node_modules'), true, rootRules)).toBe(true);
+    expect(isIgnored(path.join(repo, 'debug.log'), false, rootRules)).toBe(true);
+    expect(isIgnored(path.join(repo, '.git'), true, rootRules)).toBe(true);
+    expect(isIgnored(path.join(repo, 'src', 'keep.log'), false, srcRules)).toBe(false);
+    expect(isIgnored(path.join(repo, 'src', 'generated'), true, srcRules)).toBe(true);
+    expect(isIgnored(path.join(repo, 'src', 'index.ts'), false, srcRules)).toBe(false);
+  });
+
+  it('loads ancestor ignore files up to the repository root', async () => {
+    const repo = path.join(testDir, 'repo');
+    const rules = await loadIgnoreRulesForRoot(path.join(repo, 'src'), [testDir]);
+
+    expect(isIgnored(path.join(repo, 'src', 'trace.log'), false, rules)).toBe(true);
+    expect(isIgnored(path.join(repo, 'src', 'keep.log'), false, rules)).toBe(false);
+  });
+
+  it('does not read ignore files outside the allowed directories', async () => {
+    const repo = path.join(testDir, 'repo');
+    const rules = await loadIgnoreRulesForRoot(path.join(repo, 'src'), [path.join(repo, 'src')]);
+
+    expect(isIgnored(path.join(repo, 'src', 'trace.log'), false, rules)).toBe(false);
+  });
+
+  it('applies global and repository excludes', async () => {
+    const repo = path.join(testDir, 'repo');
+    await fs.writeFile(path.join(homeDir, '.config', 'git', 'ignore'), '*.swp\n');
+    await fs.writeFile(path.join(repo, '.git', 'info', 'exclude'), 'scratch/\n');
+    const rules = await loadIgnoreRulesForRoot(repo, [testDir]);
+
+    expect(isIgnored(path.join(repo, 'src', 'index.ts.swp'), false, rules)).toBe(true);
+    expect(isIgnored(path.join(repo, 'scratch'), true, rules)).toBe(true);
+  });
+
+  it('follows core.excludesFile from the git config', async () => {
+    await fs.writeFile(path.join(homeDir, '.gitconfig'), '[user]\n\tname = someone\n[core]\n\texcludesFile = ~/my-excludes\n');
+
+    expect(await findGlobalExcludesFile()).toBe(path.join(homeDir, 'my-excludes'));
+  });
+
+  it('reports ignored entries when searching', async () => {
+    const repo = path.join(testDir, 'repo');
+    const policy = createAccessPolicy([testDir]);
+
+    const result = await searchFilesWithValidation(repo, '**/*.ts', policy);
+    expect(result.paths).toEqual([path.join(repo, 'src', 'index.ts')]);
+    // .git, node_modules, debug.log and src/generated
+    expect(result.ignoredEntries).toBe(4);
+
+    const unfiltered = await searchFilesWithValidation(repo, '**/*.ts', policy, { respectGitignore: false });
+    expect(unfiltered.paths).toHaveLength(3);
+    expect(unfiltered.ignoredEntries).toBe(0);
+  });
+});
@@ -9,7 +9,6 @@ import {
   createUnifiedDiff,
   // Security & validation functions
   validatePath,
-  setAllowedDirectories,
   // File operations
   getFileStats,
   readFileContent,
@@ -21,23 +20,24 @@ import {
   tailFile,
   headFile
 } from '../lib.js';
+import { createAccessPolicy, type AccessPolicy } from '../path-validation.js';
 
 // Mock fs module
 jest.mock('fs/promises');
 const mockFs = fs as jest.Mocked<typeof fs>;
 
 describe('Lib Functions', () => {
+  let policy: AccessPolicy;
+
   beforeEach(() => {
     jest.clearAllMocks();
     // Set up allowed directories for tests
     const allowedDirs = process.platform === 'win32' ? ['C:\\Users\\test', 'C:\\temp', 'C:\\allowed'] : ['/home/user', '/tmp', '/allowed'];
-    setAllowedDirectories(allowedDirs);
+    policy = createAccessPolicy(allowedDirs);
   });
 
   afterEach(() => {
     jest.restoreAllMocks();
-    // Clear allowed directories after tests
-    setAllowedDirectories([]);
   });
 
   describe('Pure Utility Functions', () => {
@@ -162,13 +162,13 @@ describe('Lib Functions', () => {
 
       it('validates allowed paths', async () => {
         const testPath = process.platform === 'win32' ? 'C:\\Users\\test\\file.txt' : '/home/user/file.txt';
-        const result = await validatePath(testPath);
+        const result = await validatePath(testPath, policy);
         expect(result).toBe(testPath);
       });
 
       it('rejects disallowed paths', async () => {
         const testPath = process.platform === 'win32' ? 'C:\\Windows\\System32\\file.txt' : '/etc/passwd';
-        await expect(validatePath(testPath))
+        await expect(validatePath(testPath, policy))
           .rejects.toThrow('Access denied - path outside allowed directories');
       });
 
@@ -184,7 +184,7 @@ describe('Lib Functions', () => {
           .mockRejectedValueOnce(enoentError)
           .mockResolvedValueOnce(parentPath);
         
-        const result = await validatePath(newFilePath);
+        const result = await validatePath(newFilePath, policy);
         expect(result).toBe(path.resolve(newFilePath));
       });
 
@@ -201,9 +201,45 @@ describe('Lib Functions', () => {
           .mockRejectedValueOnce(enoentError1)
           .mockRejectedValueOnce(enoentError2);
         
-        await expect(validatePath(newFilePath))
+        await expect(validatePath(newFilePath, policy))
           .rejects.toThrow('Parent directory does not exist');
       });
+
+      describe('permissions', () => {
+        const readOnlyDir = process.platform === 'win32' ? 'C:\\Users\\test' : '/home/user';
+        const writableDir = process.platform === 'win32' ? 'C:\\Users\\test\\out' : '/home/user/out';
+
+        beforeEach(() => {
+          policy = createAccessPolicy([
+            { path: readOnlyDir, permissions: ['read'] },
+            { path: writableDir, permissions: ['read', 'write'] },
+          ]);
+        });
+
+        it('allows reads in read-only directories', async () => {
+          const testPath = path.join(readOnlyDir, 'file.txt');
+          await expect(validatePath(testPath, policy)).resolves.toBe(testPath);
+        });
+
+        it('rejects writes to read-only directories', async () => {
+          await expect(validatePath(path.join(readOnlyDir, 'file.txt'), policy, 'write'))
+            .rejects.toThrow(`Access denied - write not permitted in ${readOnlyDir} (allowed: read)`);
+        });
+
+        it('uses the most specific allowed directory', async () => {
+          const testPath = path.join(writableDir, 'file.txt');
+          await expect(validatePath(testPath, policy, 'write')).resolves.toBe(testPath);
+          await expect(validatePath(testPath, policy, 'delete'))
+            .rejects.toThrow('delete not permitted');
+        });
+
+        it('reports permissions for each directory', () => {
+          expect(policy.entries()).toEqual([
+            { path: readOnlyDir, permissions: ['read'] },
+            { path: writableDir, permissions: ['read', 'write'] },
+          ]);
+        });
+      });
     });
   });
 
@@ -317,12 +353,12 @@ describe('Lib Functions', () => {
         const result = await searchFilesWithValidation(
           testDir,
           '*test*',
-          allowedDirs,
-          { excludePatterns: ['*.log', 'node_modules'] }
+          createAccessPolicy(allowedDirs),
+          { excludePatterns: ['*.log', 'node_modules'], respectGitignore: false }
         );
         
         const expectedResult = process.platform === 'win32' ? 'C:\\allowed\\dir\\test.txt' : '/allowed/dir/test.txt';
-        expect(result).toEqual([expectedResult]);
+        expect(result.paths).toEqual([expectedResult]);
       });
 
       it('handles validation errors during search', async () => {
@@ -347,13 +383,13 @@ describe('Lib Functions', () => {
         const result = await searchFilesWithValidation(
           testDir,
           '*test*',
-          allowedDirs,
-          {}
+          createAccessPolicy(allowedDirs),
+          { respectGitignore: false }
         );
         
         // Should only return the valid file, skipping the invalid one
         const expectedResult = process.platform === 'win32' ? 'C:\\allowed\\dir\\test.txt' : '/allowed/dir/test.txt';
-        expect(result).toEqual([expectedResult]);
+        expect(result.paths).toEqual([expectedResult]);
       });
 
       it('handles complex exclude patterns with wildcards', async () => {
@@ -371,8 +407,8 @@ describe('Lib Functions', () => {
         const result = await searchFilesWithValidation(
           testDir,
           '*test*',
-          allowedDirs,
-          { excludePatterns: ['*.backup'] }
+          createAccessPolicy(allowedDirs),
+          { excludePatterns: ['*.backup'], respectGitignore: false }
         );
         
         const expectedResults = process.platform === 'win32' ? [
@@ -382,7 +418,7 @@ describe('Lib Functions', () => {
           '/allowed/dir/test.txt',
           '/allowed/dir/important_test.js'
         ];
-        expect(result).toEqual(expectedResults);
+        expect(result.paths).toEqual(expectedResults);
       });
     });
   });
@@ -390,7 +426,7 @@ describe('Lib Functions', () => {
   describe('File Editing Functions', () => {
     describe('applyFileEdits', () => {
       beforeEach(() => {
-        mockFs.readFile.mockResolvedValue('line1\nline2\nline3\n');
+        mockFs.readFile.mockResolvedValue(Buffer.from('line1\nline2\nline3\n'));
         mockFs.writeFile.mockResolvedValue(undefined);
       });
 
@@ -449,7 +485,7 @@ describe('Lib Functions', () => {
       });
 
       it('handles whitespace-flexible matching', async () => {
-        mockFs.readFile.mockResolvedValue('  line1\n    line2\n  line3\n');
+        mockFs.readFile.mockResolvedValue(Buffer.from('  line1\n    line2\n  line3\n'));
         
         const edits = [
           { oldText: 'line2', newText: 'modified line2' }
@@ -479,8 +515,89 @@ describe('Lib Functions', () => {
           .rejects.toThrow('Could not find exact match for edit');
       });
 
+      it('shows the closest region and a character diff for non-matching edits', async () => {
+        mockFs.readFile.mockResolvedValue(Buffer.from('const total = items.length;\nreturn total * price;\n'));
+        const edits = [
+          { oldText: 'const total = item.length;', newText: 'const total = items.length + 1;' }
+        ];
+
+        await expect(applyFileEdits('/test/file.txt', edits, false))
+          .rejects.toThrow(/Closest match is lines 1-1 \(\d+% similar\)[\s\S]*const total = item\{\+s\+\}\.length;/);
+      });
+
+      it('applies a close unique match when fuzzyMatchThreshold allows it', async () => {
+        mockFs.readFile.mockResolvedValue(Buffer.from('const total = items.length;\nreturn total * price;\n'));
+        mockFs.rename.mockResolvedValueOnce(undefined);
+        const edits = [
+          { oldText: 'const total = item.length;', newText: 'const total = items.length + 1;' }
+        ];
+
+        const result = await applyFileEdits('/test/file.txt', edits, false, undefined, { fuzzyMatchThreshold: 0.9 });
+
+        expect(result).toMatch(/^Edit 1 did not match exactly and was applied to lines 1-1/);
+        expect(mockFs.writeFile).toHaveBeenCalledWith(
+          expect.stringMatching(/\/test\/file\.txt\.[a-f0-9]+\.tmp$/),
+          'const total = items.length + 1;\nreturn total * price;\n',
+          'utf-8'
+        );
+      });
+
+      it('refuses a fuzzy match when several regions are close enough', async () => {
+        mockFs.readFile.mockResolvedValue(Buffer.from('let count = 1;\nfoo();\nlet count = 2;\n'));
+        const edits = [
+          { oldText: 'let count = 3;', newText: 'let count = 4;' }
+        ];
+
+        await expect(applyFileEdits('/test/file.txt', edits, false, undefined, { fuzzyMatchThreshold: 0.8 }))
+          .rejects.toThrow('Several regions are at least 80% similar: lines 1-1 (92%), lines 3-3 (92%)');
+        expect(mockFs.writeFile).not.toHaveBeenCalled();
+      });
+
+      it('refuses an edit whose oldText appears more than once', async () => {
+        mockFs.readFile.mockResolvedValue(Buffer.from('start();\nreturn value;\nmiddle();\nreturn value;\n'));
+        const edits = [
+          { oldText: 'return value;', newText: 'return other;' }
+        ];
+
+        await expect(applyFileEdits('/test/file.txt', edits, false))
+          .rejects.toThrow('oldText appears 2 times, at lines 2, 4');
+        expect(mockFs.writeFile).not.toHaveBeenCalled();
+      });
+
+      it('edits the chosen occurrence or every occurrence', async () => {
+        mockFs.readFile.mockResolvedValue(Buffer.from('start();\nreturn value;\nmiddle();\nreturn value;\n'));
+        mockFs.rename.mockResolvedValue(undefined);
+
+        await applyFileEdits('/test/file.txt', [{ oldText: 'return value;', newText: 'return $&;', occurrence: 2 }], false);
+        expect(mockFs.writeFile).toHaveBeenLastCalledWith(
+          expect.any(String), 'start();\nreturn value;\nmiddle();\nreturn $&;\n', 'utf-8'
+        );
+
+        await applyFileEdits('/test/file.txt', [{ oldText: 'value', newText: 'other', replaceAll: true }], false);
+        expect(mockFs.writeFile).toHaveBeenLastCalledWith(
+          expect.any(String), 'start();\nreturn other;\nmiddle();\nreturn other;\n', 'utf-8'
+        );
+
+        await expect(applyFileEdits('/test/file.txt', [{ oldText: 'value', newText: 'other', occurrence: 3 }], false))
+          .rejects.toThrow('Edit asks for occurrence 3 of oldText, but it appears only 2 times (at lines 2, 4)');
+      });
+
+      it('applies the same rule to whitespace-flexible matches', async () => {
+        mockFs.readFile.mockResolvedValue(Buffer.from('if (a) {\n  go();\n}\nif (b) {\n    go();\n}\n'));
+        mockFs.rename.mockResolvedValue(undefined);
+        const oldText = 'if (a) {\ngo();\n}';
+
+        await expect(applyFileEdits('/test/file.txt', [{ oldText: 'go();\n  }', newText: 'stop();\n}' }], false))
+          .rejects.toThrow('oldText appears 2 times, at lines 2, 5');
+
+        await applyFileEdits('/test/file.txt', [{ oldText, newText: 'if (a) {\nstop();\n}' }], false);
+        expect(mockFs.writeFile).toHaveBeenLastCalledWith(
+          expect.any(String), 'if (a) {\nstop();\n}\nif (b) {\n    go();\n}\n', 'utf-8'
+        );
+      });
+
       it('handles complex multi-line edits with indentation', async () => {
-        mockFs.readFile.mockResolvedValue('function test() {\n  console.log("hello");\n  return true;\n}');
+        mockFs.readFile.mockResolvedValue(Buffer.from('function test() {\n  console.log("hello");\n  return true;\n}'));
         
         const edits = [
           { 
@@ -505,7 +622,7 @@ describe('Lib Functions', () => {
       });
 
       it('handles edits with different indentation patterns', async () => {
-        mockFs.readFile.mockResolvedValue('    if (condition) {\n        doSomething();\n    }');
+        mockFs.readFile.mockResolvedValue(Buffer.from('    if (condition) {\n        doSomething();\n    }'));
         
         const edits = [
           { 
@@ -529,8 +646,8 @@ describe('Lib Functions', () => {
         );
       });
 
-      it('handles CRLF line endings in file content', async () => {
-        mockFs.readFile.mockResolvedValue('line1\r\nline2\r\nline3\r\n');
+      it('preserves CRLF line endings in file content', async () => {
+        mockFs.readFile.mockResolvedValue(Buffer.from('line1\r\nline2\r\nline3\r\n'));
         
         const edits = [
           { oldText: 'line2', newText: 'modified line2' }
@@ -542,7 +659,7 @@ describe('Lib Functions', () => {
         
         expect(mockFs.writeFile).toHaveBeenCalledWith(
           expect.stringMatching(/\/test\/file\.txt\.[a-f0-9]+\.tmp$/),
-          'line1\nmodified line2\nline3\n',
+          'line1\r\nmodified line2\r\nline3\r\n',
           'utf-8'
         );
         expect(mockFs.rename).toHaveBeenCalledWith(
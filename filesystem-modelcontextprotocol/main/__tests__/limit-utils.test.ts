@@ -0,0 +1,37 @@
+import { describe, it, expect } from '@jest/globals';
+import { createReadBudget, DEFAULT_READ_LIMITS } from '../limit-utils.js';
+
+describe('createReadBudget', () => {
+  it('applies the per-call limit', () => {
+    const budget = createReadBudget({ ...DEFAULT_READ_LIMITS, maxReadBytes: 100 });
+    expect(budget.available()).toBe(100);
+    expect(budget.overLimitReason(100)).toBeNull();
+    expect(budget.overLimitReason(101)).toBe('over the 100 B per-call read limit');
+
+    budget.consume(1000);
+    expect(budget.available()).toBe(100);
+  });
+
+  it('counts reads against the session limit', () => {
+    const budget = createReadBudget({ ...DEFAULT_READ_LIMITS, maxReadBytes: 100, maxSessionBytes: 250 });
+    budget.consume(100);
+    budget.consume(100);
+    expect(budget.available()).toBe(50);
+    expect(budget.sessionAvailable()).toBe(50);
+    expect(budget.overLimitReason(60)).toBe("over the 50 B left of this session's 250 B read limit");
+    expect(() => budget.assertAvailable()).not.toThrow();
+
+    budget.consume(50);
+    expect(budget.available()).toBe(0);
+    expect(() => budget.assertAvailable()).toThrow("This session has used its 250 B read limit");
+  });
+
+  it('keeps separate budgets for separate sessions', () => {
+    const limits = { ...DEFAULT_READ_LIMITS, maxSessionBytes: 100 };
+    const first = createReadBudget(limits);
+    const second = createReadBudget(limits);
+    first.consume(100);
+    expect(first.available()).toBe(0);
+    expect(second.available()).toBe(100);
+  });
+});
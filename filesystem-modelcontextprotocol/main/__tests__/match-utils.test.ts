@@ -0,0 +1,52 @@
+import { describe, it, expect } from '@jest/globals';
+import { findClosestMatches, formatCharDiff, textSimilarity } from '../match-utils.js';
+
+describe('textSimilarity', () => {
+  it('scores identical, related and unrelated texts', () => {
+    expect(textSimilarity('abc', 'abc')).toBe(1);
+    expect(textSimilarity('', '')).toBe(1);
+    expect(textSimilarity('abcd', 'abce')).toBe(0.75);
+    expect(textSimilarity('abc', 'xyz')).toBe(0);
+  });
+});
+
+describe('findClosestMatches', () => {
+  const content = [
+    'function add(a, b) {',
+    '  return a + b;',
+    '}',
+    '',
+    'function subtract(a, b) {',
+    '  return a - b;',
+    '}',
+  ].join('\n');
+
+  it('finds the most similar region with the same number of lines', () => {
+    const [best] = findClosestMatches(content, 'function subtract(x, y) {\n  return x - y;');
+
+    expect(best).toMatchObject({ startLine: 5, endLine: 6 });
+    expect(best.text).toBe('function subtract(a, b) {\n  return a - b;');
+    expect(best.similarity).toBeGreaterThan(0.8);
+  });
+
+  it('returns candidates that do not overlap, most similar first', () => {
+    const matches = findClosestMatches(content, '  return a * b;');
+
+    expect(matches.map(match => match.startLine).slice(0, 2).sort()).toEqual([2, 6]);
+    for (let i = 1; i < matches.length; i++) {
+      expect(matches[i - 1].similarity).toBeGreaterThanOrEqual(matches[i].similarity);
+    }
+  });
+
+  it('compares against the whole text when it is shorter than the searched text', () => {
+    const [best] = findClosestMatches('only line', 'only line\nand another');
+
+    expect(best).toMatchObject({ startLine: 1, endLine: 1, text: 'only line' });
+  });
+});
+
+describe('formatCharDiff', () => {
+  it('marks text only in either side', () => {
+    expect(formatCharDiff('return a + b;', 'return a - b;')).toBe('return a [-+-]{+-+} b;');
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { readImageSize, fitWithinPixels, findExecutable, createThumbnail, extractPdfText, extractPosterFrame } from '../media-utils.js';
+
+describe('media-utils', () => {
+  let testDir: string;
+  const originalPath = process.env.PATH;
+
+  const writeImage = async (name: string, bytes: Buffer) => {
+    const filePath = path.join(testDir, name);
+    await fs.writeFile(filePath, bytes);
+    return filePath;
+  };
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'media-test-')));
+  });
+
+  afterEach(async () => {
+    process.env.PATH = originalPath;
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('readImageSize', () => {
+    it('reads the dimensions of common image formats', async () => {
+      const png = Buffer.alloc(33);
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(png);
+      png.write('IHDR', 12, 'ascii');
+      png.writeUInt32BE(640, 16);
+      png.writeUInt32BE(480, 20);
+
+      const gif = Buffer.alloc(13);
+      gif.write('GIF89a', 0, 'ascii');
+      gif.writeUInt16LE(32, 6);
+      gif.writeUInt16LE(16, 8);
+
+      const bmp = Buffer.alloc(54);
+      bmp.write('BM', 0, 'ascii');
+      bmp.writeInt32LE(100, 18);
+      bmp.writeInt32LE(-50, 22);
+
+      // SOI, then an APP0 segment before the SOF0 frame header
+      const jpeg = Buffer.concat([
+        Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]), Buffer.alloc(14),
+        Buffer.from([0xff, 0xc0, 0x00, 0x11, 0x08, 0x02, 0xd0, 0x05, 0x00]), Buffer.alloc(12),
+      ]);
+
+      const webp = Buffer.alloc(30);
+      webp.write('RIFF', 0, 'ascii');
+      webp.write('WEBPVP8X', 8, 'ascii');
+      webp.writeUIntLE(1919, 24, 3);
+      webp.writeUIntLE(1079, 27, 3);
+
+      expect(await readImageSize(await writeImage('a.png', png))).toEqual({ width: 640, height: 480 });
+      expect(await readImageSize(await writeImage('a.gif', gif))).toEqual({ width: 32, height: 16 });
+      expect(await readImageSize(await writeImage('a.bmp', bmp))).toEqual({ width: 100, height: 50 });
+      expect(await readImageSize(await writeImage('a.jpg', jpeg))).toEqual({ width: 1280, height: 720 });
+      expect(await readImageSize(await writeImage('a.webp', webp))).toEqual({ width: 1920, height: 1080 });
+      expect(await readImageSize(await writeImage('a.txt', Buffer.from('not an image')))).toBeNull();
+    });
+  });
+
+  it('scales dimensions to fit a pixel count', () => {
+    expect(fitWithinPixels({ width: 400, height: 200 }, 20000)).toEqual({ width: 200, height: 100 });
+    expect(fitWithinPixels({ width: 400, height: 200 }, 80000)).toEqual({ width: 400, height: 200 });
+    expect(fitWithinPixels({ width: 10000, height: 1 }, 100)).toEqual({ width: 100, height: 1 });
+    expect(fitWithinPixels({ width: 1, height: 10000 }, 100)).toEqual({ width: 1, height: 100 });
+  });
+
+  const posixIt = process.platform === 'win32' ? it.skip : it;
+
+  // Installs a shell script on an otherwise empty PATH, standing in for a converter or decoder
+  const installCommand = async (name: string, script: string) => {
+    const binDir = path.join(testDir, 'bin');
+    await fs.mkdir(binDir, { recursive: true });
+    process.env.PATH = binDir;
+    const command = path.join(binDir, name);
+    await fs.writeFile(command, `#!/bin/sh\n${script}\n`);
+    await fs.chmod(command, 0o755);
+    return command;
+  };
+
+  posixIt('downscales with an installed converter, and returns null without one', async () => {
+    const image = await writeImage('large.png', Buffer.alloc(8));
+    process.env.PATH = testDir;
+    expect(await findExecutable('magick')).toBeNull();
+    expect(await createThumbnail(image, { width: 400, height: 200 }, 20000, 'image/png')).toBeNull();
+
+    // Writes its arguments to the output file
+    const magick = await installCommand('magick', 'for last; do :; done\necho "$@" > "$last"');
+    expect(await findExecutable('magick')).toBe(magick);
+
+    const thumbnail = await createThumbnail(image, { width: 400, height: 200 }, 20000, 'image/png');
+    expect(thumbnail).toMatchObject({ width: 200, height: 100, mimeType: 'image/png' });
+    expect(thumbnail!.data.toString()).toContain(`${image}[0] -thumbnail 200x100!`);
+  });
+
+  posixIt('extracts the text of PDF pages with pdftotext', async () => {
+    const pdf = await writeImage('doc.pdf', Buffer.from('%PDF-1.4\n'));
+    process.env.PATH = testDir;
+    expect(await extractPdfText(pdf)).toBeNull();
+
+    await installCommand('pdfinfo', 'printf "Title: test\\nPages:          3\\n"');
+    // Prints the requested page numbers, each page ending with a form feed like pdftotext
+    await installCommand('pdftotext', 'first=$5; last=$7; for p in $(seq "$first" "$last"); do printf "text of page %s\\f" "$p"; done');
+
+    expect(await extractPdfText(pdf, 2)).toEqual({
+      pages: ['text of page 2', 'text of page 3'],
+      startPage: 2,
+      totalPages: 3,
+      truncated: false,
+    });
+    expect((await extractPdfText(pdf, 1, 10))!.pages).toHaveLength(3);
+    await expect(extractPdfText(pdf, 4)).rejects.toThrow('startPage 4 is past the end of the document, which has 3 pages');
+
+    // Output beyond maxBytes cuts extraction short at the last complete page
+    expect(await extractPdfText(pdf, 1, 3, 20)).toMatchObject({ pages: ['text of page 1'], truncated: true });
+  });
+
+  posixIt('extracts a poster frame from videos with ffmpeg', async () => {
+    const video = await writeImage('clip.mp4', Buffer.alloc(8));
+    process.env.PATH = testDir;
+    expect(await extractPosterFrame(video, 1000)).toBeNull();
+
+    await installCommand('ffmpeg', 'for last; do :; done\necho "$@" > "$last"');
+    const poster = await extractPosterFrame(video, 1000);
+    expect(poster!.mimeType).toBe('image/jpeg');
+    expect(poster!.data.toString()).toContain(`-i ${video} -an -vf thumbnail,scale=`);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { getMimeType, sniffMimeType, detectMimeType } from '../mime-utils.js';
+
+const withBytes = (start: number[] | string, length = 32) => {
+  const buffer = Buffer.alloc(length);
+  (typeof start === 'string' ? Buffer.from(start, 'latin1') : Buffer.from(start)).copy(buffer);
+  return buffer;
+};
+
+describe('mime-utils', () => {
+  it('looks up MIME types by extension', () => {
+    expect(getMimeType('/a/photo.JPG')).toBe('image/jpeg');
+    expect(getMimeType('/a/clip.mov')).toBe('video/quicktime');
+    expect(getMimeType('/a/unknown.xyz')).toBeUndefined();
+  });
+
+  describe('sniffMimeType', () => {
+    it('recognizes formats by their signature', () => {
+      expect(sniffMimeType(withBytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))).toBe('image/png');
+      expect(sniffMimeType(withBytes([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+      expect(sniffMimeType(withBytes('GIF89a'))).toBe('image/gif');
+      expect(sniffMimeType(withBytes('%PDF-1.7'))).toBe('application/pdf');
+      expect(sniffMimeType(withBytes('ID3\x04'))).toBe('audio/mpeg');
+      expect(sniffMimeType(withBytes([0xff, 0xfb, 0x90, 0x64]))).toBe('audio/mpeg');
+      expect(sniffMimeType(withBytes('fLaC'))).toBe('audio/flac');
+      expect(sniffMimeType(withBytes('RIFF\0\0\0\0WEBPVP8 '))).toBe('image/webp');
+      expect(sniffMimeType(withBytes('RIFF\0\0\0\0WAVEfmt '))).toBe('audio/wav');
+      expect(sniffMimeType(withBytes('\0\0\0\x20ftypisom'))).toBe('video/mp4');
+      expect(sniffMimeType(withBytes('\0\0\0\x14ftypqt  '))).toBe('video/quicktime');
+      expect(sniffMimeType(withBytes([0x1a, 0x45, 0xdf, 0xa3, 0x42, 0x82, 0x84, 0x77, 0x65, 0x62, 0x6d]))).toBe('video/webm');
+    });
+
+    it('recognizes SVG documents', () => {
+      expect(sniffMimeType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBe('image/svg+xml');
+      expect(sniffMimeType(Buffer.from('﻿<?xml version="1.0"?>\n<!-- drawn by hand -->\n<!DOCTYPE svg>\n<svg>'))).toBe('image/svg+xml');
+      expect(sniffMimeType(Buffer.from('<html><svg></svg></html>'))).toBeUndefined();
+    });
+
+    it('does not mistake text for binary formats', () => {
+      expect(sniffMimeType(Buffer.from('BMW service history\n'))).toBeUndefined();
+      expect(sniffMimeType(Buffer.from('﻿hello', 'utf16le'))).toBeUndefined();
+      expect(sniffMimeType(Buffer.from('plain text'))).toBeUndefined();
+    });
+  });
+
+  describe('detectMimeType', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'mime-test-')));
+    });
+
+    afterEach(async () => {
+      await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('trusts the content over the extension', async () => {
+      const misnamed = path.join(testDir, 'report.png');
+      await fs.writeFile(misnamed, '%PDF-1.4\n');
+      expect(await detectMimeType(misnamed)).toBe('application/pdf');
+
+      const notes = path.join(testDir, 'notes.md');
+      await fs.writeFile(notes, '# Notes\n');
+      expect(await detectMimeType(notes)).toBe('text/markdown');
+    });
+  });
+});
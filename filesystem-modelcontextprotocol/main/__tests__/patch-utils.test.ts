@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { applyUnifiedPatch, formatPatchReport } from '../patch-utils.js';
+import { createAccessPolicy, type AccessPolicy } from '../path-validation.js';
+
+const ORIGINAL = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+
+describe('applyUnifiedPatch', () => {
+  let testDir: string;
+  let policy: AccessPolicy;
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'patch-test-')));
+    policy = createAccessPolicy([testDir]);
+    await fs.mkdir(path.join(testDir, 'src'));
+    await fs.writeFile(path.join(testDir, 'src', 'a.txt'), ORIGINAL);
+    await fs.writeFile(path.join(testDir, 'old.txt'), 'one\ntwo\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const gitPatch = [
+    'diff --git a/src/a.txt b/src/a.txt',
+    'index 1111111..2222222 100644',
+    '--- a/src/a.txt',
+    '+++ b/src/a.txt',
+    '@@ -2,3 +2,3 @@',
+    ' line 2',
+    '-line 3',
+    '+line three',
+    ' line 4',
+    '@@ -15,3 +15,4 @@',
+    ' line 15',
+    ' line 16',
+    '+line 16.5',
+    ' line 17',
+    'diff --git a/docs/new.md b/docs/new.md',
+    'new file mode 100644',
+    '--- /dev/null',
+    '+++ b/docs/new.md',
+    '@@ -0,0 +1,2 @@',
+    '+# New',
+    '+no newline',
+    '\\ No newline at end of file',
+    'diff --git a/old.txt b/old.txt',
+    'deleted file mode 100644',
+    '--- a/old.txt',
+    '+++ /dev/null',
+    '@@ -1,2 +0,0 @@',
+    '-one',
+    '-two',
+    '',
+  ].join('\n');
+
+  it('creates, modifies and deletes files from a git diff', async () => {
+    const result = await applyUnifiedPatch(gitPatch, testDir, policy);
+
+    expect(result.written).toBe(true);
+    expect(result.files.map(file => [file.path, file.operation])).toEqual([
+      ['src/a.txt', 'modify'],
+      ['docs/new.md', 'create'],
+      ['old.txt', 'delete'],
+    ]);
+    expect(await fs.readFile(path.join(testDir, 'src', 'a.txt'), 'utf-8'))
+      .toBe(ORIGINAL.replace('line 3\n', 'line three\n').replace('line 16\n', 'line 16\nline 16.5\n'));
+    expect(await fs.readFile(path.join(testDir, 'docs', 'new.md'), 'utf-8')).toBe('# New\nno newline');
+    await expect(fs.access(path.join(testDir, 'old.txt'))).rejects.toThrow();
+  });
+
+  it('changes nothing in dry run mode', async () => {
+    const result = await applyUnifiedPatch(gitPatch, testDir, policy, { dryRun: true });
+
+    expect(result.written).toBe(false);
+    expect(formatPatchReport(result, true)).toContain('3 files, 4 hunks: 4 would apply, 0 failed. Dry run: the patch applies cleanly');
+    expect(await fs.readFile(path.join(testDir, 'src', 'a.txt'), 'utf-8')).toBe(ORIGINAL);
+    await expect(fs.access(path.join(testDir, 'docs'))).rejects.toThrow();
+  });
+
+  it('finds hunks that moved and reports the offset', async () => {
+    await fs.writeFile(path.join(testDir, 'src', 'a.txt'), 'header 1\nheader 2\n' + ORIGINAL);
+
+    const result = await applyUnifiedPatch(gitPatch, testDir, policy, { dryRun: true });
+
+    expect(result.files[0].hunks.map(hunk => [hunk.line, hunk.offset])).toEqual([[4, 2], [17, 2]]);
+    expect(formatPatchReport(result, true)).toContain('hunk 1 @@ -2,3 +2,3 @@: ok at line 4 (offset +2 lines)');
+  });
+
+  it('reports every failed hunk with its context and writes nothing', async () => {
+    await fs.writeFile(path.join(testDir, 'src', 'a.txt'), ORIGINAL.replace('line 2\n', 'line two\n'));
+
+    const result = await applyUnifiedPatch(gitPatch, testDir, policy);
+    const report = formatPatchReport(result, false);
+
+    expect(result.written).toBe(false);
+    expect(result.files[0].hunks.map(hunk => hunk.applied)).toEqual([false, true]);
+    expect(report).toContain('4 hunks: 3 applied, 1 failed. No files were changed.');
+    expect(report).toContain('hunk 1 @@ -2,3 +2,3 @@: FAILED');
+    expect(report).toContain('    expected:\n    | line 2\n    | line 3\n    | line 4\n    found:\n    | line two\n    | line 3\n    | line 4');
+    expect(await fs.readFile(path.join(testDir, 'old.txt'), 'utf-8')).toBe('one\ntwo\n');
+    await expect(fs.access(path.join(testDir, 'docs'))).rejects.toThrow();
+  });
+
+  it('ignores mismatched outer context lines with fuzz', async () => {
+    await fs.writeFile(path.join(testDir, 'src', 'a.txt'), ORIGINAL.replace('line 2\n', 'line two\n'));
+    const patch = gitPatch.slice(0, gitPatch.indexOf('@@ -15'));
+
+    expect((await applyUnifiedPatch(patch, testDir, policy, { dryRun: true })).files[0].hunks[0].applied).toBe(false);
+    const result = await applyUnifiedPatch(patch, testDir, policy, { fuzz: 1 });
+    expect(result.files[0].hunks[0]).toMatchObject({ applied: true, line: 2, fuzz: 1 });
+    expect(await fs.readFile(path.join(testDir, 'src', 'a.txt'), 'utf-8')).toContain('line two\nline three\nline 4\n');
+  });
+
+  it('refuses files larger than the read limit and counts the bytes it reads', async () => {
+    const allowed = await applyUnifiedPatch(gitPatch, testDir, policy, { dryRun: true });
+    expect(allowed.bytesRead).toBe(Buffer.byteLength(ORIGINAL) + Buffer.byteLength('one\ntwo\n'));
+
+    const result = await applyUnifiedPatch(gitPatch, testDir, policy, { maxFileBytes: 10 });
+    expect(result.written).toBe(false);
+    expect(result.files[0].error).toContain('larger than the 10 B read limit');
+    expect(result.files[2].error).toBeUndefined();
+    expect(await fs.readFile(path.join(testDir, 'old.txt'), 'utf-8')).toBe('one\ntwo\n');
+  });
+
+  it('reports targets outside the allowed directories', async () => {
+    const patch = ['--- ../outside.txt', '+++ ../outside.txt', '@@ -1 +1 @@', '-a', '+b', ''].join('\n');
+
+    const result = await applyUnifiedPatch(patch, testDir, policy);
+    expect(result.written).toBe(false);
+    expect(result.files[0].error).toContain('Access denied');
+  });
+
+  it('preserves CRLF line endings of the patched file', async () => {
+    await fs.writeFile(path.join(testDir, 'crlf.txt'), 'a\r\nb\r\nc\r\n');
+    const patch = ['--- crlf.txt', '+++ crlf.txt', '@@ -1,3 +1,3 @@', ' a', '-b', '+B', ' c', ''].join('\n');
+
+    await applyUnifiedPatch(patch, testDir, policy);
+    expect(await fs.readFile(path.join(testDir, 'crlf.txt'), 'utf-8')).toBe('a\r\nB\r\nc\r\n');
+  });
+
+  it('refuses renames and binary changes', async () => {
+    const patch = ['diff --git a/x b/y', 'similarity index 100%', 'rename from x', 'rename to y', ''].join('\n');
+
+    await expect(applyUnifiedPatch(patch, testDir, policy)).rejects.toThrow('Renames, copies and binary changes are not supported');
+  });
+});
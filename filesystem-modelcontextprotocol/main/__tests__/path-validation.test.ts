@@ -2,7 +2,8 @@ import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import * as os from 'os';
-import { isPathWithinAllowedDirectories } from '../path-validation.js';
+import { isPathWithinAllowedDirectories, findAllowedRoot, createAccessPolicy } from '../path-validation.js';
+import { validatePath } from '../lib.js';
 
 /**
  * Check if the current environment supports symlink creation
@@ -951,3 +952,74 @@ describe('Path Validation', () => {
     });
   });
 });
+
+describe('findAllowedRoot', () => {
+  it('finds the most specific allowed root', () => {
+    const root = path.resolve('/home/user');
+    const nested = path.join(root, 'project');
+    expect(findAllowedRoot(path.join(nested, 'file.txt'), [root, nested])).toBe(nested);
+    expect(findAllowedRoot(path.join(root, 'file.txt'), [root, nested])).toBe(root);
+    expect(findAllowedRoot(path.resolve('/somewhere/else'), [root])).toBeNull();
+  });
+});
+
+describe('createAccessPolicy', () => {
+  let dirA: string;
+  let dirB: string;
+
+  beforeEach(async () => {
+    dirA = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'policy-a-')));
+    dirB = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'policy-b-')));
+    await fs.writeFile(path.join(dirA, 'a.txt'), 'a');
+    await fs.writeFile(path.join(dirB, 'b.txt'), 'b');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dirA, { recursive: true, force: true });
+    await fs.rm(dirB, { recursive: true, force: true });
+  });
+
+  it('decides permissions by the most specific directory', () => {
+    const nested = path.join(dirA, 'out');
+    const policy = createAccessPolicy([{ path: dirA, permissions: ['read'] }, nested]);
+    expect(policy.permissionsAt(path.join(dirA, 'a.txt'))).toEqual({ root: dirA, permissions: ['read'] });
+    expect(policy.permissionsAt(path.join(nested, 'x.txt'))).toEqual({ root: nested, permissions: ['read', 'write', 'delete'] });
+    expect(policy.permissionsAt(path.join(dirB, 'b.txt'))).toEqual({ root: null, permissions: [] });
+  });
+
+  it('does not share directories between policies', () => {
+    const first = createAccessPolicy([dirA]);
+    const second = createAccessPolicy([dirA]);
+    second.set([dirB]);
+    first.entries()[0].permissions.pop();
+
+    expect(first.directories()).toEqual([dirA]);
+    expect(first.entries()).toEqual([{ path: dirA, permissions: ['read', 'write', 'delete'] }]);
+    expect(second.directories()).toEqual([dirB]);
+  });
+
+  it('validates concurrent sessions against their own policies', async () => {
+    const sessionA = createAccessPolicy([dirA]);
+    const sessionB = createAccessPolicy([dirB]);
+    const fileA = path.join(dirA, 'a.txt');
+    const fileB = path.join(dirB, 'b.txt');
+
+    const results = await Promise.all(Array.from({ length: 20 }, (_, i) => {
+      const [policy, allowed, denied] = i % 2 === 0 ? [sessionA, fileA, fileB] : [sessionB, fileB, fileA];
+      return Promise.all([
+        validatePath(allowed, policy),
+        validatePath(denied, policy).then(() => 'allowed', () => 'denied'),
+      ]);
+    }));
+    results.forEach(([validPath, denied], i) => {
+      expect(validPath).toBe(i % 2 === 0 ? fileA : fileB);
+      expect(denied).toBe('denied');
+    });
+
+    // Changing one session's directories while the other validates leaves the other alone
+    const pending = validatePath(fileB, sessionB);
+    sessionA.set([]);
+    await expect(pending).resolves.toBe(fileB);
+    await expect(validatePath(fileA, sessionA)).rejects.toThrow('Access denied');
+  });
+});
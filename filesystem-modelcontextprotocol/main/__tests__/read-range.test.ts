@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { countFileLines, readFileLines, readFileBytes, headFile, tailFile } from '../lib.js';
+
+describe('ranged reads', () => {
+  let testDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'read-range-test-'));
+    filePath = path.join(testDir, 'file.txt');
+    const lines = Array.from({ length: 12 }, (_, i) => `line ${i + 1}`);
+    await fs.writeFile(filePath, lines.join('\n') + '\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('countFileLines', () => {
+    it('counts lines with and without a trailing newline', async () => {
+      expect(await countFileLines(filePath)).toBe(12);
+
+      await fs.writeFile(filePath, 'a\nb');
+      expect(await countFileLines(filePath)).toBe(2);
+
+      await fs.writeFile(filePath, '');
+      expect(await countFileLines(filePath)).toBe(0);
+    });
+  });
+
+  describe('readFileLines', () => {
+    it('returns the requested window and reports remaining content', async () => {
+      const result = await readFileLines(filePath, 3, 5);
+
+      expect(result.content).toBe('line 3\nline 4\nline 5');
+      expect(result.startLine).toBe(3);
+      expect(result.endLine).toBe(5);
+      expect(result.totalLines).toBe(12);
+      expect(result.hasMore).toBe(true);
+    });
+
+    it('reads to the end of the file when endLine is omitted', async () => {
+      const result = await readFileLines(filePath, 11);
+
+      expect(result.content).toBe('line 11\nline 12');
+      expect(result.endLine).toBe(12);
+      expect(result.hasMore).toBe(false);
+    });
+
+    it('prefixes padded line numbers on request', async () => {
+      const result = await readFileLines(filePath, 9, 10, true);
+      expect(result.content).toBe(' 9\tline 9\n10\tline 10');
+    });
+
+    it('strips carriage returns from CRLF files', async () => {
+      await fs.writeFile(filePath, 'one\r\ntwo\r\nthree');
+      const result = await readFileLines(filePath, 2, 3);
+      expect(result.content).toBe('two\nthree');
+      expect(result.totalLines).toBe(3);
+    });
+
+    it('handles windows beyond the end of the file', async () => {
+      const result = await readFileLines(filePath, 20, 25);
+      expect(result.content).toBe('');
+      expect(result.totalLines).toBe(12);
+      expect(result.hasMore).toBe(false);
+    });
+
+    it('keeps multi-byte characters intact across chunk boundaries', async () => {
+      const longLine = '界'.repeat(30000);
+      await fs.writeFile(filePath, `${longLine}\nsecond`);
+      const result = await readFileLines(filePath, 1, 1);
+      expect(result.content).toBe(longLine);
+      expect(result.totalLines).toBe(2);
+    });
+
+    it('stops before the returned lines exceed maxBytes', async () => {
+      // "line 3\nline 4" is 13 bytes
+      const result = await readFileLines(filePath, 3, 10, false, 'utf-8', 13);
+      expect(result.content).toBe('line 3\nline 4');
+      expect(result.endLine).toBe(4);
+      expect(result.totalLines).toBe(12);
+      expect(result.hasMore).toBe(true);
+
+      const tooSmall = await readFileLines(filePath, 3, 10, false, 'utf-8', 5);
+      expect(tooSmall.content).toBe('');
+      expect(tooSmall.endLine).toBe(2);
+    });
+
+    it('rejects invalid ranges', async () => {
+      await expect(readFileLines(filePath, 5, 2)).rejects.toThrow('must not be less than startLine');
+      await expect(readFileLines(filePath, 0)).rejects.toThrow('startLine must be 1 or greater');
+    });
+  });
+
+  describe('readFileBytes', () => {
+    it('returns a byte window', async () => {
+      const result = await readFileBytes(filePath, 7, 6);
+
+      expect(result.content).toBe('line 2');
+      expect(result.bytesRead).toBe(6);
+      expect(result.hasMore).toBe(true);
+    });
+
+    it('reads to the end of the file when length is omitted', async () => {
+      const stats = await fs.stat(filePath);
+      const result = await readFileBytes(filePath, stats.size - 8);
+
+      expect(result.content).toBe('line 12\n');
+      expect(result.totalBytes).toBe(stats.size);
+      expect(result.hasMore).toBe(false);
+    });
+
+    it('returns empty content for offsets past the end', async () => {
+      const result = await readFileBytes(filePath, 10000, 10);
+      expect(result.content).toBe('');
+      expect(result.bytesRead).toBe(0);
+      expect(result.hasMore).toBe(false);
+    });
+  });
+
+  describe('headFile and tailFile', () => {
+    it('stop reading once the lines cannot fit in maxBytes', async () => {
+      await fs.writeFile(filePath, 'x'.repeat(10_000) + '\nshort\n' + 'y'.repeat(10_000));
+
+      expect(await headFile(filePath, 1, 20_000)).toBe('x'.repeat(10_000));
+      await expect(headFile(filePath, 1, 2000)).rejects.toThrow('The first 1 lines are larger than');
+      expect(await tailFile(filePath, 1, 20_000)).toBe('y'.repeat(10_000));
+      await expect(tailFile(filePath, 2, 2000)).rejects.toThrow('The last 2 lines are larger than');
+    });
+  });
+});
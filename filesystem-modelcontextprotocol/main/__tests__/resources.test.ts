@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  RESOURCE_PAGE_SIZE,
+  listFileResources,
+  pathToResourceUri,
+  readFileResource,
+  resourceUriToPath,
+} from '../resource-utils.js';
+import { createResourceWatcher, type ResourceWatcher } from '../watch-utils.js';
+
+async function waitFor(condition: () => boolean, timeoutMs: number = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+const BINARY_DATA = Buffer.from([0x00, 0x01, 0xff, 0x00, 0x10, 0x20, 0x00, 0x00]);
+
+describe('file resources', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'resources-test-')));
+    await fs.mkdir(path.join(testDir, 'src'));
+    await fs.mkdir(path.join(testDir, 'node_modules'));
+    await fs.writeFile(path.join(testDir, '.gitignore'), 'node_modules/\n');
+    await fs.writeFile(path.join(testDir, 'README.md'), '# readme');
+    await fs.writeFile(path.join(testDir, 'src', 'index.ts'), 'export {};');
+    await fs.writeFile(path.join(testDir, 'src', 'data.bin'), BINARY_DATA);
+    await fs.writeFile(path.join(testDir, 'node_modules', 'dep.js'), '');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('converts between paths and file URIs', () => {
+    const filePath = path.join(testDir, 'a file.txt');
+    const uri = pathToResourceUri(filePath);
+
+    expect(uri.startsWith('file://')).toBe(true);
+    expect(resourceUriToPath(uri)).toBe(filePath);
+    expect(() => resourceUriToPath('https://example.com/a.txt')).toThrow('Unsupported resource URI');
+  });
+
+  it('lists files in the allowed directories, skipping ignored ones', async () => {
+    const { resources, nextCursor } = await listFileResources([testDir]);
+
+    expect(resources.map(r => path.relative(testDir, resourceUriToPath(r.uri)))).toEqual([
+      '.gitignore',
+      'README.md',
+      path.join('src', 'data.bin'),
+      path.join('src', 'index.ts'),
+    ]);
+    expect(resources.find(r => r.name === 'README.md')!.mimeType).toBe('text/markdown');
+    expect(nextCursor).toBeUndefined();
+  });
+
+  it('pages through long listings', async () => {
+    for (let i = 0; i < RESOURCE_PAGE_SIZE; i++) {
+      await fs.writeFile(path.join(testDir, 'src', `file-${String(i).padStart(4, '0')}.txt`), '');
+    }
+
+    const first = await listFileResources([testDir]);
+    expect(first.resources).toHaveLength(RESOURCE_PAGE_SIZE);
+    const second = await listFileResources([testDir], first.nextCursor);
+    expect(second.resources).toHaveLength(4);
+    expect(second.nextCursor).toBeUndefined();
+
+    await expect(listFileResources([testDir], 'nope')).rejects.toThrow('Invalid cursor');
+  });
+
+  it('reads text files as text and binary files as blobs', async () => {
+    const textPath = path.join(testDir, 'src', 'index.ts');
+    const binaryPath = path.join(testDir, 'src', 'data.bin');
+
+    expect(await readFileResource(textPath, 'file:///index.ts'))
+      .toEqual({ uri: 'file:///index.ts', mimeType: 'text/plain', text: 'export {};' });
+    expect(await readFileResource(binaryPath, 'file:///data.bin'))
+      .toEqual({ uri: 'file:///data.bin', mimeType: 'application/octet-stream', blob: BINARY_DATA.toString('base64') });
+  });
+});
+
+describe('resource watcher', () => {
+  let testDir: string;
+  let watcher: ResourceWatcher;
+  let updates: string[];
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'watch-test-')));
+    await fs.mkdir(path.join(testDir, 'dir', 'nested'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'file.txt'), 'one');
+    updates = [];
+    watcher = createResourceWatcher(uri => updates.push(uri), { debounceMs: 50, maxWaitMs: 500 });
+  });
+
+  afterEach(async () => {
+    watcher.close();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('coalesces a burst of changes into one notification', async () => {
+    await watcher.subscribe('file:///file.txt', path.join(testDir, 'file.txt'));
+
+    for (let i = 0; i < 5; i++) {
+      await fs.writeFile(path.join(testDir, 'file.txt'), `change ${i}`);
+    }
+
+    await waitFor(() => updates.length > 0);
+    await new Promise(resolve => setTimeout(resolve, 150));
+    expect(updates).toEqual(['file:///file.txt']);
+  });
+
+  it('reports changes anywhere below a subscribed directory', async () => {
+    await watcher.subscribe('file:///dir', path.join(testDir, 'dir'));
+
+    await fs.writeFile(path.join(testDir, 'dir', 'nested', 'new.txt'), 'created');
+
+    await waitFor(() => updates.includes('file:///dir'));
+  });
+
+  it('ignores changes to other files', async () => {
+    await watcher.subscribe('file:///file.txt', path.join(testDir, 'file.txt'));
+
+    await fs.writeFile(path.join(testDir, 'other.txt'), 'unrelated');
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    expect(updates).toEqual([]);
+  });
+
+  it('drops subscriptions outside the allowed directories', async () => {
+    await watcher.subscribe('file:///file.txt', path.join(testDir, 'file.txt'));
+    await watcher.subscribe('file:///dir', path.join(testDir, 'dir'));
+
+    watcher.setAllowedDirectories([path.join(testDir, 'dir')]);
+    expect(watcher.subscriptions()).toEqual(['file:///dir']);
+
+    await fs.writeFile(path.join(testDir, 'file.txt'), 'changed');
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect(updates).toEqual([]);
+  });
+});
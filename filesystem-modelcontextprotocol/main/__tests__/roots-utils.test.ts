@@ -1,9 +1,17 @@
 import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
-import { getValidRootDirectories } from '../roots-utils.js';
+import {
+  getValidRootDirectories,
+  parseDirectoryArgument,
+  formatPermissions,
+  formatAllowedDirectory,
+  assignRootPermissions,
+  mergeRootDirectories,
+} from '../roots-utils.js';
 import { mkdtempSync, rmSync, mkdirSync, writeFileSync, realpathSync } from 'fs';
 import { tmpdir } from 'os';
 import { join } from 'path';
 import type { Root } from '@modelcontextprotocol/sdk/types.js';
+import { createAccessPolicy, type AllowedDirectory } from '../path-validation.js';
 
 describe('getValidRootDirectories', () => {
   let testDir1: string;
@@ -81,4 +89,134 @@ describe('getValidRootDirectories', () => {
       expect(result).toHaveLength(1);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('directory permissions', () => {
+  describe('parseDirectoryArgument', () => {
+    it('grants full access without a suffix', () => {
+      expect(parseDirectoryArgument('/srv/data')).toEqual({ path: '/srv/data', permissions: ['read', 'write', 'delete'] });
+    });
+
+    it('parses read-only and explicit permission suffixes', () => {
+      expect(parseDirectoryArgument('/srv/docs:ro')).toEqual({ path: '/srv/docs', permissions: ['read'] });
+      expect(parseDirectoryArgument('/srv/out:rw')).toEqual({ path: '/srv/out', permissions: ['read', 'write'] });
+      expect(parseDirectoryArgument('/srv/tmp:rdw')).toEqual({ path: '/srv/tmp', permissions: ['read', 'write', 'delete'] });
+    });
+
+    it('leaves paths with other colons alone', () => {
+      expect(parseDirectoryArgument('C:\\Users\\test').path).toBe('C:\\Users\\test');
+      expect(parseDirectoryArgument('/srv/a:b').path).toBe('/srv/a:b');
+    });
+  });
+
+  it('formats permissions', () => {
+    expect(formatPermissions(['read'])).toBe('read-only');
+    expect(formatPermissions(['write', 'read'])).toBe('read, write');
+  });
+
+  describe('assignRootPermissions', () => {
+    const configured = [
+      { path: '/srv/docs', permissions: ['read' as const] },
+      { path: '/srv/data', permissions: ['read' as const, 'write' as const, 'delete' as const] },
+    ];
+
+    it('inherits permissions from the containing configured directory', () => {
+      expect(assignRootPermissions(['/srv/docs/project', '/home/me'], configured)).toEqual([
+        { path: '/srv/docs/project', permissions: ['read'], source: 'roots' },
+        { path: '/home/me', permissions: ['read', 'write', 'delete'], source: 'roots' },
+      ]);
+    });
+
+    it('keeps restricted configured directories inside a root', () => {
+      expect(assignRootPermissions(['/srv'], configured)).toEqual([
+        { path: '/srv', permissions: ['read', 'write', 'delete'], source: 'roots' },
+        { path: '/srv/docs', permissions: ['read'] },
+      ]);
+    });
+  });
+
+  describe('mergeRootDirectories', () => {
+    const configured = [
+      { path: '/srv/docs', permissions: ['read' as const], source: 'cli' as const },
+      { path: '/srv/data', permissions: ['read' as const, 'write' as const, 'delete' as const], source: 'cli' as const },
+    ];
+    const roots = ['/srv/docs/project', '/home/me', '/srv/data'];
+
+    it('replaces the configured directories with the roots', () => {
+      expect(mergeRootDirectories(roots, configured, 'replace')).toEqual({
+        entries: [
+          { path: '/srv/docs/project', permissions: ['read'], source: 'roots' },
+          { path: '/home/me', permissions: ['read', 'write', 'delete'], source: 'roots' },
+          { path: '/srv/data', permissions: ['read', 'write', 'delete'], source: 'roots' },
+        ],
+        rejected: [],
+      });
+    });
+
+    it('adds the roots to the configured directories', () => {
+      expect(mergeRootDirectories(roots, configured, 'union').entries).toEqual([
+        ...configured,
+        { path: '/srv/docs/project', permissions: ['read'], source: 'roots' },
+        { path: '/home/me', permissions: ['read', 'write', 'delete'], source: 'roots' },
+      ]);
+    });
+
+    it('only accepts roots inside the configured directories', () => {
+      expect(mergeRootDirectories(roots, configured, 'intersect')).toEqual({
+        entries: [
+          { path: '/srv/docs/project', permissions: ['read'], source: 'roots' },
+          { path: '/srv/data', permissions: ['read', 'write', 'delete'], source: 'roots' },
+        ],
+        rejected: ['/home/me'],
+      });
+      expect(mergeRootDirectories(['/srv'], configured, 'intersect')).toEqual({ entries: [], rejected: ['/srv'] });
+    });
+  });
+
+  it('formats allowed directories with their source', () => {
+    expect(formatAllowedDirectory({ path: '/srv/docs', permissions: ['read'], source: 'cli' }))
+      .toBe('/srv/docs (read-only, from command line)');
+    expect(formatAllowedDirectory({ path: '/home/me', permissions: ['read', 'write'], source: 'roots' }))
+      .toBe('/home/me (read, write, from client roots)');
+    expect(formatAllowedDirectory({ path: '/tmp', permissions: ['read'] })).toBe('/tmp (read-only)');
+  });
+});
+
+describe('roots of concurrent sessions', () => {
+  let configuredDir: string;
+  let rootA: string;
+  let rootB: string;
+
+  beforeEach(() => {
+    configuredDir = realpathSync(mkdtempSync(join(tmpdir(), 'mcp-roots-configured-')));
+    rootA = join(configuredDir, 'a');
+    rootB = join(configuredDir, 'b');
+    mkdirSync(rootA);
+    mkdirSync(rootB);
+  });
+
+  afterEach(() => {
+    rmSync(configuredDir, { recursive: true, force: true });
+  });
+
+  it('applies each client\'s roots to its own policy only', async () => {
+    const configured: AllowedDirectory[] = [{ path: configuredDir, permissions: ['read'] }];
+    const sessions = [
+      { policy: createAccessPolicy(configured), roots: [{ uri: `file://${rootA}` }] },
+      { policy: createAccessPolicy(configured), roots: [{ uri: `file://${rootB}` }] },
+      { policy: createAccessPolicy(configured), roots: [] as Root[] },
+    ];
+
+    await Promise.all(sessions.map(async ({ policy, roots }) => {
+      const directories = await getValidRootDirectories(roots);
+      if (directories.length > 0) {
+        policy.set(assignRootPermissions(directories, configured));
+      }
+    }));
+
+    expect(sessions[0].policy.entries()).toEqual([{ path: rootA, permissions: ['read'], source: 'roots' }]);
+    expect(sessions[1].policy.entries()).toEqual([{ path: rootB, permissions: ['read'], source: 'roots' }]);
+    expect(sessions[2].policy.directories()).toEqual([configuredDir]);
+    expect(sessions[0].policy.permissionsAt(join(rootB, 'file.txt')).root).toBeNull();
+  });
+});
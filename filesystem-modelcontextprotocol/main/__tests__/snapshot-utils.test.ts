@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { openSnapshotStore, type SnapshotStore } from '../snapshot-utils.js';
+import { createAccessPolicy, type AccessPolicy } from '../path-validation.js';
+import { setBeforeFileChangeHook, writeFileContent, applyFileEdits, applyMultiFileEdits, deletePath, copyPath } from '../lib.js';
+
+describe('snapshot-utils', () => {
+  let testDir: string;
+  let storeDir: string;
+  let store: SnapshotStore;
+  let policy: AccessPolicy;
+
+  const useStore = async (options = {}) => {
+    store = await openSnapshotStore(storeDir, options);
+    setBeforeFileChangeHook(async filePath => {
+      await store.capture(filePath);
+    });
+  };
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'snapshot-test-')));
+    storeDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'snapshot-store-')));
+    policy = createAccessPolicy([testDir]);
+    await useStore();
+  });
+
+  afterEach(async () => {
+    setBeforeFileChangeHook(null);
+    await fs.rm(testDir, { recursive: true, force: true });
+    await fs.rm(storeDir, { recursive: true, force: true });
+  });
+
+  it('keeps the previous contents of files written and edited by tools', async () => {
+    const file = path.join(testDir, 'a.txt');
+    await writeFileContent(file, 'one\n');
+    await writeFileContent(file, 'two\n');
+    await applyFileEdits(file, [{ oldText: 'two', newText: 'three' }]);
+    await applyFileEdits(file, [{ oldText: 'three', newText: 'ignored' }], true);
+
+    const { snapshots } = await store.list();
+    expect(snapshots.map(snapshot => snapshot.hash === null ? null : snapshot.size)).toEqual([4, 4, null]);
+
+    const [restored] = await store.restoreSnapshot(snapshots[1].id, policy);
+    expect(restored).toMatchObject({ path: file, action: 'written' });
+    expect(await fs.readFile(file, 'utf-8')).toBe('one\n');
+    // The restore can itself be undone
+    expect((await store.list()).snapshots).toHaveLength(4);
+  });
+
+  it('returns every file to its state at a checkpoint', async () => {
+    const existing = path.join(testDir, 'existing.txt');
+    const created = path.join(testDir, 'created.txt');
+    await fs.writeFile(existing, 'original\n');
+    const checkpoint = await store.createCheckpoint('before refactor');
+
+    await applyFileEdits(existing, [{ oldText: 'original', newText: 'first' }]);
+    await applyMultiFileEdits([{ path: existing, edits: [{ oldText: 'first', newText: 'second' }] }]);
+    await writeFileContent(created, 'new file\n');
+
+    const preview = await store.restoreCheckpoint(checkpoint.id, policy, true);
+    expect(preview.map(file => [path.basename(file.path), file.action])).toEqual([
+      ['existing.txt', 'written'],
+      ['created.txt', 'deleted'],
+    ]);
+    expect(await fs.readFile(existing, 'utf-8')).toBe('second\n');
+
+    await store.restoreCheckpoint(checkpoint.id, policy);
+    expect(await fs.readFile(existing, 'utf-8')).toBe('original\n');
+    await expect(fs.access(created)).rejects.toThrow();
+    expect((await store.restoreCheckpoint(checkpoint.id, policy)).map(file => file.action)).toEqual(['unchanged', 'unchanged']);
+  });
+
+  it('drops the oldest snapshots and checkpoints that can no longer be restored', async () => {
+    await useStore({ maxSnapshots: 2 });
+    const file = path.join(testDir, 'a.txt');
+    await fs.writeFile(file, 'v1');
+    const early = await store.createCheckpoint();
+    await writeFileContent(file, 'v2');
+    const late = await store.createCheckpoint();
+    await writeFileContent(file, 'v3');
+    await writeFileContent(file, 'v4');
+
+    const { snapshots, checkpoints } = await store.list();
+    expect(snapshots).toHaveLength(2);
+    expect(checkpoints.map(checkpoint => checkpoint.id)).toEqual([late.id]);
+    expect(await fs.readdir(path.join(storeDir, 'objects'))).toHaveLength(2);
+    await expect(store.restoreCheckpoint(early.id, policy)).rejects.toThrow(`Checkpoint not found: ${early.id}`);
+
+    await store.restoreCheckpoint(late.id, policy);
+    expect(await fs.readFile(file, 'utf-8')).toBe('v2');
+  });
+
+  it('keeps checkpoints to the session that created them', async () => {
+    const file = path.join(testDir, 'shared.txt');
+    await fs.writeFile(file, 'original');
+    const mine = await store.createCheckpoint('mine', 'session-a');
+
+    expect((await store.list('session-a')).checkpoints.map(checkpoint => checkpoint.id)).toEqual([mine.id]);
+    expect((await store.list('session-b')).checkpoints).toEqual([]);
+    expect((await store.list()).checkpoints).toEqual([]);
+    await expect(store.restoreCheckpoint(mine.id, policy, false, 'session-b')).rejects.toThrow(`Checkpoint not found: ${mine.id}`);
+
+    // Changes any session made since the checkpoint are undone by its owner
+    await writeFileContent(file, 'changed by session b');
+    await store.restoreCheckpoint(mine.id, policy, false, 'session-a');
+    expect(await fs.readFile(file, 'utf-8')).toBe('original');
+  });
+
+  it('skips files larger than the store without reading them', async () => {
+    await useStore({ maxBytes: 4 });
+    const file = path.join(testDir, 'large.txt');
+    await fs.writeFile(file, 'too large');
+    expect(await store.capture(file)).toBeNull();
+    expect((await store.list()).snapshots).toEqual([]);
+  });
+
+  it('keeps its history across restarts and refuses paths outside the allowed directories', async () => {
+    const file = path.join(testDir, 'a.txt');
+    await writeFileContent(file, 'one');
+    await writeFileContent(file, 'two');
+    await useStore();
+
+    const [latest] = (await store.list()).snapshots;
+    await expect(store.restoreSnapshot(latest.id, createAccessPolicy([storeDir]))).rejects.toThrow('Access denied');
+    await store.restoreSnapshot(latest.id, policy);
+    expect(await fs.readFile(file, 'utf-8')).toBe('one');
+  });
+
+  it('keeps files deleted by tools so they can be restored', async () => {
+    const file = path.join(testDir, 'gone.txt');
+    await fs.writeFile(file, 'keep me');
+    await deletePath(file);
+
+    const [snapshot] = (await store.list()).snapshots;
+    expect(snapshot).toMatchObject({ path: file, size: 7 });
+    await store.restoreSnapshot(snapshot.id, policy);
+    expect(await fs.readFile(file, 'utf-8')).toBe('keep me');
+  });
+
+  it('restores every file of a deleted directory from a checkpoint', async () => {
+    const dir = path.join(testDir, 'dir');
+    await fs.mkdir(path.join(dir, 'nested'), { recursive: true });
+    await fs.writeFile(path.join(dir, 'a.txt'), 'a');
+    await fs.writeFile(path.join(dir, 'nested', 'b.txt'), 'b');
+    const checkpoint = await store.createCheckpoint();
+    await deletePath(dir, true);
+
+    const restored = await store.restoreCheckpoint(checkpoint.id, policy);
+    expect(restored.map(file => file.action)).toEqual(['written', 'written']);
+    expect(await fs.readFile(path.join(dir, 'a.txt'), 'utf-8')).toBe('a');
+    expect(await fs.readFile(path.join(dir, 'nested', 'b.txt'), 'utf-8')).toBe('b');
+  });
+
+  it('keeps files that a copy overwrites', async () => {
+    const source = path.join(testDir, 'source.txt');
+    const destination = path.join(testDir, 'destination.txt');
+    await fs.writeFile(source, 'new');
+    await fs.writeFile(destination, 'old');
+    await copyPath(source, destination, policy, 'overwrite');
+
+    const [snapshot] = (await store.list()).snapshots;
+    expect(snapshot.path).toBe(destination);
+    await store.restoreSnapshot(snapshot.id, policy);
+    expect(await fs.readFile(destination, 'utf-8')).toBe('old');
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  TRASH_DIR_NAME,
+  moveToTrash,
+  listTrash,
+  findTrashEntry,
+  restoreFromTrash,
+} from '../trash-utils.js';
+
+describe('trash utilities', () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'trash-test-')));
+    await fs.mkdir(path.join(rootDir, 'dir'));
+    await fs.writeFile(path.join(rootDir, 'dir', 'file.txt'), 'content');
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('moves entries into the trash and restores them', async () => {
+    const filePath = path.join(rootDir, 'dir', 'file.txt');
+    const entry = await moveToTrash(filePath, [rootDir]);
+
+    await expect(fs.stat(filePath)).rejects.toThrow();
+    expect(entry.originalPath).toBe(filePath);
+    expect(entry.trashRoot).toBe(path.join(rootDir, TRASH_DIR_NAME));
+
+    const listed = await listTrash([rootDir]);
+    expect(listed.map(e => e.id)).toEqual([entry.id]);
+
+    const found = await findTrashEntry(entry.id, [rootDir]);
+    await restoreFromTrash(found, filePath);
+
+    expect(await fs.readFile(filePath, 'utf-8')).toBe('content');
+    expect(await listTrash([rootDir])).toEqual([]);
+  });
+
+  it('trashes whole directories', async () => {
+    const entry = await moveToTrash(path.join(rootDir, 'dir'), [rootDir]);
+    expect(entry.isDirectory).toBe(true);
+
+    await restoreFromTrash(entry, path.join(rootDir, 'restored'));
+    expect(await fs.readFile(path.join(rootDir, 'restored', 'file.txt'), 'utf-8')).toBe('content');
+  });
+
+  it('refuses to restore over an existing path', async () => {
+    const filePath = path.join(rootDir, 'dir', 'file.txt');
+    const entry = await moveToTrash(filePath, [rootDir]);
+    await fs.writeFile(filePath, 'new file');
+
+    await expect(restoreFromTrash(entry, filePath)).rejects.toThrow('destination already exists');
+  });
+
+  it('refuses to trash entries that are already in the trash', async () => {
+    const entry = await moveToTrash(path.join(rootDir, 'dir', 'file.txt'), [rootDir]);
+    await expect(moveToTrash(path.join(entry.trashRoot, entry.id), [rootDir]))
+      .rejects.toThrow('already in the trash');
+  });
+
+  it('rejects unknown or malformed ids', async () => {
+    await expect(findTrashEntry('missing', [rootDir])).rejects.toThrow('Trash entry not found');
+    await expect(findTrashEntry('../dir', [rootDir])).rejects.toThrow('Invalid trash entry id');
+  });
+});
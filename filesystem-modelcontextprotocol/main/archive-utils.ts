@@ -0,0 +1,516 @@
+import fs from "fs/promises";
+import { createReadStream, createWriteStream } from 'fs';
+import path from "path";
+import { randomBytes } from 'crypto';
+import { pipeline } from 'stream/promises';
+import type { Readable } from 'stream';
+import * as tar from 'tar';
+import yauzl from 'yauzl';
+import yazl from 'yazl';
+import { isPathWithinAllowedDirectories, findAllowedRoot, type AllowedDirectory } from './path-validation.js';
+import { notifyBeforeFileRemoval, type OverwritePolicy } from './lib.js';
+
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz';
+
+export interface ArchiveEntry {
+  /** Path of the entry inside the archive, with forward slashes */
+  path: string;
+  type: 'file' | 'directory' | 'symlink' | 'hardlink' | 'other';
+  /** Uncompressed size in bytes */
+  size: number;
+  mtime?: Date;
+  /** Target of a symlink or hard link */
+  linkTarget?: string;
+  /** Permission bits stored in the archive, if any */
+  mode?: number;
+}
+
+export interface ExtractionLimits {
+  /** Largest total uncompressed size that will be extracted */
+  maxTotalBytes: number;
+  /** Largest number of entries that will be extracted */
+  maxEntries: number;
+}
+
+export const DEFAULT_EXTRACTION_LIMITS: ExtractionLimits = {
+  maxTotalBytes: 1024 * 1024 * 1024,
+  maxEntries: 10000,
+};
+
+export interface ExtractOptions {
+  format?: ArchiveFormat;
+  limits?: Partial<ExtractionLimits>;
+  overwrite?: OverwritePolicy;
+}
+
+export interface ExtractResult {
+  extracted: number;
+  skipped: number;
+  totalBytes: number;
+}
+
+export interface CreateOptions {
+  format?: ArchiveFormat;
+  /** Directory that entry paths are stored relative to. Defaults to the common parent of the sources */
+  baseDir?: string;
+  overwrite?: boolean;
+}
+
+// Longest symlink target read from a zip entry
+const MAX_LINK_TARGET_BYTES = 4096;
+
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+const S_IFDIR = 0o040000;
+
+/**
+ * Works out the archive format from a file name.
+ * @throws Error if the extension is not .zip, .tar, .tar.gz or .tgz
+ */
+export function detectArchiveFormat(archivePath: string): ArchiveFormat {
+  const name = archivePath.toLowerCase();
+  if (name.endsWith('.zip')) return 'zip';
+  if (name.endsWith('.tar.gz') || name.endsWith('.tgz')) return 'tar.gz';
+  if (name.endsWith('.tar')) return 'tar';
+  throw new Error(`Cannot tell the archive format of ${archivePath}. Use a .zip, .tar, .tar.gz or .tgz file name, or pass the format explicitly`);
+}
+
+function openZip(archivePath: string): Promise<yauzl.ZipFile> {
+  return new Promise((resolve, reject) => {
+    yauzl.open(archivePath, { lazyEntries: true, autoClose: false, validateEntrySizes: true }, (error, zipfile) => {
+      if (error) reject(new Error(`Failed to read zip archive ${archivePath}: ${error.message}`));
+      else resolve(zipfile);
+    });
+  });
+}
+
+function openZipEntryStream(zipfile: yauzl.ZipFile, entry: yauzl.Entry): Promise<Readable> {
+  return new Promise((resolve, reject) => {
+    zipfile.openReadStream(entry, (error, stream) => {
+      if (error) reject(error);
+      else resolve(stream);
+    });
+  });
+}
+
+// Calls the handler for each entry of a zip archive in turn, waiting for it to finish
+// before reading the next entry
+async function forEachZipEntry(
+  archivePath: string,
+  handler: (entry: yauzl.Entry, zipfile: yauzl.ZipFile) => Promise<void>
+): Promise<void> {
+  const zipfile = await openZip(archivePath);
+  try {
+    await new Promise<void>((resolve, reject) => {
+      zipfile.on('entry', (entry: yauzl.Entry) => {
+        handler(entry, zipfile).then(() => zipfile.readEntry(), reject);
+      });
+      zipfile.on('end', () => resolve());
+      zipfile.on('error', (error: Error) => reject(new Error(`Failed to read zip archive ${archivePath}: ${error.message}`)));
+      zipfile.readEntry();
+    });
+  } finally {
+    zipfile.close();
+  }
+}
+
+async function readZipLinkTarget(zipfile: yauzl.ZipFile, entry: yauzl.Entry): Promise<string> {
+  if (entry.uncompressedSize > MAX_LINK_TARGET_BYTES) {
+    throw new Error(`Symlink target of ${entry.fileName} is too long`);
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of await openZipEntryStream(zipfile, entry)) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+async function toZipArchiveEntry(entry: yauzl.Entry, zipfile: yauzl.ZipFile): Promise<ArchiveEntry> {
+  const mode = entry.externalFileAttributes >>> 16;
+  const base = { size: entry.uncompressedSize, mtime: entry.getLastModDate(), mode: mode & 0o7777 || undefined };
+  if (entry.fileName.endsWith('/') || (mode & S_IFMT) === S_IFDIR) {
+    return { ...base, path: entry.fileName, type: 'directory', size: 0 };
+  }
+  if ((mode & S_IFMT) === S_IFLNK) {
+    return { ...base, path: entry.fileName, type: 'symlink', size: 0, linkTarget: await readZipLinkTarget(zipfile, entry) };
+  }
+  return { ...base, path: entry.fileName, type: 'file' };
+}
+
+function toTarArchiveEntry(entry: tar.ReadEntry): ArchiveEntry {
+  const base = { path: entry.path, size: entry.size ?? 0, mtime: entry.mtime, mode: entry.mode };
+  switch (entry.type) {
+    case 'File':
+    case 'OldFile':
+    case 'ContiguousFile':
+      return { ...base, type: 'file' };
+    case 'Directory':
+      return { ...base, type: 'directory', size: 0 };
+    case 'SymbolicLink':
+      return { ...base, type: 'symlink', linkTarget: entry.linkpath };
+    case 'Link':
+      return { ...base, type: 'hardlink', size: 0, linkTarget: entry.linkpath };
+    default:
+      return { ...base, type: 'other' };
+  }
+}
+
+/**
+ * Lists the entries of an archive without extracting it. Reading stops as soon as
+ * the archive turns out to have more than maxEntries entries.
+ * @param archivePath - Validated path of the archive
+ * @param format - Archive format, detected from the file name when omitted
+ * @param maxEntries - Most entries to read
+ * @returns Entries in archive order
+ * @throws Error if the archive has more than maxEntries entries
+ */
+export async function listArchive(archivePath: string, format?: ArchiveFormat, maxEntries: number = Infinity): Promise<ArchiveEntry[]> {
+  const entries: ArchiveEntry[] = [];
+  const tooManyEntries = () => new Error(`Archive ${archivePath} has more than the limit of ${maxEntries} entries`);
+  if ((format ?? detectArchiveFormat(archivePath)) === 'zip') {
+    await forEachZipEntry(archivePath, async (entry, zipfile) => {
+      if (entries.length >= maxEntries) throw tooManyEntries();
+      entries.push(await toZipArchiveEntry(entry, zipfile));
+    });
+    return entries;
+  }
+
+  // Errors thrown from onReadEntry are not passed back by tar, so stop by closing the input
+  let overLimit = false;
+  const input = createReadStream(archivePath);
+  const parser = tar.list({
+    strict: true,
+    onReadEntry: (entry) => {
+      if (overLimit) return;
+      if (entries.length >= maxEntries) {
+        overLimit = true;
+        input.destroy();
+        return;
+      }
+      entries.push(toTarArchiveEntry(entry));
+    },
+  });
+  try {
+    await pipeline(input, parser);
+  } catch (error) {
+    if (overLimit) throw tooManyEntries();
+    throw error;
+  }
+  return entries;
+}
+
+interface PlannedEntry {
+  entry: ArchiveEntry;
+  target: string;
+  skip: boolean;
+}
+
+// Follows a link target one component at a time from the link's directory and returns
+// the first symlink from the archive that it would have to pass through, if any. Such a
+// target is only resolved correctly on disk, so it cannot be checked before extracting
+function findSymlinkOnLinkPath(linkDir: string, linkTarget: string, symlinks: Set<string>): string | undefined {
+  const parts = linkTarget.split(/[\\/]+/).filter(part => part !== '' && part !== '.');
+  let current = path.isAbsolute(linkTarget) ? path.parse(path.resolve(linkTarget)).root : linkDir;
+  for (let i = 0; i < parts.length - 1; i++) {
+    current = path.resolve(current, parts[i]);
+    if (symlinks.has(current)) {
+      return current;
+    }
+  }
+  return undefined;
+}
+
+function describeUnsafeEntry(entry: ArchiveEntry, reason: string): Error {
+  return new Error(`Refusing to extract archive: entry "${entry.path}" ${reason}. Nothing was extracted`);
+}
+
+// Checks every entry before anything is written, so that an archive with an unsafe
+// entry, or one over the limits, is rejected as a whole
+async function planExtraction(
+  entries: ArchiveEntry[],
+  destination: string,
+  allowedDirectories: AllowedDirectory[],
+  limits: ExtractionLimits,
+  overwrite: OverwritePolicy
+): Promise<PlannedEntry[]> {
+  const totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+  if (totalBytes > limits.maxTotalBytes) {
+    throw new Error(`Refusing to extract archive: it expands to ${totalBytes} bytes, more than the limit of ${limits.maxTotalBytes}`);
+  }
+
+  const allowedPaths = allowedDirectories.map(dir => dir.path);
+  const symlinks = new Set<string>();
+  for (const entry of entries) {
+    if (entry.type === 'symlink') {
+      symlinks.add(path.resolve(destination, entry.path));
+    }
+  }
+
+  // Whether the nearest existing ancestor of a target really is inside the destination,
+  // cached per directory
+  const realDirs = new Map<string, boolean>();
+  async function writesInsideDestination(target: string): Promise<boolean> {
+    for (let dir = path.dirname(target); dir !== destination; dir = path.dirname(dir)) {
+      let inside = realDirs.get(dir);
+      if (inside === undefined) {
+        try {
+          inside = isPathWithinAllowedDirectories(await fs.realpath(dir), [destination]);
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+          throw error;
+        }
+        realDirs.set(dir, inside);
+      }
+      return inside;
+    }
+    return true;
+  }
+
+  const plan: PlannedEntry[] = [];
+  for (const entry of entries) {
+    if (entry.type === 'hardlink' || entry.type === 'other') {
+      throw describeUnsafeEntry(entry, `is a ${entry.type === 'hardlink' ? 'hard link' : 'special file'}, which is not supported`);
+    }
+    if (path.isAbsolute(entry.path) || /^[a-zA-Z]:/.test(entry.path)) {
+      throw describeUnsafeEntry(entry, 'has an absolute path');
+    }
+    const target = path.resolve(destination, entry.path);
+    if (!isPathWithinAllowedDirectories(target, [destination])) {
+      throw describeUnsafeEntry(entry, `resolves outside ${destination}`);
+    }
+    if (target === destination) {
+      if (entry.type !== 'directory') {
+        throw describeUnsafeEntry(entry, `would replace ${destination}`);
+      }
+      continue;
+    }
+    for (let dir = path.dirname(target); dir !== destination; dir = path.dirname(dir)) {
+      if (symlinks.has(dir)) {
+        throw describeUnsafeEntry(entry, `is inside the symlink ${path.relative(destination, dir)} from the same archive`);
+      }
+    }
+    if (entry.type === 'symlink') {
+      const linkTarget = path.resolve(path.dirname(target), entry.linkTarget ?? '');
+      if (!isPathWithinAllowedDirectories(linkTarget, allowedPaths)) {
+        throw describeUnsafeEntry(entry, `is a symlink to ${entry.linkTarget}, which is outside the allowed directories`);
+      }
+      const through = findSymlinkOnLinkPath(path.dirname(target), entry.linkTarget ?? '', symlinks);
+      if (through) {
+        throw describeUnsafeEntry(entry, `is a symlink to ${entry.linkTarget}, which passes through the symlink ${path.relative(destination, through)} from the same archive`);
+      }
+    }
+    if (!await writesInsideDestination(target)) {
+      throw describeUnsafeEntry(entry, `would be written through a symlink that leads outside ${destination}`);
+    }
+    const root = findAllowedRoot(target, allowedPaths);
+    const permissions = allowedDirectories.find(dir => dir.path === root)?.permissions ?? [];
+    if (!permissions.includes('write')) {
+      throw describeUnsafeEntry(entry, `would be written to ${root ?? target}, where writing is not permitted`);
+    }
+
+    let skip = false;
+    try {
+      const stats = await fs.lstat(target);
+      if (!(stats.isDirectory() && entry.type === 'directory')) {
+        if (overwrite === 'fail') {
+          throw new Error(`Refusing to extract archive: ${target} already exists. Nothing was extracted`);
+        }
+        // A file cannot replace a directory or the other way round without deleting more than the entry
+        if (overwrite === 'overwrite' && (stats.isDirectory() || entry.type === 'directory')) {
+          throw new Error(`Refusing to extract archive: ${target} is ${stats.isDirectory() ? 'a directory' : 'not a directory'}, ` +
+            `but the archive has a ${entry.type} there. Nothing was extracted`);
+        }
+        skip = overwrite === 'skip';
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+    plan.push({ entry, target, skip });
+  }
+  return plan;
+}
+
+async function extractZipEntries(archivePath: string, plan: PlannedEntry[]): Promise<void> {
+  const planned = new Map(plan.map(item => [item.entry.path, item]));
+  await forEachZipEntry(archivePath, async (entry, zipfile) => {
+    const item = planned.get(entry.fileName);
+    if (!item || item.skip) return;
+    const { target } = item;
+
+    if (item.entry.type === 'directory') {
+      await fs.mkdir(target, { recursive: true });
+      return;
+    }
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    // Replace rather than write through whatever is there, which may be a symlink
+    await fs.rm(target, { force: true });
+    if (item.entry.type === 'symlink') {
+      await fs.symlink(item.entry.linkTarget!, target);
+      return;
+    }
+    // yauzl checks that the data matches the declared size, so the limits checked
+    // up front also bound what is written here
+    const stream = await openZipEntryStream(zipfile, entry);
+    await pipeline(stream, createWriteStream(target, { flags: 'wx', mode: (item.entry.mode ?? 0o644) & 0o777 }));
+    if (item.entry.mtime) {
+      await fs.utimes(target, item.entry.mtime, item.entry.mtime);
+    }
+  });
+}
+
+async function extractTarEntries(archivePath: string, destination: string, plan: PlannedEntry[]): Promise<void> {
+  const planned = new Map(plan.map(item => [path.resolve(destination, item.entry.path), item]));
+  await tar.extract({
+    file: archivePath,
+    cwd: destination,
+    strict: true,
+    preserveOwner: false,
+    filter: (entryPath, entry) => {
+      const item = planned.get(path.resolve(destination, entryPath));
+      const type = 'type' in entry ? entry.type : undefined;
+      return item !== undefined && !item.skip && type !== 'Link';
+    },
+  });
+}
+
+/**
+ * Extracts an archive into a directory after checking every entry.
+ *
+ * The whole archive is rejected, before anything is written, when it has more
+ * entries or more uncompressed bytes than the limits allow, when an entry would end
+ * up outside the destination (zip-slip), when a symlink points outside the allowed
+ * directories, when an entry would be written through a symlink, or when it
+ * contains hard links or special files.
+ *
+ * @param archivePath - Validated path of the archive
+ * @param destination - Validated destination directory, created if missing
+ * @param allowedDirectories - Allowed directories with their permissions
+ * @param options - Format, limits and what to do with existing files
+ * @returns Counts of extracted and skipped entries
+ */
+export async function extractArchive(
+  archivePath: string,
+  destination: string,
+  allowedDirectories: AllowedDirectory[],
+  options: ExtractOptions = {}
+): Promise<ExtractResult> {
+  const format = options.format ?? detectArchiveFormat(archivePath);
+  const limits = { ...DEFAULT_EXTRACTION_LIMITS, ...options.limits };
+  const entries = await listArchive(archivePath, format, limits.maxEntries);
+
+  await fs.mkdir(destination, { recursive: true });
+  const realDestination = await fs.realpath(destination);
+  const plan = await planExtraction(entries, realDestination, allowedDirectories, limits, options.overwrite ?? 'fail');
+  for (const item of plan) {
+    if (!item.skip && item.entry.type !== 'directory') {
+      await notifyBeforeFileRemoval(item.target);
+    }
+  }
+
+  if (format === 'zip') {
+    await extractZipEntries(archivePath, plan);
+  } else {
+    await extractTarEntries(archivePath, realDestination, plan);
+  }
+
+  const written = plan.filter(item => !item.skip);
+  return {
+    extracted: written.length,
+    skipped: plan.length - written.length,
+    totalBytes: written.reduce((sum, item) => sum + item.entry.size, 0),
+  };
+}
+
+function commonParent(paths: string[]): string {
+  let parent = path.dirname(paths[0]);
+  while (!paths.every(p => isPathWithinAllowedDirectories(p, [parent]))) {
+    parent = path.dirname(parent);
+  }
+  return parent;
+}
+
+function toArchivePath(baseDir: string, filePath: string): string {
+  return path.relative(baseDir, filePath).split(path.sep).join('/');
+}
+
+async function addToZip(zip: yazl.ZipFile, baseDir: string, entryPath: string, skip: string[]): Promise<void> {
+  if (skip.includes(entryPath)) return;
+  const stats = await fs.lstat(entryPath);
+  const name = toArchivePath(baseDir, entryPath);
+  if (stats.isSymbolicLink()) {
+    // Links are stored as links, so nothing outside the sources is read
+    zip.addBuffer(Buffer.from(await fs.readlink(entryPath)), name, { mtime: stats.mtime, mode: S_IFLNK | 0o777 });
+  } else if (stats.isDirectory()) {
+    zip.addEmptyDirectory(name, { mtime: stats.mtime, mode: stats.mode });
+    const children = await fs.readdir(entryPath);
+    for (const child of children.sort()) {
+      await addToZip(zip, baseDir, path.join(entryPath, child), skip);
+    }
+  } else if (stats.isFile()) {
+    zip.addFile(entryPath, name, { mtime: stats.mtime, mode: stats.mode });
+  }
+}
+
+/**
+ * Creates an archive from files and directories. Directories are added recursively
+ * and symlinks are stored as links, without following them. The archive is written
+ * to a temporary file first and renamed into place when complete.
+ *
+ * @param archivePath - Validated path of the archive to create
+ * @param sources - Validated paths of the files and directories to add
+ * @param options - Format, base directory and whether to replace an existing archive
+ * @returns Entries of the created archive
+ */
+export async function createArchive(
+  archivePath: string,
+  sources: string[],
+  options: CreateOptions = {}
+): Promise<ArchiveEntry[]> {
+  if (sources.length === 0) {
+    throw new Error('No sources given to add to the archive');
+  }
+  const format = options.format ?? detectArchiveFormat(archivePath);
+  const baseDir = options.baseDir ?? commonParent(sources);
+  for (const source of sources) {
+    if (source === baseDir || !isPathWithinAllowedDirectories(source, [baseDir])) {
+      throw new Error(`Source ${source} is not inside the base directory ${baseDir}`);
+    }
+  }
+  if (!options.overwrite) {
+    try {
+      await fs.lstat(archivePath);
+      throw new Error(`Archive already exists: ${archivePath}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+
+  const tempPath = `${archivePath}.${randomBytes(8).toString('hex')}.tmp`;
+  // The archive may be created inside one of its sources, and must not contain itself
+  const skip = [archivePath, tempPath];
+  try {
+    if (format === 'zip') {
+      const zip = new yazl.ZipFile();
+      const written = pipeline(zip.outputStream, createWriteStream(tempPath, { flags: 'wx' }));
+      for (const source of sources) {
+        await addToZip(zip, baseDir, source, skip);
+      }
+      zip.end();
+      await written;
+    } else {
+      await tar.create({
+        file: tempPath,
+        cwd: baseDir,
+        gzip: format === 'tar.gz',
+        portable: true,
+        filter: (entryPath) => !skip.includes(path.resolve(baseDir, entryPath)),
+      }, sources.map(source => toArchivePath(baseDir, source)));
+    }
+    await notifyBeforeFileRemoval(archivePath);
+    await fs.rename(tempPath, archivePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+  return listArchive(archivePath, format);
+}
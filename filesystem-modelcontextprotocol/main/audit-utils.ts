@@ -0,0 +1,219 @@
+import fs from "fs/promises";
+import { createReadStream } from "fs";
+import path from "path";
+import readline from "readline";
+import { hashContent } from './lib.js';
+import { hashFileContent } from './hash-utils.js';
+
+export interface PathState {
+  type: 'file' | 'directory' | 'other';
+  size: number;
+  /** Content hash, for files */
+  sha256?: string;
+}
+
+export interface AuditedPath {
+  path: string;
+  /** State before the call, or null if nothing existed at the path */
+  before: PathState | null;
+  after: PathState | null;
+  /**
+   * Bytes removed plus bytes added between the first and last difference of the file.
+   * Not set when the file was too large to compare before or after
+   */
+  bytesChanged?: number;
+}
+
+export interface AuditRecord {
+  /** ISO 8601 time at which the call finished */
+  timestamp: string;
+  tool: string;
+  paths: AuditedPath[];
+  /** Set when the call failed; the states show whatever it changed anyway */
+  error?: string;
+}
+
+export interface AuditQuery {
+  /** Only records that touched this path or something below it */
+  path?: string;
+  tool?: string;
+  since?: Date;
+  until?: Date;
+  /** Only records whose paths all lie within these directories */
+  within?: string[];
+  /** Most recent matching records to return */
+  limit?: number;
+}
+
+export interface AuditLog {
+  /**
+   * Runs a mutating operation and appends a record of its effect on the given
+   * resolved paths, whether it succeeds or fails.
+   */
+  track<T>(tool: string, paths: string[], operation: () => Promise<T>): Promise<T>;
+  /** Returns the most recent matching records, oldest first */
+  query(filter?: AuditQuery): Promise<AuditRecord[]>;
+}
+
+export const DEFAULT_AUDIT_QUERY_LIMIT = 50;
+
+/** Files larger than this are hashed as a stream and not compared to count changed bytes */
+export const MAX_COMPARED_BYTES = 10 * 1024 * 1024;
+
+export interface AuditLogOptions {
+  /** Largest file whose contents are compared to count the bytes a call changed */
+  maxComparedBytes?: number;
+}
+
+/** Every tool that changes files, and so is recorded in the audit log */
+export const AUDITED_TOOLS = [
+  'write_file',
+  'edit_file',
+  'edit_files',
+  'apply_patch',
+  'create_directory',
+  'move_file',
+  'copy_path',
+  'delete_path',
+  'restore_from_trash',
+  'archive_create',
+  'archive_extract',
+  'restore_snapshot',
+] as const;
+
+export type AuditedTool = typeof AUDITED_TOOLS[number];
+
+interface ObservedPath {
+  state: PathState | null;
+  /** Contents of a file small enough to compare */
+  content: Buffer | null;
+}
+
+// Snapshot of a path, with file contents kept to measure how much of them changed
+async function readState(filePath: string, maxComparedBytes: number): Promise<ObservedPath> {
+  let stats;
+  try {
+    stats = await fs.lstat(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { state: null, content: null };
+    }
+    throw error;
+  }
+  if (!stats.isFile()) {
+    return { state: { type: stats.isDirectory() ? 'directory' : 'other', size: stats.size }, content: null };
+  }
+  if (stats.size > maxComparedBytes) {
+    return { state: { type: 'file', size: stats.size, sha256: await hashFileContent(filePath) }, content: null };
+  }
+  const content = await fs.readFile(filePath);
+  return { state: { type: 'file', size: content.length, sha256: hashContent(content) }, content };
+}
+
+// Only files whose contents were kept, or that did not exist, can be compared
+function changedBytes(before: ObservedPath, after: ObservedPath): number | undefined {
+  const comparable = (side: ObservedPath) => side.state?.type !== 'file' || side.content !== null;
+  return comparable(before) && comparable(after) ? countChangedBytes(before.content, after.content) : undefined;
+}
+
+/**
+ * Measures how much of a file changed: the bytes removed plus the bytes added
+ * between the first and the last byte that differ. A missing file counts as empty.
+ */
+export function countChangedBytes(before: Buffer | null, after: Buffer | null): number {
+  const a = before ?? Buffer.alloc(0);
+  const b = after ?? Buffer.alloc(0);
+  const shorter = Math.min(a.length, b.length);
+  let prefix = 0;
+  while (prefix < shorter && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < shorter - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+  return (a.length - prefix - suffix) + (b.length - prefix - suffix);
+}
+
+function isWithin(candidate: string, dir: string): boolean {
+  return candidate === dir || candidate.startsWith(dir.endsWith(path.sep) ? dir : dir + path.sep);
+}
+
+function matches(record: AuditRecord, filter: AuditQuery): boolean {
+  if (filter.tool && record.tool !== filter.tool) return false;
+  if (filter.within && !record.paths.every(entry => filter.within!.some(dir => isWithin(entry.path, dir)))) return false;
+  const time = Date.parse(record.timestamp);
+  if (filter.since && time < filter.since.getTime()) return false;
+  if (filter.until && time > filter.until.getTime()) return false;
+  return !filter.path || record.paths.some(entry => isWithin(entry.path, filter.path!));
+}
+
+/**
+ * Opens an append-only JSONL audit log, creating the file if needed. Each record
+ * describes one tool call: which paths it touched, their hashes and sizes before and
+ * after, and how many bytes changed. Records are appended in the order calls finish.
+ *
+ * @param logPath - Absolute path of the log file. Its directory must exist
+ * @param options - How large a file may be to count its changed bytes
+ * @returns The log
+ * @throws If the file cannot be opened for appending
+ */
+export async function openAuditLog(
+  logPath: string,
+  { maxComparedBytes = MAX_COMPARED_BYTES }: AuditLogOptions = {}
+): Promise<AuditLog> {
+  await fs.appendFile(logPath, '');
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  function append(record: AuditRecord): Promise<void> {
+    pendingWrite = pendingWrite
+      .then(() => fs.appendFile(logPath, JSON.stringify(record) + '\n'))
+      .catch(error => {
+        console.error(`Failed to write audit log ${logPath}:`, error instanceof Error ? error.message : String(error));
+      });
+    return pendingWrite;
+  }
+
+  return {
+    async track(tool, paths, operation) {
+      const before = await Promise.all(paths.map(filePath => readState(filePath, maxComparedBytes)));
+      let error: string | undefined;
+      try {
+        return await operation();
+      } catch (caught) {
+        error = caught instanceof Error ? caught.message : String(caught);
+        throw caught;
+      } finally {
+        const after = await Promise.all(paths.map(filePath => readState(filePath, maxComparedBytes).catch(() => ({ state: null, content: null }))));
+        await append({
+          timestamp: new Date().toISOString(),
+          tool,
+          paths: paths.map((filePath, i) => ({
+            path: filePath,
+            before: before[i].state,
+            after: after[i].state,
+            bytesChanged: changedBytes(before[i], after[i]),
+          })),
+          ...(error !== undefined ? { error } : {}),
+        });
+      }
+    },
+
+    async query(filter = {}) {
+      await pendingWrite;
+      const limit = filter.limit ?? DEFAULT_AUDIT_QUERY_LIMIT;
+      const found: AuditRecord[] = [];
+      const lines = readline.createInterface({ input: createReadStream(logPath), crlfDelay: Infinity });
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+        let record: AuditRecord;
+        try {
+          record = JSON.parse(line);
+        } catch {
+          // A partial line from an interrupted write
+          continue;
+        }
+        if (!matches(record, filter)) continue;
+        found.push(record);
+        if (found.length > limit) found.shift();
+      }
+      return found;
+    },
+  };
+}
@@ -0,0 +1,200 @@
+import fs from "fs/promises";
+import path from "path";
+import { searchFilesWithValidation, readTextFileWithVersion, formatSize, type FileVersion } from './lib.js';
+import type { AccessPolicy } from './path-validation.js';
+
+export interface BatchReadBudget {
+  /** Most files to return */
+  maxFiles?: number;
+  /** Most bytes of content to return in total */
+  maxTotalBytes?: number;
+  /** Most bytes of content to return for any one file */
+  maxBytesPerFile?: number;
+  /** Files larger than this are skipped without being read */
+  maxFileSize?: number;
+}
+
+export interface BatchReadTarget {
+  /** Path as shown to the caller */
+  path: string;
+  validPath: string;
+  /** Whether the file was found by a glob pattern rather than named explicitly */
+  matched: boolean;
+}
+
+export interface TruncatedText {
+  text: string;
+  /** 1-based range of lines left out, inclusive */
+  omittedStartLine: number;
+  omittedEndLine: number;
+  omittedBytes: number;
+}
+
+export interface BatchReadFile {
+  path: string;
+  content?: string;
+  version?: FileVersion;
+  truncated?: TruncatedText;
+  error?: string;
+}
+
+export interface BatchReadResult {
+  files: BatchReadFile[];
+  skipped: { path: string; reason: string }[];
+  totalBytes: number;
+}
+
+// Smallest window worth returning for a file; with less budget left it is skipped
+const MIN_TRUNCATED_BYTES = 256;
+
+// Room kept for the line that marks where text was left out
+const OMISSION_MARKER_BYTES = 64;
+
+/**
+ * Finds the files matching glob patterns below a root, in a stable order: sorted by
+ * path relative to the root. Directories are not included.
+ *
+ * @param root - Validated directory the patterns are relative to
+ * @param patterns - Glob patterns such as "src/**\/*.ts"
+ * @param policy - Allowed directories of the session
+ * @param options - Patterns to exclude and whether to honour ignore files
+ */
+export async function findFilesByPatterns(
+  root: string,
+  patterns: string[],
+  policy: AccessPolicy,
+  options: { excludePatterns?: string[]; respectGitignore?: boolean } = {}
+): Promise<string[]> {
+  const found = new Set<string>();
+  for (const pattern of patterns) {
+    const { paths } = await searchFilesWithValidation(root, pattern, policy, options);
+    for (const match of paths) {
+      if ((await fs.stat(match)).isFile()) found.add(match);
+    }
+  }
+  return [...found].sort((a, b) => {
+    const relativeA = path.relative(root, a);
+    const relativeB = path.relative(root, b);
+    return relativeA < relativeB ? -1 : relativeA > relativeB ? 1 : 0;
+  });
+}
+
+/**
+ * Shortens text to at most maxBytes of UTF-8 by keeping whole lines from its start
+ * and end and leaving out the middle. A first line longer than the budget is cut.
+ * @returns The shortened text and what was left out, or null if the text fits
+ */
+export function truncateMiddle(content: string, maxBytes: number): TruncatedText | null {
+  const totalBytes = Buffer.byteLength(content);
+  if (totalBytes <= maxBytes) {
+    return null;
+  }
+  const lines = content.split('\n');
+  const lineBudget = Math.max(maxBytes - OMISSION_MARKER_BYTES, 0);
+  const half = Math.floor(lineBudget / 2);
+
+  let headCount = 0;
+  let headBytes = 0;
+  while (headCount < lines.length && headBytes + Buffer.byteLength(lines[headCount]) + 1 <= half) {
+    headBytes += Buffer.byteLength(lines[headCount]) + 1;
+    headCount++;
+  }
+  const head = lines.slice(0, headCount);
+  if (headCount === 0) {
+    // Not even the first line fits, so show the part of it that does
+    head.push(Buffer.from(lines[0]).subarray(0, half).toString());
+    headBytes = Buffer.byteLength(head[0]);
+  }
+
+  let tailCount = 0;
+  let tailBytes = 0;
+  while (tailCount < lines.length - Math.max(headCount, 1) - 1 &&
+    tailBytes + Buffer.byteLength(lines[lines.length - 1 - tailCount]) + 1 <= lineBudget - headBytes) {
+    tailBytes += Buffer.byteLength(lines[lines.length - 1 - tailCount]) + 1;
+    tailCount++;
+  }
+  const tail = lines.slice(lines.length - tailCount);
+  const omittedStartLine = headCount + 1;
+  const omittedEndLine = lines.length - tailCount;
+  const omittedBytes = totalBytes - headBytes - tailBytes;
+  const marker = `[... lines ${omittedStartLine}-${omittedEndLine} omitted (${formatSize(omittedBytes)}) ...]`;
+  return {
+    text: [...head, marker, ...tail].join('\n'),
+    omittedStartLine,
+    omittedEndLine,
+    omittedBytes,
+  };
+}
+
+/**
+ * Reads files in the given order within a budget. Files past maxFiles, or for which
+ * too little of maxTotalBytes is left, are skipped; files larger than the bytes
+ * available to them are truncated to a head and tail window. Binary files found by
+ * glob patterns are skipped, as are files over maxFileSize. A file that cannot be
+ * read is reported without stopping the others.
+ */
+export async function readFilesWithBudget(targets: BatchReadTarget[], budget: BatchReadBudget = {}): Promise<BatchReadResult> {
+  const { maxFiles = Infinity, maxTotalBytes = Infinity, maxBytesPerFile = Infinity, maxFileSize = Infinity } = budget;
+  const result: BatchReadResult = { files: [], skipped: [], totalBytes: 0 };
+  let returned = 0;
+
+  for (const target of targets) {
+    if (returned >= maxFiles) {
+      result.skipped.push({ path: target.path, reason: `maxFiles of ${maxFiles} reached` });
+      continue;
+    }
+    const available = Math.min(maxBytesPerFile, maxTotalBytes - result.totalBytes);
+    let content: string;
+    let version: FileVersion;
+    try {
+      const { size } = await fs.stat(target.validPath);
+      if (size > maxFileSize) {
+        result.skipped.push({ path: target.path, reason: `${formatSize(size)}, over the ${formatSize(maxFileSize)} read limit` });
+        continue;
+      }
+      ({ content, version } = await readTextFileWithVersion(target.validPath));
+    } catch (error) {
+      result.files.push({ path: target.path, error: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+    if (target.matched && content.includes('\u0000')) {
+      result.skipped.push({ path: target.path, reason: 'binary file' });
+      continue;
+    }
+
+    const size = Buffer.byteLength(content);
+    if (size > available && available < MIN_TRUNCATED_BYTES) {
+      result.skipped.push({ path: target.path, reason: `${formatSize(size)}, over the remaining maxTotalBytes budget` });
+      continue;
+    }
+    const truncated = truncateMiddle(content, available) ?? undefined;
+    result.files.push({ path: target.path, content: truncated?.text ?? content, version, truncated });
+    result.totalBytes += truncated ? Buffer.byteLength(truncated.text) : size;
+    returned++;
+  }
+  return result;
+}
+
+/**
+ * Lists the files that were truncated or skipped, so the caller can read them
+ * separately.
+ * @returns The report, or an empty string if every file was returned in full
+ */
+export function formatBatchReadReport(result: BatchReadResult): string {
+  const truncated = result.files.filter(file => file.truncated);
+  if (truncated.length === 0 && result.skipped.length === 0) {
+    return '';
+  }
+  const returned = result.files.filter(file => !file.error).length;
+  const lines = [`Returned ${returned} of ${returned + result.skipped.length} files (${formatSize(result.totalBytes)}).`];
+  if (truncated.length > 0) {
+    lines.push('Truncated (read the omitted lines with read_text_file startLine/endLine):');
+    lines.push(...truncated.map(file =>
+      `- ${file.path}: lines ${file.truncated!.omittedStartLine}-${file.truncated!.omittedEndLine} omitted`));
+  }
+  if (result.skipped.length > 0) {
+    lines.push('Skipped:');
+    lines.push(...result.skipped.map(file => `- ${file.path}: ${file.reason}`));
+  }
+  return lines.join('\n');
+}
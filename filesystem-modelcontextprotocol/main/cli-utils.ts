@@ -0,0 +1,118 @@
+import { ROOTS_POLICIES, type RootsPolicy } from './roots-utils.js';
+
+export interface ServerOptions {
+  /** Allowed directory arguments, possibly with permission suffixes */
+  directories: string[];
+  /** File that a JSONL record of every mutating tool call is appended to */
+  auditLog?: string;
+  /** Directory for snapshots of files before they are changed, kept across restarts */
+  snapshotDir?: string;
+  /** Port to serve Streamable HTTP on instead of stdio */
+  httpPort?: number;
+  /** Address to bind the HTTP server to */
+  httpHost?: string;
+  /** Seconds an HTTP session may go without requests before it is closed */
+  httpIdleTimeout?: number;
+  /** Most HTTP sessions open at once */
+  httpMaxSessions?: number;
+  /** How the client's roots are combined with the allowed directories */
+  rootsPolicy?: RootsPolicy;
+  /** Most bytes of file content a single call may return */
+  maxReadBytes?: number;
+  /** Most bytes of file content a session may read in total */
+  maxSessionBytes?: number;
+  /** Images with more pixels than this are downscaled */
+  maxImagePixels?: number;
+}
+
+function parsePort(value: string): number {
+  const port = Number(value);
+  if (!/^\d+$/.test(value) || port > 65535) {
+    throw new Error(`--http-port must be a port number, got ${value}`);
+  }
+  return port;
+}
+
+const SIZE_UNITS: Record<string, number> = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 };
+
+// Parses a byte count, optionally with a K, M or G suffix, e.g. 10M
+function parseByteSize(flag: string, value: string): number {
+  const match = value.match(/^(\d+)([kmg]?)b?$/i);
+  if (!match || Number(match[1]) === 0) {
+    throw new Error(`${flag} must be a size such as 1048576 or 10M, got ${value}`);
+  }
+  return Number(match[1]) * SIZE_UNITS[match[2].toLowerCase()];
+}
+
+function parseCount(flag: string, value: string): number {
+  if (!/^\d+$/.test(value) || Number(value) === 0) {
+    throw new Error(`${flag} must be a positive number, got ${value}`);
+  }
+  return Number(value);
+}
+
+function parseRootsPolicy(value: string): RootsPolicy {
+  const policy = ROOTS_POLICIES.find(name => name === value);
+  if (!policy) {
+    throw new Error(`--roots-policy must be one of ${ROOTS_POLICIES.join(', ')}, got ${value}`);
+  }
+  return policy;
+}
+
+// Options that take a value, mapped to how the value is stored in ServerOptions
+const VALUE_OPTIONS: Record<string, (options: ServerOptions, value: string) => void> = {
+  '--audit-log': (options, value) => { options.auditLog = value; },
+  '--snapshot-dir': (options, value) => { options.snapshotDir = value; },
+  '--http-port': (options, value) => { options.httpPort = parsePort(value); },
+  '--http-host': (options, value) => { options.httpHost = value; },
+  '--http-idle-timeout': (options, value) => { options.httpIdleTimeout = parseCount('--http-idle-timeout', value); },
+  '--http-max-sessions': (options, value) => { options.httpMaxSessions = parseCount('--http-max-sessions', value); },
+  '--roots-policy': (options, value) => { options.rootsPolicy = parseRootsPolicy(value); },
+  '--max-read-bytes': (options, value) => { options.maxReadBytes = parseByteSize('--max-read-bytes', value); },
+  '--max-session-bytes': (options, value) => { options.maxSessionBytes = parseByteSize('--max-session-bytes', value); },
+  '--max-image-pixels': (options, value) => { options.maxImagePixels = parseCount('--max-image-pixels', value); },
+};
+
+/**
+ * Parses the server's command line. Options start with -- and take their value either
+ * as the next argument or after =; every other argument is an allowed directory.
+ *
+ * @param argv - Arguments after the script name
+ * @returns Parsed options
+ * @throws If an option is unknown, lacks its value or has an invalid one
+ */
+export function parseCommandLine(argv: string[]): ServerOptions {
+  const options: ServerOptions = { directories: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      options.directories.push(arg);
+      continue;
+    }
+    const separator = arg.indexOf('=');
+    const flag = separator === -1 ? arg : arg.slice(0, separator);
+    const setOption = VALUE_OPTIONS[flag];
+    if (!setOption) {
+      throw new Error(`Unknown option: ${flag}`);
+    }
+    const value = separator === -1 ? argv[++i] : arg.slice(separator + 1);
+    if (!value) {
+      throw new Error(`${flag} requires a value`);
+    }
+    setOption(options, value);
+  }
+  if (options.httpPort === undefined) {
+    const httpOnly = ([
+      ['--http-host', options.httpHost],
+      ['--http-idle-timeout', options.httpIdleTimeout],
+      ['--http-max-sessions', options.httpMaxSessions],
+    ] as const).find(([, value]) => value !== undefined);
+    if (httpOnly) {
+      throw new Error(`${httpOnly[0]} requires --http-port`);
+    }
+  }
+  if (options.rootsPolicy === 'intersect' && options.directories.length === 0) {
+    throw new Error('--roots-policy intersect requires at least one allowed directory');
+  }
+  return options;
+}
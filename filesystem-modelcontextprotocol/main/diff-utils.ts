@@ -0,0 +1,333 @@
+import fs from "fs/promises";
+import path from "path";
+import { structuredPatch, formatPatch, type PatchOptions } from 'diff';
+import { decodeText, detectEncoding } from './encoding-utils.js';
+import { loadIgnoreRules, loadIgnoreRulesForRoot, isIgnored, type IgnoreRules } from './ignore-utils.js';
+import { isBinaryBuffer, normalizeLineEndings } from './lib.js';
+
+export type DiffFormat = 'unified' | 'side-by-side' | 'json';
+
+export interface DiffOptions {
+  /** Lines of unchanged context around each change */
+  context?: number;
+  /** Treat lines that differ only in whitespace as equal */
+  ignoreWhitespace?: boolean;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Lines prefixed with ' ', '-' or '+', as in a unified diff */
+  lines: string[];
+}
+
+export interface TextDiff {
+  oldLabel: string;
+  newLabel: string;
+  hunks: DiffHunk[];
+}
+
+export interface DirectoryDiff {
+  /** Paths relative to the compared directories. Directories end with a slash */
+  added: string[];
+  removed: string[];
+  changed: string[];
+  unchanged: number;
+}
+
+export interface DirectoryDiffOptions {
+  ignoreWhitespace?: boolean;
+  /** Files larger than this are compared byte for byte, even with ignoreWhitespace */
+  maxFileBytes?: number;
+  /** Skip entries excluded by .gitignore, .ignore and global git excludes */
+  respectGitignore?: boolean;
+}
+
+export const DEFAULT_DIFF_CONTEXT = 3;
+
+// Widest left column in side-by-side output; longer lines overflow instead of being cut
+const MAX_SIDE_BY_SIDE_WIDTH = 60;
+
+// Bytes read from each file at a time when comparing contents
+const COMPARE_CHUNK_SIZE = 64 * 1024;
+
+function stripWhitespace(text: string): string {
+  return text.replace(/\s+/g, '');
+}
+
+/**
+ * Reads a file for comparison.
+ * @returns The decoded text, or null if the file is binary
+ */
+export async function readComparableFile(filePath: string): Promise<string | null> {
+  const buffer = await fs.readFile(filePath);
+  if (!detectEncoding(buffer).encoding.startsWith('utf-16') && isBinaryBuffer(buffer)) {
+    return null;
+  }
+  return normalizeLineEndings(decodeText(buffer).content);
+}
+
+/**
+ * Checks whether two files have the same bytes, reading them in chunks so that
+ * large files are never held in memory.
+ */
+export async function fileContentsEqual(oldPath: string, newPath: string): Promise<boolean> {
+  const [oldHandle, newHandle] = await Promise.all([fs.open(oldPath, 'r'), fs.open(newPath, 'r')]);
+  try {
+    const [oldStats, newStats] = await Promise.all([oldHandle.stat(), newHandle.stat()]);
+    if (oldStats.size !== newStats.size) return false;
+    const oldChunk = Buffer.alloc(COMPARE_CHUNK_SIZE);
+    const newChunk = Buffer.alloc(COMPARE_CHUNK_SIZE);
+    for (let position = 0; ; position += COMPARE_CHUNK_SIZE) {
+      const [oldRead, newRead] = await Promise.all([
+        oldHandle.read(oldChunk, 0, COMPARE_CHUNK_SIZE, position),
+        newHandle.read(newChunk, 0, COMPARE_CHUNK_SIZE, position),
+      ]);
+      if (oldRead.bytesRead !== newRead.bytesRead) return false;
+      if (oldRead.bytesRead === 0) return true;
+      if (!oldChunk.subarray(0, oldRead.bytesRead).equals(newChunk.subarray(0, newRead.bytesRead))) return false;
+    }
+  } finally {
+    await Promise.all([oldHandle.close(), newHandle.close()]);
+  }
+}
+
+/**
+ * Compares two texts line by line.
+ * @param oldText - Original text
+ * @param newText - Text to compare against
+ * @param oldLabel - Name shown for the original, usually its path
+ * @param newLabel - Name shown for the other side
+ * @param options - Context size and whitespace handling
+ * @returns The hunks that differ, which is empty when the texts are equal
+ */
+export function diffTexts(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  options: DiffOptions = {}
+): TextDiff {
+  // The diff package supports a custom line comparator, but its typings do not declare it
+  const patchOptions: PatchOptions & { comparator?: (left: string, right: string) => boolean } = {
+    context: options.context ?? DEFAULT_DIFF_CONTEXT,
+  };
+  if (options.ignoreWhitespace) {
+    patchOptions.comparator = (left, right) => stripWhitespace(left) === stripWhitespace(right);
+  }
+  const patch = structuredPatch(
+    oldLabel,
+    newLabel,
+    normalizeLineEndings(oldText),
+    normalizeLineEndings(newText),
+    undefined,
+    undefined,
+    patchOptions
+  );
+  return {
+    oldLabel,
+    newLabel,
+    // structuredPatch starts an empty side one line after the position unified diffs
+    // use, so renumber to match the headers
+    hunks: patch.hunks.map(({ oldStart, oldLines, newStart, newLines, lines }) => ({
+      oldStart: oldLines === 0 ? oldStart - 1 : oldStart,
+      oldLines,
+      newStart: newLines === 0 ? newStart - 1 : newStart,
+      newLines,
+      lines,
+    })),
+  };
+}
+
+export function formatUnifiedDiff(diff: TextDiff): string {
+  // formatPatch expects structuredPatch numbering and adjusts empty sides itself
+  return formatPatch({
+    oldFileName: diff.oldLabel,
+    newFileName: diff.newLabel,
+    oldHeader: undefined,
+    newHeader: undefined,
+    hunks: diff.hunks.map(hunk => ({
+      ...hunk,
+      oldStart: hunk.oldLines === 0 ? hunk.oldStart + 1 : hunk.oldStart,
+      newStart: hunk.newLines === 0 ? hunk.newStart + 1 : hunk.newStart,
+      lines: [...hunk.lines],
+    })),
+  });
+}
+
+interface SideBySideRow {
+  oldNumber?: number;
+  oldText?: string;
+  newNumber?: number;
+  newText?: string;
+  marker: ' ' | '|' | '<' | '>';
+}
+
+// Pairs removed lines with the added lines that replace them, so a changed line
+// shows up as one row
+function toSideBySideRows(hunk: DiffHunk): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let oldNumber = hunk.oldStart;
+  let newNumber = hunk.newStart;
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      const row: SideBySideRow = { marker: i < removed.length && i < added.length ? '|' : i < removed.length ? '<' : '>' };
+      if (i < removed.length) {
+        row.oldNumber = oldNumber++;
+        row.oldText = removed[i];
+      }
+      if (i < added.length) {
+        row.newNumber = newNumber++;
+        row.newText = added[i];
+      }
+      rows.push(row);
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of hunk.lines) {
+    if (line.startsWith('-')) {
+      removed.push(line.slice(1));
+    } else if (line.startsWith('+')) {
+      added.push(line.slice(1));
+    } else if (line.startsWith(' ')) {
+      flush();
+      rows.push({ oldNumber: oldNumber++, oldText: line.slice(1), newNumber: newNumber++, newText: line.slice(1), marker: ' ' });
+    }
+  }
+  flush();
+  return rows;
+}
+
+/**
+ * Formats a diff as two columns, the original on the left. Changed lines are
+ * marked with '|', removed lines with '<' and added lines with '>'.
+ */
+export function formatSideBySideDiff(diff: TextDiff): string {
+  const output = [`--- ${diff.oldLabel}`, `+++ ${diff.newLabel}`];
+  for (const hunk of diff.hunks) {
+    const rows = toSideBySideRows(hunk);
+    const numberWidth = String(Math.max(hunk.oldStart + hunk.oldLines, hunk.newStart + hunk.newLines)).length;
+    const textWidth = Math.min(MAX_SIDE_BY_SIDE_WIDTH, Math.max(0, ...rows.map(row => row.oldText?.length ?? 0)));
+    const column = (lineNumber?: number, text?: string) => lineNumber === undefined
+      ? ' '.repeat(numberWidth + 1)
+      : `${String(lineNumber).padStart(numberWidth)} ${text}`;
+
+    output.push(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`);
+    for (const row of rows) {
+      const left = column(row.oldNumber, row.oldText).padEnd(numberWidth + 1 + textWidth);
+      output.push(`${left} ${row.marker} ${column(row.newNumber, row.newText)}`.trimEnd());
+    }
+  }
+  return output.join('\n');
+}
+
+type EntryKind = 'file' | 'directory' | 'symlink' | 'other';
+
+async function readDirectoryEntries(dir: string, rules: IgnoreRules | null): Promise<Map<string, EntryKind>> {
+  const entries = new Map<string, EntryKind>();
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    if (rules && isIgnored(path.join(dir, entry.name), entry.isDirectory(), rules)) continue;
+    entries.set(entry.name,
+      entry.isFile() ? 'file' : entry.isDirectory() ? 'directory' : entry.isSymbolicLink() ? 'symlink' : 'other');
+  }
+  return entries;
+}
+
+async function filesEqual(oldPath: string, newPath: string, ignoreWhitespace: boolean, maxFileBytes: number): Promise<boolean> {
+  if (await fileContentsEqual(oldPath, newPath)) return true;
+  if (!ignoreWhitespace) return false;
+  // Only files small enough to read whole are compared as text
+  const [oldStats, newStats] = await Promise.all([fs.stat(oldPath), fs.stat(newPath)]);
+  if (oldStats.size > maxFileBytes || newStats.size > maxFileBytes) return false;
+
+  const [oldText, newText] = await Promise.all([readComparableFile(oldPath), readComparableFile(newPath)]);
+  return oldText !== null && newText !== null && stripWhitespace(oldText) === stripWhitespace(newText);
+}
+
+/**
+ * Compares two directory trees. Symlinks are compared by their targets and never
+ * followed. A directory that exists on only one side is reported once, without
+ * listing its contents.
+ *
+ * @param oldDir - Validated original directory
+ * @param newDir - Validated directory to compare against
+ * @param allowedDirectories - Currently allowed directories, used to find ignore files
+ * @param options - Whitespace and ignore file handling
+ * @returns Added, removed and changed paths, sorted
+ */
+export async function diffDirectories(
+  oldDir: string,
+  newDir: string,
+  allowedDirectories: string[],
+  options: DirectoryDiffOptions = {}
+): Promise<DirectoryDiff> {
+  const { ignoreWhitespace = false, respectGitignore = true, maxFileBytes = Infinity } = options;
+  const result: DirectoryDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+
+  async function compare(relativePath: string, oldRules: IgnoreRules | null, newRules: IgnoreRules | null) {
+    const oldPath = path.join(oldDir, relativePath);
+    const newPath = path.join(newDir, relativePath);
+    const [oldEntries, newEntries] = await Promise.all([
+      readDirectoryEntries(oldPath, oldRules),
+      readDirectoryEntries(newPath, newRules),
+    ]);
+    const names = [...new Set([...oldEntries.keys(), ...newEntries.keys()])].sort();
+
+    for (const name of names) {
+      const oldKind = oldEntries.get(name);
+      const newKind = newEntries.get(name);
+      const childPath = relativePath ? `${relativePath}/${name}` : name;
+      const display = (kind: EntryKind) => kind === 'directory' ? `${childPath}/` : childPath;
+
+      if (!oldKind) {
+        result.added.push(display(newKind!));
+      } else if (!newKind) {
+        result.removed.push(display(oldKind));
+      } else if (oldKind !== newKind) {
+        result.changed.push(childPath);
+      } else if (oldKind === 'directory') {
+        await compare(
+          childPath,
+          oldRules && await loadIgnoreRules(path.join(oldPath, name), oldRules),
+          newRules && await loadIgnoreRules(path.join(newPath, name), newRules)
+        );
+      } else {
+        const equal = oldKind === 'symlink'
+          ? await fs.readlink(path.join(oldPath, name)) === await fs.readlink(path.join(newPath, name))
+          : oldKind !== 'file' || await filesEqual(path.join(oldPath, name), path.join(newPath, name), ignoreWhitespace, maxFileBytes);
+        if (equal) {
+          result.unchanged++;
+        } else {
+          result.changed.push(childPath);
+        }
+      }
+    }
+  }
+
+  await compare(
+    '',
+    respectGitignore ? await loadIgnoreRulesForRoot(oldDir, allowedDirectories) : null,
+    respectGitignore ? await loadIgnoreRulesForRoot(newDir, allowedDirectories) : null
+  );
+  return result;
+}
+
+export function formatDirectoryDiff(diff: DirectoryDiff, oldLabel: string, newLabel: string): string {
+  const lines = [
+    `--- ${oldLabel}`,
+    `+++ ${newLabel}`,
+    ...diff.added.map(entry => `A ${entry}`),
+    ...diff.removed.map(entry => `D ${entry}`),
+    ...diff.changed.map(entry => `M ${entry}`),
+    '',
+    `${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed, ${diff.unchanged} unchanged`,
+  ];
+  return lines.join('\n');
+}
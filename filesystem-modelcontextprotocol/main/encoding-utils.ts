@@ -0,0 +1,245 @@
+import fs from "fs/promises";
+import iconv from 'iconv-lite';
+
+export type LineEnding = 'lf' | 'crlf';
+
+export interface TextFormat {
+  encoding: string;
+  bom: boolean;
+  lineEnding: LineEnding;
+  /**
+   * Set when the encoding is only a guess from byte patterns: the text is not valid
+   * UTF-8 or UTF-16 and has no byte order mark
+   */
+  guessed?: boolean;
+}
+
+export const DEFAULT_TEXT_FORMAT: TextFormat = { encoding: 'utf-8', bom: false, lineEnding: 'lf' };
+
+// Number of leading bytes inspected when detecting the encoding of a file
+const ENCODING_SNIFF_BYTES = 64 * 1024;
+
+const BOMS: { bytes: number[]; encoding: string }[] = [
+  { bytes: [0xef, 0xbb, 0xbf], encoding: 'utf-8' },
+  { bytes: [0xff, 0xfe], encoding: 'utf-16le' },
+  { bytes: [0xfe, 0xff], encoding: 'utf-16be' },
+];
+
+function startsWithBytes(buffer: Buffer, bytes: number[]): boolean {
+  return buffer.length >= bytes.length && bytes.every((byte, i) => buffer[i] === byte);
+}
+
+function isValidUtf8(buffer: Buffer, truncated: boolean): boolean {
+  try {
+    // In stream mode an incomplete sequence at the end of a truncated sample is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer, { stream: truncated });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// UTF-16 without a BOM shows up as ASCII text with every other byte NUL
+function detectUtf16WithoutBom(buffer: Buffer): string | null {
+  const sampleLength = Math.min(buffer.length, 4096) & ~1;
+  if (sampleLength < 4) return null;
+
+  let evenNuls = 0;
+  let oddNuls = 0;
+  for (let i = 0; i < sampleLength; i += 2) {
+    if (buffer[i] === 0) evenNuls++;
+    if (buffer[i + 1] === 0) oddNuls++;
+  }
+  const pairs = sampleLength / 2;
+  if (oddNuls > pairs * 0.4 && evenNuls < pairs * 0.05) return 'utf-16le';
+  if (evenNuls > pairs * 0.4 && oddNuls < pairs * 0.05) return 'utf-16be';
+  return null;
+}
+
+function countMatches(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length ?? 0;
+}
+
+/**
+ * Detects the text encoding of a buffer.
+ *
+ * A byte order mark wins if present, and UTF-16 without one is recognised by its
+ * pattern of NUL bytes. Otherwise valid UTF-8 is assumed to be UTF-8. Anything else
+ * is a guess, marked as such: Shift-JIS and GBK are scored by how cleanly and
+ * plausibly they decode, with windows-1252, which never fails, as the fallback.
+ *
+ * @param buffer - File contents or a leading sample of them
+ * @param truncated - Whether the buffer is a sample cut off mid-file
+ * @returns Detected encoding name (as understood by iconv-lite), whether a BOM is
+ *   present, and whether the encoding is only a guess
+ */
+export function detectEncoding(buffer: Buffer, truncated: boolean = false): { encoding: string; bom: boolean; guessed: boolean } {
+  for (const { bytes, encoding } of BOMS) {
+    if (startsWithBytes(buffer, bytes)) {
+      return { encoding, bom: true, guessed: false };
+    }
+  }
+
+  const utf16 = detectUtf16WithoutBom(buffer);
+  if (utf16) {
+    return { encoding: utf16, bom: false, guessed: false };
+  }
+
+  if (isValidUtf8(buffer, truncated)) {
+    return { encoding: 'utf-8', bom: false, guessed: false };
+  }
+
+  // A truncated sample may end in the middle of a character
+  const allowedErrors = truncated ? 1 : 0;
+  const shiftJis = iconv.decode(buffer, 'shift_jis');
+  const gbk = iconv.decode(buffer, 'gbk');
+  const shiftJisValid = countMatches(shiftJis, /\uFFFD/g) <= allowedErrors;
+  const gbkValid = countMatches(gbk, /\uFFFD/g) <= allowedErrors;
+
+  // Full-width kana are a strong signal for Japanese text, while GBK bytes decoded as
+  // Shift-JIS tend to produce runs of half-width katakana
+  const kana = countMatches(shiftJis, /[\u3040-\u30FF]/g);
+  const halfWidthKana = countMatches(shiftJis, /[\uFF61-\uFF9F]/g);
+  if (shiftJisValid && kana > 0 && kana >= halfWidthKana) {
+    return { encoding: 'shift_jis', bom: false, guessed: true };
+  }
+  if (gbkValid) {
+    return { encoding: 'gbk', bom: false, guessed: true };
+  }
+  if (shiftJisValid) {
+    return { encoding: 'shift_jis', bom: false, guessed: true };
+  }
+  return { encoding: 'windows-1252', bom: false, guessed: true };
+}
+
+/**
+ * Detects the dominant line ending style of some text.
+ * @param text - Decoded text
+ * @returns 'crlf' if most line breaks are CRLF, otherwise 'lf'
+ */
+export function detectLineEnding(text: string): LineEnding {
+  const crlf = countMatches(text, /\r\n/g);
+  const lf = countMatches(text, /\n/g) - crlf;
+  return crlf > lf ? 'crlf' : 'lf';
+}
+
+/**
+ * Converts all line breaks in text to the given style.
+ * @param text - Text with any mix of line endings
+ * @param lineEnding - Target line ending style
+ * @returns Text using only the target line ending
+ */
+export function applyLineEnding(text: string, lineEnding: LineEnding): string {
+  const normalized = text.replace(/\r\n/g, '\n');
+  return lineEnding === 'crlf' ? normalized.replace(/\n/g, '\r\n') : normalized;
+}
+
+/**
+ * Describes a text format for tool output, e.g. "gbk, CRLF line endings".
+ * @param format - Format to describe
+ * @returns Human-readable summary
+ */
+export function describeTextFormat(format: TextFormat): string {
+  return [
+    format.guessed ? `${format.encoding} (guessed)` : format.encoding,
+    ...(format.bom ? ['with BOM'] : []),
+    `${format.lineEnding.toUpperCase()} line endings`,
+  ].join(', ');
+}
+
+export function isPlainUtf8(format: TextFormat): boolean {
+  return /^utf-?8$/i.test(format.encoding) && !format.bom;
+}
+
+export function isSupportedEncoding(encoding: string): boolean {
+  return iconv.encodingExists(encoding);
+}
+
+/**
+ * Refuses to write a file back in an encoding that was only guessed, since writing
+ * in the wrong one would silently corrupt it.
+ * @param filePath - File about to be rewritten, for the error message
+ * @param format - Format detected when the file was read
+ * @param hint - What the caller can do instead
+ * @throws Error if the encoding is a guess
+ */
+export function assertEncodingKnown(
+  filePath: string,
+  format: TextFormat,
+  hint: string = 'Pass encoding to say which encoding to read and write it in'
+): void {
+  if (format.guessed) {
+    throw new Error(
+      `The encoding of ${filePath} is unknown: it is not valid UTF-8 or UTF-16 and has no byte order mark. ` +
+      `It looks like ${format.encoding}. ${hint}`
+    );
+  }
+}
+
+/**
+ * Decodes raw bytes, detecting the encoding unless one is given.
+ * @param buffer - Raw file contents
+ * @param encoding - Encoding to use instead of detecting one
+ * @returns Decoded text (without BOM) and the format needed to write it back unchanged
+ */
+export function decodeText(buffer: Buffer, encoding?: string): { content: string; format: TextFormat } {
+  const detected = encoding
+    ? { encoding, bom: BOMS.some(b => b.encoding === encoding.toLowerCase() && startsWithBytes(buffer, b.bytes)), guessed: false }
+    : detectEncoding(buffer);
+  if (!isSupportedEncoding(detected.encoding)) {
+    throw new Error(`Unsupported encoding: ${detected.encoding}`);
+  }
+  const content = iconv.decode(buffer, detected.encoding);
+  return {
+    content,
+    format: { ...detected, lineEnding: detectLineEnding(content) },
+  };
+}
+
+/**
+ * Encodes text for writing in the given format. Plain UTF-8 is returned as a string
+ * so callers can hand it to fs unchanged; everything else becomes a Buffer.
+ * @throws Error if the text contains characters the encoding cannot represent
+ */
+export function encodeText(text: string, format: TextFormat): string | Buffer {
+  const withLineEndings = applyLineEnding(text, format.lineEnding);
+  if (isPlainUtf8(format)) {
+    return withLineEndings;
+  }
+  if (!isSupportedEncoding(format.encoding)) {
+    throw new Error(`Unsupported encoding: ${format.encoding}`);
+  }
+
+  const encoded = iconv.encode(withLineEndings, format.encoding, { addBOM: format.bom });
+  if (!/^utf-?(8|16)/i.test(format.encoding) && iconv.decode(encoded, format.encoding) !== withLineEndings) {
+    throw new Error(`Content contains characters that cannot be represented in ${format.encoding}`);
+  }
+  return encoded;
+}
+
+/**
+ * Detects the format of an existing file from a leading sample of its bytes.
+ * @param filePath - File to inspect
+ * @returns The file's format, or null if the file does not exist
+ */
+export async function detectFileFormat(filePath: string): Promise<TextFormat | null> {
+  let fileHandle;
+  try {
+    fileHandle = await fs.open(filePath, 'r');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+  try {
+    const sample = Buffer.alloc(ENCODING_SNIFF_BYTES);
+    const { bytesRead } = await fileHandle.read(sample, 0, sample.length, 0);
+    const stats = await fileHandle.stat();
+    const bytes = sample.subarray(0, bytesRead);
+    const { encoding, bom, guessed } = detectEncoding(bytes, bytesRead < stats.size);
+    return { encoding, bom, lineEnding: detectLineEnding(iconv.decode(bytes, encoding)), guessed };
+  } finally {
+    await fileHandle.close();
+  }
+}
@@ -0,0 +1,154 @@
+import fs from "fs/promises";
+import { detectEncoding, detectFileFormat, describeTextFormat } from './encoding-utils.js';
+import { getMimeType, sniffMimeType } from './mime-utils.js';
+import { formatSize, isBinaryBuffer, countFileLines } from './lib.js';
+
+export interface DetailedFileInfo {
+  size: number;
+  created: Date;
+  modified: Date;
+  accessed: Date;
+  isDirectory: boolean;
+  isFile: boolean;
+  isSymbolicLink: boolean;
+  permissions: string;
+  /** Where a symlink points, as stored in the link */
+  symlinkTarget?: string;
+  uid: number;
+  gid: number;
+  /** User and group names, when the system can map the ids to names */
+  owner?: string;
+  group?: string;
+  hardLinks: number;
+  /** Content details of regular files, or of the file a symlink points to */
+  mimeType?: string;
+  binary?: boolean;
+  encoding?: string;
+  lineCount?: number;
+}
+
+// Leading bytes read to decide whether a file is binary
+const BINARY_SAMPLE_BYTES = 8000;
+
+// User and group names by id, read once from /etc/passwd and /etc/group. Empty on
+// systems without them, such as Windows
+let accountNames: Promise<{ users: Map<number, string>; groups: Map<number, string> }> | undefined;
+
+async function readIdNames(file: string): Promise<Map<number, string>> {
+  const names = new Map<number, string>();
+  try {
+    for (const line of (await fs.readFile(file, 'utf-8')).split('\n')) {
+      const [name, , id] = line.split(':');
+      if (!name || name.startsWith('#') || id === undefined || !/^\d+$/.test(id)) continue;
+      if (!names.has(Number(id))) names.set(Number(id), name);
+    }
+  } catch {
+    // No account database to read names from
+  }
+  return names;
+}
+
+function getAccountNames() {
+  accountNames ??= Promise.all([readIdNames('/etc/passwd'), readIdNames('/etc/group')])
+    .then(([users, groups]) => ({ users, groups }));
+  return accountNames;
+}
+
+async function readSample(filePath: string, length: number): Promise<Buffer> {
+  const fileHandle = await fs.open(filePath, 'r');
+  try {
+    const sample = Buffer.alloc(length);
+    const { bytesRead } = await fileHandle.read(sample, 0, length, 0);
+    return sample.subarray(0, bytesRead);
+  } finally {
+    await fileHandle.close();
+  }
+}
+
+/**
+ * Collects metadata about a path without following it if it is a symlink. The link
+ * itself is described, with its target; content details such as MIME type and line
+ * count describe the file it points to. Text files are read once in full, in chunks,
+ * to count their lines.
+ *
+ * @param filePath - Validated path; a symlink here is reported rather than followed
+ * @param options - Set describeTarget to false for symlinks whose target was not validated,
+ *   and countLines to false to avoid reading large files in full
+ * @returns Metadata of the path
+ */
+export async function getDetailedFileInfo(
+  filePath: string,
+  options: { describeTarget?: boolean; countLines?: boolean } = {}
+): Promise<DetailedFileInfo> {
+  const stats = await fs.lstat(filePath);
+  const { users, groups } = await getAccountNames();
+  const info: DetailedFileInfo = {
+    size: stats.size,
+    created: stats.birthtime,
+    modified: stats.mtime,
+    accessed: stats.atime,
+    isDirectory: stats.isDirectory(),
+    isFile: stats.isFile(),
+    isSymbolicLink: stats.isSymbolicLink(),
+    permissions: stats.mode.toString(8).slice(-3),
+    uid: stats.uid,
+    gid: stats.gid,
+    owner: users.get(stats.uid),
+    group: groups.get(stats.gid),
+    hardLinks: stats.nlink,
+  };
+  if (stats.isSymbolicLink()) {
+    info.symlinkTarget = await fs.readlink(filePath);
+  }
+
+  if (stats.isSymbolicLink() && options.describeTarget === false) {
+    return info;
+  }
+  // A dangling symlink has no content to describe
+  const targetStats = stats.isSymbolicLink() ? await fs.stat(filePath).catch(() => null) : stats;
+  if (!targetStats?.isFile()) {
+    return info;
+  }
+
+  const sample = await readSample(filePath, BINARY_SAMPLE_BYTES);
+  // UTF-16 text is full of NUL bytes, so only apply the binary check to other encodings
+  const { encoding } = detectEncoding(sample, sample.length < targetStats.size);
+  info.binary = !encoding.startsWith('utf-16') && isBinaryBuffer(sample);
+  info.mimeType = sniffMimeType(sample) ?? getMimeType(filePath) ?? (info.binary ? 'application/octet-stream' : 'text/plain');
+  if (!info.binary) {
+    const format = await detectFileFormat(filePath);
+    if (format) {
+      info.encoding = describeTextFormat(format);
+      if (options.countLines !== false) {
+        info.lineCount = await countFileLines(filePath, format.encoding);
+      }
+    }
+  }
+  return info;
+}
+
+/**
+ * Formats metadata as "key: value" lines, leaving out fields that do not apply.
+ */
+export function formatDetailedFileInfo(info: DetailedFileInfo): string {
+  return Object.entries(info)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join('\n');
+}
+
+/**
+ * Summarizes metadata on one line for directory listings: permissions, owner, size,
+ * link target and content details, separated by two spaces.
+ */
+export function summarizeFileInfo(info: DetailedFileInfo): string {
+  const owner = `${info.owner ?? info.uid}:${info.group ?? info.gid}`;
+  const parts = [info.permissions, owner];
+  if (!info.isDirectory) parts.push(formatSize(info.size));
+  if (info.hardLinks > 1 && !info.isDirectory) parts.push(`${info.hardLinks} links`);
+  if (info.symlinkTarget !== undefined) parts.push(`-> ${info.symlinkTarget}`);
+  if (info.mimeType) parts.push(info.binary ? `${info.mimeType} (binary)` : info.mimeType);
+  if (info.encoding) parts.push(info.encoding);
+  if (info.lineCount !== undefined) parts.push(`${info.lineCount} lines`);
+  return parts.join('  ');
+}
@@ -0,0 +1,178 @@
+import fs from "fs/promises";
+import { createReadStream } from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { loadIgnoreRules, loadIgnoreRulesForRoot, isIgnored, type IgnoreRules } from './ignore-utils.js';
+import { validatePath } from './lib.js';
+import type { AccessPolicy } from './path-validation.js';
+
+export type HashAlgorithm = 'sha256' | 'sha1' | 'md5';
+
+export interface HashEntry {
+  /** Path relative to the hashed directory, or as requested for single files */
+  path: string;
+  hash: string;
+}
+
+export interface DirectoryHashes {
+  /** Files sorted by path, which always uses forward slashes */
+  entries: HashEntry[];
+  /** Symlinks and special files, which are not hashed or followed */
+  skipped: string[];
+}
+
+export interface DirectoryHashOptions {
+  /** Skip entries excluded by .gitignore, .ignore and global git excludes */
+  respectGitignore?: boolean;
+}
+
+export type VerifyStatus = 'ok' | 'changed' | 'missing' | 'error';
+
+export interface VerifyResult {
+  path: string;
+  status: VerifyStatus;
+  /** Hash found on disk, for changed files */
+  actual?: string;
+  /** Why the file could not be checked, for errors */
+  reason?: string;
+}
+
+// Hex digest length of each algorithm, used to tell them apart in manifests
+const DIGEST_LENGTHS: Record<number, HashAlgorithm> = { 64: 'sha256', 40: 'sha1', 32: 'md5' };
+
+/**
+ * Hashes a file without reading it into memory at once.
+ * @returns The hex digest
+ */
+export async function hashFileContent(filePath: string, algorithm: HashAlgorithm = 'sha256'): Promise<string> {
+  const hash = createHash(algorithm);
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Hashes every regular file under a directory. Symlinks are never followed, so the
+ * walk stays inside the directory; they are listed as skipped instead.
+ *
+ * @param dir - Validated directory to hash
+ * @param allowedDirectories - Currently allowed directories, used to find ignore files
+ * @param algorithm - Digest to compute
+ * @param options - Ignore file handling
+ */
+export async function hashDirectory(
+  dir: string,
+  allowedDirectories: string[],
+  algorithm: HashAlgorithm = 'sha256',
+  options: DirectoryHashOptions = {}
+): Promise<DirectoryHashes> {
+  const { respectGitignore = true } = options;
+  const result: DirectoryHashes = { entries: [], skipped: [] };
+
+  async function walk(relativePath: string, rules: IgnoreRules | null) {
+    const current = path.join(dir, relativePath);
+    const entries = (await fs.readdir(current, { withFileTypes: true }))
+      .sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+    for (const entry of entries) {
+      const entryPath = path.join(current, entry.name);
+      if (rules && isIgnored(entryPath, entry.isDirectory(), rules)) continue;
+      const childPath = relativePath ? `${relativePath}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        await walk(childPath, rules && await loadIgnoreRules(entryPath, rules));
+      } else if (entry.isFile()) {
+        result.entries.push({ path: childPath, hash: await hashFileContent(entryPath, algorithm) });
+      } else {
+        result.skipped.push(childPath);
+      }
+    }
+  }
+
+  await walk('', respectGitignore ? await loadIgnoreRulesForRoot(dir, allowedDirectories) : null);
+  return result;
+}
+
+/**
+ * Formats hashes in the `sha256sum` style, one `<hash>  <path>` line per file, so the
+ * output can be checked with those tools or passed back to verifyManifest.
+ */
+export function formatManifest(entries: HashEntry[]): string {
+  return entries.map(entry => `${entry.hash}  ${entry.path}`).join('\n');
+}
+
+/**
+ * Parses a manifest in the `sha256sum` style. Blank lines and lines starting with #
+ * are ignored, and a * before the path (binary mode) is accepted.
+ * @throws If a line is malformed or the manifest mixes algorithms
+ */
+export function parseManifest(manifest: string): { algorithm: HashAlgorithm; entries: HashEntry[] } {
+  const entries: HashEntry[] = [];
+  let algorithm: HashAlgorithm | undefined;
+  for (const [index, rawLine] of manifest.split(/\r?\n/).entries()) {
+    const line = rawLine.trim();
+    if (line === '' || line.startsWith('#')) continue;
+    const match = /^([0-9a-fA-F]+) [ *](.+)$/.exec(line);
+    const lineAlgorithm = match ? DIGEST_LENGTHS[match[1].length] : undefined;
+    if (!match || !lineAlgorithm) {
+      throw new Error(`Invalid manifest line ${index + 1}: expected "<hash>  <path>", got: ${rawLine}`);
+    }
+    if (algorithm && lineAlgorithm !== algorithm) {
+      throw new Error(`Manifest line ${index + 1} has a ${lineAlgorithm} hash, but earlier lines use ${algorithm}`);
+    }
+    algorithm = lineAlgorithm;
+    entries.push({ path: match[2], hash: match[1].toLowerCase() });
+  }
+  if (!algorithm) {
+    throw new Error('The manifest does not list any files');
+  }
+  return { algorithm, entries };
+}
+
+/**
+ * Checks files against a manifest. Each path is resolved against the base directory
+ * and checked with validatePath, so a manifest cannot reach outside the allowed
+ * directories. Files are checked one at a time and a failure of one does not stop
+ * the others.
+ *
+ * @param manifest - Manifest text, as produced by formatManifest or `sha256sum`
+ * @param baseDir - Validated directory that relative paths in the manifest refer to
+ * @param policy - Allowed directories of the session
+ * @returns The algorithm detected from the manifest and the outcome for each file, in manifest order
+ */
+export async function verifyManifest(
+  manifest: string,
+  baseDir: string,
+  policy: AccessPolicy
+): Promise<{ algorithm: HashAlgorithm; results: VerifyResult[] }> {
+  const { algorithm, entries } = parseManifest(manifest);
+  const results: VerifyResult[] = [];
+  for (const entry of entries) {
+    try {
+      const validPath = await validatePath(path.resolve(baseDir, entry.path), policy);
+      const actual = await hashFileContent(validPath, algorithm);
+      results.push(actual === entry.hash ? { path: entry.path, status: 'ok' } : { path: entry.path, status: 'changed', actual });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        results.push({ path: entry.path, status: 'missing' });
+      } else {
+        results.push({ path: entry.path, status: 'error', reason: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+  return { algorithm, results };
+}
+
+/**
+ * Formats verification results like `sha256sum --check`, with a summary line.
+ */
+export function formatVerifyReport(algorithm: HashAlgorithm, results: VerifyResult[]): string {
+  const labels: Record<VerifyStatus, string> = { ok: 'OK', changed: 'FAILED', missing: 'MISSING', error: 'ERROR' };
+  const lines = results.map(result => {
+    const detail = result.status === 'changed' ? ` (now ${result.actual})` : result.reason ? ` (${result.reason})` : '';
+    return `${result.path}: ${labels[result.status]}${detail}`;
+  });
+  const count = (status: VerifyStatus) => results.filter(result => result.status === status).length;
+  lines.push('', `${results.length} files checked with ${algorithm}: ${count('ok')} ok, ${count('changed')} changed, ` +
+    `${count('missing')} missing, ${count('error')} could not be checked`);
+  return lines.join('\n');
+}
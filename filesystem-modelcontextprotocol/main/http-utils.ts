@@ -0,0 +1,195 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { randomUUID, createHash, timingSafeEqual } from 'crypto';
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+
+/** Address the HTTP transport listens on unless another is given */
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+
+/** URL path of the MCP endpoint */
+export const MCP_ENDPOINT_PATH = '/mcp';
+
+/** Seconds a session may go without requests before it is closed */
+export const DEFAULT_SESSION_IDLE_TIMEOUT = 30 * 60;
+
+/** Most sessions open at once; further initialize requests are refused */
+export const DEFAULT_MAX_SESSIONS = 100;
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** Token clients must send as "Authorization: Bearer <token>". Without one, any client is accepted */
+  authToken?: string;
+  /** Seconds a session may go without requests before it is closed */
+  sessionIdleTimeout?: number;
+  maxSessions?: number;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  idleTimer?: NodeJS.Timeout;
+}
+
+export interface McpHttpServer {
+  /** Port the server listens on, useful when it was started on port 0 */
+  readonly port: number;
+  /** Number of sessions currently open */
+  sessionCount(): number;
+  /** Closes every session and stops listening */
+  close(): Promise<void>;
+}
+
+export function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || /^127\.\d+\.\d+\.\d+$/.test(host);
+}
+
+// Compares digests so that the comparison takes the same time whatever the token length
+function tokenMatches(header: string | undefined, authToken: string): boolean {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return false;
+  }
+  const digest = (token: string) => createHash('sha256').update(token).digest();
+  return timingSafeEqual(digest(match[1].trim()), digest(authToken));
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string, headers: http.OutgoingHttpHeaders = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+/**
+ * Serves MCP over Streamable HTTP at /mcp. Each client that sends an initialize
+ * request gets its own server instance from createSession and a session ID, which
+ * it sends with every later request. A session ends when the client sends DELETE,
+ * when it sends no request for the idle timeout, or when the server is closed;
+ * closing a session closes its server instance and so whatever that instance watches.
+ * At most maxSessions are open at once. When bound to a loopback address, requests
+ * with another Host header are refused to prevent DNS rebinding.
+ *
+ * @param createSession - Creates the server instance for a new session, with its own access policy
+ * @param options - Address to listen on, the token clients must present and the session limits
+ * @returns The running server
+ */
+export async function startHttpServer(
+  createSession: () => Server,
+  options: HttpServerOptions
+): Promise<McpHttpServer> {
+  const { sessionIdleTimeout = DEFAULT_SESSION_IDLE_TIMEOUT, maxSessions = DEFAULT_MAX_SESSIONS } = options;
+  const sessions = new Map<string, Session>();
+  // Sessions whose initialize request is still being handled count towards the limit too
+  let pendingSessions = 0;
+  let allowedHosts: string[] | undefined;
+
+  function closeSession(session: Session): Promise<void> {
+    clearTimeout(session.idleTimer);
+    return session.server.close();
+  }
+
+  // Restarts the session's idle timeout. An open event stream does not count as
+  // activity, so a client that only listens still has to send a request now and then
+  function touchSession(session: Session) {
+    clearTimeout(session.idleTimer);
+    session.idleTimer = setTimeout(() => {
+      closeSession(session).catch((error) => {
+        console.error('Error closing idle session:', error instanceof Error ? error.message : String(error));
+      });
+    }, sessionIdleTimeout * 1000);
+    session.idleTimer.unref();
+  }
+
+  async function handleMcpRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const existing = sessions.get(sessionId);
+      if (!existing) {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+      touchSession(existing);
+      await existing.transport.handleRequest(req, res);
+      return;
+    }
+    if (sessions.size + pendingSessions >= maxSessions) {
+      sendJsonRpcError(res, 503, `Too many sessions: at most ${maxSessions} may be open at once`);
+      return;
+    }
+
+    // Without a session ID only an initialize request is accepted; the transport
+    // answers anything else with an error and the unused session is dropped
+    const server = createSession();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, session);
+        touchSession(session);
+      },
+      allowedHosts,
+      enableDnsRebindingProtection: allowedHosts !== undefined,
+    });
+    const session: Session = { transport, server };
+    transport.onclose = () => {
+      clearTimeout(session.idleTimer);
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+    pendingSessions++;
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res);
+    } finally {
+      pendingSessions--;
+    }
+    if (!transport.sessionId) {
+      await server.close();
+    }
+  }
+
+  const httpServer = http.createServer((req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (pathname !== MCP_ENDPOINT_PATH) {
+      sendJsonRpcError(res, 404, 'Not found');
+      return;
+    }
+    if (options.authToken && !tokenMatches(req.headers.authorization, options.authToken)) {
+      sendJsonRpcError(res, 401, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' });
+      return;
+    }
+    handleMcpRequest(req, res).catch((error) => {
+      console.error('Error handling HTTP request:', error instanceof Error ? error.message : String(error));
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+  const { port } = httpServer.address() as AddressInfo;
+  if (isLoopbackHost(options.host)) {
+    const host = options.host.includes(':') ? `[${options.host}]` : options.host;
+    allowedHosts = [...new Set([`localhost:${port}`, `127.0.0.1:${port}`, `[::1]:${port}`, `${host}:${port}`])];
+  }
+
+  return {
+    port,
+    sessionCount: () => sessions.size,
+    async close() {
+      await Promise.all([...sessions.values()].map(closeSession));
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
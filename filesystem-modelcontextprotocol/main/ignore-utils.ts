@@ -0,0 +1,178 @@
+import fs from "fs/promises";
+import path from "path";
+import os from 'os';
+import ignore, { type Ignore } from 'ignore';
+import { isPathWithinAllowedDirectories } from './path-validation.js';
+
+/** Per-directory ignore files, in increasing order of precedence */
+export const IGNORE_FILES = ['.gitignore', '.ignore'];
+
+interface IgnoreLevel {
+  baseDir: string;
+  matcher: Ignore;
+}
+
+/**
+ * Ignore rules in effect for a directory: the global excludes followed by the rules
+ * of every ignore file from the top of the walk down to it, outermost first.
+ */
+export type IgnoreRules = readonly IgnoreLevel[];
+
+// Git never lists its own metadata directory, so neither do we
+const BUILT_IN_RULES: IgnoreLevel = { baseDir: '', matcher: ignore().add('.git/') };
+
+async function readIgnoreFile(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return null; // Missing or unreadable ignore files are skipped
+  }
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.lstat(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Git resolves ~ and its config files against $HOME
+function homeDirectory(): string {
+  return process.env.HOME || os.homedir();
+}
+
+function expandConfigPath(value: string): string {
+  return value.startsWith('~/') ? path.join(homeDirectory(), value.slice(2)) : value;
+}
+
+/**
+ * Finds the user's global git excludes file, following git's own lookup: the
+ * core.excludesFile setting if one is configured, otherwise $XDG_CONFIG_HOME/git/ignore
+ * (or ~/.config/git/ignore).
+ *
+ * @returns Path of the global excludes file; it may not exist
+ */
+export async function findGlobalExcludesFile(): Promise<string> {
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(homeDirectory(), '.config');
+  const configFiles = [path.join(configHome, 'git', 'config'), path.join(homeDirectory(), '.gitconfig')];
+
+  // Later config files override earlier ones, as in git
+  let excludesFile: string | null = null;
+  for (const configFile of configFiles) {
+    const content = await readIgnoreFile(configFile);
+    if (content === null) continue;
+
+    let inCore = false;
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      const section = line.match(/^\[\s*([^\]\s]+)[^\]]*\]/);
+      if (section) {
+        inCore = section[1].toLowerCase() === 'core';
+        continue;
+      }
+      const setting = line.match(/^excludesfile\s*=\s*(.*)$/i);
+      if (inCore && setting) {
+        excludesFile = expandConfigPath(setting[1].trim().replace(/^"(.*)"$/, '$1'));
+      }
+    }
+  }
+  return excludesFile ?? path.join(configHome, 'git', 'ignore');
+}
+
+/**
+ * Loads the ignore rules that apply inside a directory.
+ *
+ * Rules from the directory's own .gitignore and .ignore are added on top of the rules
+ * inherited from its parent, so patterns are matched relative to the directory that
+ * declared them.
+ *
+ * @param dir - Directory whose ignore files should be read
+ * @param parentRules - Rules in effect for the parent directory, if any
+ * @returns Rules in effect inside the directory
+ */
+export async function loadIgnoreRules(dir: string, parentRules?: IgnoreRules): Promise<IgnoreRules> {
+  const rules = [...(parentRules ?? [BUILT_IN_RULES])];
+  for (const fileName of IGNORE_FILES) {
+    const content = await readIgnoreFile(path.join(dir, fileName));
+    if (content !== null) {
+      rules.push({ baseDir: dir, matcher: ignore().add(content) });
+    }
+  }
+  return rules;
+}
+
+/**
+ * Loads the ignore rules in effect at the starting directory of a walk.
+ *
+ * Besides the directory's own ignore files this includes those of its ancestors up to
+ * the enclosing git repository root, the repository's .git/info/exclude and the global
+ * git excludes file. Ancestors outside the allowed directories are never read.
+ *
+ * @param rootDir - Validated directory the walk starts from
+ * @param allowedDirectories - Currently allowed directories, bounding the upward search
+ * @returns Rules in effect inside rootDir
+ */
+export async function loadIgnoreRulesForRoot(rootDir: string, allowedDirectories: string[]): Promise<IgnoreRules> {
+  const chain = [rootDir];
+  let repositoryRoot: string | null = null;
+  for (let current = rootDir; ;) {
+    if (await pathExists(path.join(current, '.git'))) {
+      repositoryRoot = current;
+      break;
+    }
+    const parent = path.dirname(current);
+    if (parent === current || !isPathWithinAllowedDirectories(parent, allowedDirectories)) {
+      break;
+    }
+    chain.unshift(parent);
+    current = parent;
+  }
+
+  // Global and repository excludes are matched relative to the top of the walk
+  let rules: IgnoreLevel[] = [BUILT_IN_RULES];
+  const baseDir = chain[0];
+  const excludeFiles = [await findGlobalExcludesFile()];
+  if (repositoryRoot) {
+    excludeFiles.push(path.join(repositoryRoot, '.git', 'info', 'exclude'));
+  }
+  for (const excludeFile of excludeFiles) {
+    const content = await readIgnoreFile(excludeFile);
+    if (content !== null) {
+      rules.push({ baseDir, matcher: ignore().add(content) });
+    }
+  }
+
+  for (const dir of chain) {
+    rules = [...await loadIgnoreRules(dir, rules)];
+  }
+  return rules;
+}
+
+/**
+ * Checks whether an entry is ignored. Later (deeper) rules override earlier ones,
+ * so a nested ignore file can re-include an entry with a negated pattern.
+ *
+ * @param entryPath - Absolute path of the entry
+ * @param isDirectory - Whether the entry is a directory, for patterns ending in a slash
+ * @param rules - Rules in effect for the entry's parent directory
+ * @returns true if the entry should be skipped
+ */
+export function isIgnored(entryPath: string, isDirectory: boolean, rules: IgnoreRules): boolean {
+  let ignored = false;
+  for (const { baseDir, matcher } of rules) {
+    const relative = baseDir ? path.relative(baseDir, entryPath) : path.basename(entryPath);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      continue;
+    }
+    const posixPath = relative.split(path.sep).join('/') + (isDirectory ? '/' : '');
+    const result = matcher.test(posixPath);
+    if (result.ignored) {
+      ignored = true;
+    } else if (result.unignored) {
+      ignored = false;
+    }
+  }
+  return ignored;
+}
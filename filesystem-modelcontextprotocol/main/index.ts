@@ -5,62 +5,126 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   ToolSchema,
   RootsListChangedNotificationSchema,
   type Root,
 } from "@modelcontextprotocol/sdk/types.js";
 import fs from "fs/promises";
-import { createReadStream } from "fs";
+import { createReadStream, rmSync } from "fs";
+import { randomUUID } from "crypto";
+import os from "os";
 import path from "path";
 import { z } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
-import { minimatch } from "minimatch";
 import { normalizePath, expandHome } from './path-utils.js';
-import { getValidRootDirectories } from './roots-utils.js';
+import { isPathWithinAllowedDirectories, createAccessPolicy, type AllowedDirectory, type AccessPolicy } from './path-validation.js';
+import { getValidRootDirectories, parseDirectoryArgument, formatAllowedDirectory, mergeRootDirectories } from './roots-utils.js';
+import { moveToTrash, listTrash, findTrashEntry, restoreFromTrash } from './trash-utils.js';
+import {
+  diffTexts,
+  diffDirectories,
+  readComparableFile,
+  fileContentsEqual,
+  formatUnifiedDiff,
+  formatSideBySideDiff,
+  formatDirectoryDiff,
+  DEFAULT_DIFF_CONTEXT,
+} from './diff-utils.js';
+import { applyUnifiedPatch, formatPatchReport } from './patch-utils.js';
+import { createArchive, listArchive, extractArchive, DEFAULT_EXTRACTION_LIMITS, type ArchiveEntry } from './archive-utils.js';
+import { hashFileContent, hashDirectory, formatManifest, verifyManifest, formatVerifyReport } from './hash-utils.js';
+import { detectMimeType } from './mime-utils.js';
+import { findFilesByPatterns, readFilesWithBudget, formatBatchReadReport, type BatchReadTarget } from './batch-read-utils.js';
+import { getDetailedFileInfo, formatDetailedFileInfo, summarizeFileInfo } from './file-info-utils.js';
+import { openAuditLog, DEFAULT_AUDIT_QUERY_LIMIT, AUDITED_TOOLS, type AuditLog, type AuditedTool } from './audit-utils.js';
+import { parseCommandLine, type ServerOptions } from './cli-utils.js';
+import { startHttpServer, isLoopbackHost, DEFAULT_HTTP_HOST, MCP_ENDPOINT_PATH } from './http-utils.js';
+import { openSnapshotStore, type SnapshotStore, type Snapshot, type RestoredFile } from './snapshot-utils.js';
+import { listFileResources, readFileResource, resourceUriToPath, pathToResourceUri } from './resource-utils.js';
+import { createResourceWatcher } from './watch-utils.js';
+import { createReadBudget, DEFAULT_READ_LIMITS, type ReadLimits } from './limit-utils.js';
+import { readImageSize, createThumbnail, extractPosterFrame, extractPdfText } from './media-utils.js';
+import { detectFileFormat, describeTextFormat, isPlainUtf8, assertEncodingKnown, type TextFormat } from './encoding-utils.js';
 import {
   // Function imports
   formatSize,
   validatePath,
-  getFileStats,
-  readFileContent,
+  validateEntryPath,
   writeFileContent,
   searchFilesWithValidation,
+  buildDirectoryTree,
+  formatDirectoryTree,
+  describeTreeTruncation,
+  grepFilesWithValidation,
   applyFileEdits,
+  applyMultiFileEdits,
   tailFile,
   headFile,
-  setAllowedDirectories,
+  countFileLines,
+  readFileLines,
+  readFileBytes,
+  copyPath,
+  deletePath,
+  setBeforeFileChangeHook,
+  notifyBeforeFileRemoval,
+  getFileVersion,
+  readTextFile,
+  readTextFileWithVersion,
+  type FileVersion,
 } from './lib.js';
 
 // Command line argument parsing
-const args = process.argv.slice(2);
+let serverOptions: ServerOptions;
+try {
+  serverOptions = parseCommandLine(process.argv.slice(2));
+} catch (error) {
+  console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
+const args = serverOptions.directories;
 if (args.length === 0) {
-  console.error("Usage: mcp-server-filesystem [allowed-directory] [additional-directories...]");
+  console.error("Usage: mcp-server-filesystem [--audit-log <file>] [--snapshot-dir <dir>] [--http-port <port> [--http-host <address>] [--http-idle-timeout <seconds>] [--http-max-sessions <count>]] [--roots-policy replace|union|intersect] [--max-read-bytes <size>] [--max-session-bytes <size>] [--max-image-pixels <count>] [allowed-directory] [additional-directories...]");
+  console.error("Append :ro to a directory to make it read-only, or :r, :rw, :rd or :rwd to choose");
+  console.error("its permissions (read, write, delete). Directories without a suffix get full access.");
   console.error("Note: Allowed directories can be provided via:");
   console.error("  1. Command-line arguments (shown above)");
   console.error("  2. MCP roots protocol (if client supports it)");
   console.error("At least one directory must be provided by EITHER method for the server to operate.");
 }
+const rootsPolicy = serverOptions.rootsPolicy ?? 'replace';
+const readLimits: ReadLimits = {
+  maxReadBytes: serverOptions.maxReadBytes ?? DEFAULT_READ_LIMITS.maxReadBytes,
+  maxSessionBytes: serverOptions.maxSessionBytes ?? DEFAULT_READ_LIMITS.maxSessionBytes,
+  maxImagePixels: serverOptions.maxImagePixels ?? DEFAULT_READ_LIMITS.maxImagePixels,
+};
 
-// Store allowed directories in normalized and resolved form
-let allowedDirectories = await Promise.all(
-  args.map(async (dir) => {
+// Store allowed directories in normalized and resolved form, along with their permissions
+const configuredDirectories: AllowedDirectory[] = await Promise.all(
+  args.map(async (arg) => {
+    const { path: dir, permissions } = parseDirectoryArgument(arg);
     const expanded = expandHome(dir);
     const absolute = path.resolve(expanded);
     try {
       // Security: Resolve symlinks in allowed directories during startup
       // This ensures we know the real paths and can validate against them later
       const resolved = await fs.realpath(absolute);
-      return normalizePath(resolved);
+      return { path: normalizePath(resolved), permissions, source: 'cli' as const };
     } catch (error) {
       // If we can't resolve (doesn't exist), use the normalized absolute path
       // This allows configuring allowed dirs that will be created later
-      return normalizePath(absolute);
+      return { path: normalizePath(absolute), permissions, source: 'cli' as const };
     }
   })
 );
+const configuredPaths = configuredDirectories.map(dir => dir.path);
 
 // Validate that all directories exist and are accessible
-await Promise.all(allowedDirectories.map(async (dir) => {
+await Promise.all(configuredPaths.map(async (dir) => {
   try {
     const stats = await fs.stat(dir);
     if (!stats.isDirectory()) {
@@ -73,41 +137,207 @@ await Promise.all(allowedDirectories.map(async (dir) => {
   }
 }));
 
-// Initialize the global allowedDirectories in lib.ts
-setAllowedDirectories(allowedDirectories);
+// Open the audit log, if one was requested, before accepting any calls
+let auditLog: AuditLog | undefined;
+if (serverOptions.auditLog) {
+  const auditLogPath = path.resolve(expandHome(serverOptions.auditLog));
+  try {
+    auditLog = await openAuditLog(auditLogPath);
+  } catch (error) {
+    console.error(`Error opening audit log ${auditLogPath}:`, error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+  if (isPathWithinAllowedDirectories(auditLogPath, configuredPaths)) {
+    console.error(`Warning: audit log ${auditLogPath} is inside an allowed directory, so tools can modify it`);
+  }
+}
+
+// Keep the previous contents of every file that tools write or delete, so changes can be
+// undone. Without --snapshot-dir the store is temporary and removed on exit
+let snapshotStore: SnapshotStore;
+try {
+  let snapshotDir: string;
+  if (serverOptions.snapshotDir) {
+    snapshotDir = path.resolve(expandHome(serverOptions.snapshotDir));
+  } else {
+    snapshotDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-filesystem-snapshots-'));
+    process.on('exit', () => rmSync(snapshotDir, { recursive: true, force: true }));
+  }
+  snapshotStore = await openSnapshotStore(snapshotDir);
+} catch (error) {
+  console.error("Error opening snapshot store:", error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
+if (isPathWithinAllowedDirectories(snapshotStore.dir, configuredPaths)) {
+  console.error(`Warning: snapshot store ${snapshotStore.dir} is inside an allowed directory, so tools can modify it`);
+}
+setBeforeFileChangeHook(async (filePath) => {
+  await snapshotStore.capture(filePath);
+});
+
+function formatSnapshot(snapshot: Snapshot): string {
+  const contents = snapshot.hash === null ? 'did not exist' : `${formatSize(snapshot.size)}, sha256 ${snapshot.hash.slice(0, 12)}`;
+  return `[SNAPSHOT] ${snapshot.id}  ${snapshot.createdAt}  ${snapshot.path} (${contents})`;
+}
+
+function formatRestoredFile(file: RestoredFile, dryRun: boolean): string {
+  switch (file.action) {
+    case 'written':
+      return `${dryRun ? 'Would restore' : 'Restored'} ${file.path} from snapshot ${file.snapshot.id}`;
+    case 'deleted':
+      return `${dryRun ? 'Would delete' : 'Deleted'} ${file.path}, which did not exist before`;
+    default:
+      return `${file.path} already matches snapshot ${file.snapshot.id}`;
+  }
+}
+
+// Runs a mutating operation, recording it in the audit log when one is configured
+function audited<T>(tool: AuditedTool, paths: string[], operation: () => Promise<T>): Promise<T> {
+  return auditLog ? auditLog.track(tool, paths, operation) : operation();
+}
+
+// Identifies the version of a file that was read or written, for expectedHash/expectedMtime
+function formatFileVersion(version: FileVersion): string {
+  return `Version: sha256 ${version.hash}, mtime ${version.mtime}`;
+}
+
+// Tells the caller how many entries ignore files hid and how to see them anyway
+function formatIgnoredEntriesNote(count: number): string {
+  return `${count} ${count === 1 ? 'entry was' : 'entries were'} skipped by .gitignore, .ignore or global git excludes. ` +
+    `Set respectGitignore to false to include them.`;
+}
+
+function formatArchiveEntry(entry: ArchiveEntry): string {
+  switch (entry.type) {
+    case 'directory':
+      return `[DIR]  ${entry.path}`;
+    case 'symlink':
+    case 'hardlink':
+      return `[LINK] ${entry.path} -> ${entry.linkTarget}`;
+    case 'file':
+      return `[FILE] ${entry.path} (${formatSize(entry.size)})`;
+    default:
+      return `[OTHER] ${entry.path}`;
+  }
+}
+
+// Validates a path for get_file_info. The resolved target must be allowed, but the
+// returned path keeps a final symlink so that the link itself can be described
+async function validateInfoPath(requestedPath: string, policy: AccessPolicy): Promise<string> {
+  const validPath = await validatePath(requestedPath, policy);
+  const absolute = path.resolve(expandHome(requestedPath));
+  const validParent = await validatePath(path.dirname(absolute), policy).catch(() => null);
+  return validParent ? path.join(validParent, path.basename(absolute)) : validPath;
+}
+
+function summarizeArchive(entries: ArchiveEntry[]): string {
+  const totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+  return `${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}, ${formatSize(totalBytes)} uncompressed`;
+}
 
 // Schema definitions
 const ReadTextFileArgsSchema = z.object({
   path: z.string(),
   tail: z.number().optional().describe('If provided, returns only the last N lines of the file'),
-  head: z.number().optional().describe('If provided, returns only the first N lines of the file')
+  head: z.number().optional().describe('If provided, returns only the first N lines of the file'),
+  startLine: z.number().int().positive().optional().describe('First line to return (1-based, inclusive)'),
+  endLine: z.number().int().positive().optional().describe('Last line to return (1-based, inclusive)'),
+  offset: z.number().int().min(0).optional().describe('Byte offset to start reading from'),
+  length: z.number().int().positive().optional().describe('Number of bytes to read from offset'),
+  lineNumbers: z.boolean().optional().default(false).describe('Prefix each returned line with its line number'),
+  encoding: z.string().optional().describe('Text encoding to use instead of auto-detection (e.g. gbk, shift_jis, utf-16le)')
 });
 
 const ReadMediaFileArgsSchema = z.object({
-  path: z.string()
+  path: z.string(),
+  pdfFormat: z.enum(['text', 'resource']).optional().default('text').describe('For PDFs: the extracted text of each page, or the file itself as an embedded resource'),
+  startPage: z.number().int().positive().optional().describe('For PDFs read as text: first page to return (1-based, inclusive)'),
+  endPage: z.number().int().positive().optional().describe('For PDFs read as text: last page to return (1-based, inclusive)'),
 });
 
 const ReadMultipleFilesArgsSchema = z.object({
   paths: z
     .array(z.string())
-    .min(1, "At least one file path must be provided")
+    .optional()
     .describe("Array of file paths to read. Each path must be a string pointing to a valid file within allowed directories."),
+  root: z.string().optional().describe('Directory that patterns are relative to'),
+  patterns: z.array(z.string()).optional().describe('Glob patterns of files to read below root, such as "src/**/*.ts"'),
+  excludePatterns: z.array(z.string()).optional().default([]),
+  respectGitignore: z.boolean().optional().default(true).describe('Skip files ignored by .gitignore, .ignore and global git excludes when matching patterns'),
+  maxFiles: z.number().int().positive().optional().describe('Most files to return. Later files are skipped'),
+  maxTotalBytes: z.number().int().positive().optional().describe('Most bytes of content to return in total. Files that do not fit are truncated or skipped'),
+  maxBytesPerFile: z.number().int().positive().optional().describe('Most bytes to return for any one file. Longer files keep their first and last lines'),
 });
 
+const ExpectedVersionSchema = {
+  expectedHash: z.string().optional().describe('SHA-256 hash returned when the file was read. The call fails if the file has changed since'),
+  expectedMtime: z.string().optional().describe('Modification time returned when the file was read. The call fails if the file has changed since'),
+};
+
 const WriteFileArgsSchema = z.object({
   path: z.string(),
   content: z.string(),
+  encoding: z.string().optional().describe('Text encoding to write. Defaults to the existing file\'s encoding, or UTF-8 for new files'),
+  lineEnding: z.enum(['lf', 'crlf']).optional().describe('Line ending style to write. Defaults to the existing file\'s style'),
+  ...ExpectedVersionSchema,
 });
 
 const EditOperation = z.object({
   oldText: z.string().describe('Text to search for - must match exactly'),
-  newText: z.string().describe('Text to replace with')
+  newText: z.string().describe('Text to replace with'),
+  occurrence: z.number().int().min(1).optional()
+    .describe('Which match to edit (1-based) when oldText appears more than once'),
+  replaceAll: z.boolean().optional().describe('Edit every match of oldText')
 });
 
+const FuzzyMatchThresholdSchema = z.number().min(0).max(1).optional()
+  .describe('Apply an edit whose oldText is not found exactly to the single region at least this similar to it (0 to 1, e.g. 0.9). Fails if several regions qualify');
+
+const EditEncodingSchema = z.string().optional()
+  .describe('Encoding to read and write the file in. Required for files that are not UTF-8 or UTF-16 and have no BOM, whose encoding can only be guessed');
+
 const EditFileArgsSchema = z.object({
   path: z.string(),
   edits: z.array(EditOperation),
-  dryRun: z.boolean().default(false).describe('Preview changes using git-style diff format')
+  encoding: EditEncodingSchema,
+  dryRun: z.boolean().default(false).describe('Preview changes using git-style diff format'),
+  fuzzyMatchThreshold: FuzzyMatchThresholdSchema,
+  ...ExpectedVersionSchema,
+});
+
+const EditFilesArgsSchema = z.object({
+  files: z
+    .array(z.object({
+      path: z.string(),
+      edits: z.array(EditOperation),
+      encoding: EditEncodingSchema,
+    }))
+    .min(1, "At least one file must be provided")
+    .describe('Files to edit, each with its own list of edit operations'),
+  dryRun: z.boolean().default(false).describe('Preview changes using git-style diff format'),
+  fuzzyMatchThreshold: FuzzyMatchThresholdSchema,
+});
+
+const ApplyPatchArgsSchema = z.object({
+  patch: z.string().describe('Unified diff to apply, such as the output of git diff. May change several files'),
+  baseDir: z.string().describe('Directory the file names in the patch are relative to, usually the repository root'),
+  fuzz: z.number().int().min(0).optional().default(0)
+    .describe('Number of context lines at the start and end of each hunk that may be ignored when they do not match'),
+  strip: z.number().int().min(0).optional()
+    .describe('Leading path components to remove from file names, like patch -p. Defaults to 1 for a/ and b/ prefixes, otherwise 0'),
+  dryRun: z.boolean().optional().default(false).describe('Check that the patch applies without changing any file'),
+});
+
+const DiffFilesArgsSchema = z.object({
+  path: z.string().describe('Original file or directory'),
+  comparePath: z.string().optional().describe('File or directory to compare against'),
+  content: z.string().optional().describe('Proposed content to compare the file against, instead of comparePath'),
+  format: z.enum(['unified', 'side-by-side', 'json']).optional().default('unified')
+    .describe("'unified' diff, 'side-by-side' columns, or 'json' hunks"),
+  context: z.number().int().min(0).optional().default(DEFAULT_DIFF_CONTEXT).describe('Lines of unchanged context around each change'),
+  ignoreWhitespace: z.boolean().optional().default(false).describe('Treat lines that differ only in whitespace as equal'),
+  respectGitignore: z.boolean().optional().default(true)
+    .describe('When comparing directories, skip entries ignored by .gitignore, .ignore and global git excludes'),
 });
 
 const CreateDirectoryArgsSchema = z.object({
@@ -121,11 +351,19 @@ const ListDirectoryArgsSchema = z.object({
 const ListDirectoryWithSizesArgsSchema = z.object({
   path: z.string(),
   sortBy: z.enum(['name', 'size']).optional().default('name').describe('Sort entries by name or size'),
+  detailed: z.boolean().optional().default(false)
+    .describe('Add permissions, owner, symlink target, MIME type and encoding to each entry, as in get_file_info'),
+  countLines: z.boolean().optional().default(false)
+    .describe('With detailed, also count the lines of each text file. This reads every file in the directory in full'),
 });
 
 const DirectoryTreeArgsSchema = z.object({
   path: z.string(),
-  excludePatterns: z.array(z.string()).optional().default([])
+  excludePatterns: z.array(z.string()).optional().default([]),
+  maxDepth: z.number().int().positive().optional().describe('Maximum depth to descend. 1 lists only the direct children of path'),
+  maxEntries: z.number().int().positive().optional().default(1000).describe('Maximum number of entries to return'),
+  respectGitignore: z.boolean().optional().default(true).describe('Skip entries ignored by .gitignore, .ignore and global git excludes'),
+  format: z.enum(['json', 'text']).optional().default('json').describe('Output as a JSON structure or as compact indented text'),
 });
 
 const MoveFileArgsSchema = z.object({
@@ -133,40 +371,131 @@ const MoveFileArgsSchema = z.object({
   destination: z.string(),
 });
 
+const CopyPathArgsSchema = z.object({
+  source: z.string(),
+  destination: z.string(),
+  overwrite: z.enum(['fail', 'overwrite', 'skip']).optional().default('fail')
+    .describe("What to do when the destination exists: 'fail' the copy, 'overwrite' existing files, or 'skip' them"),
+});
+
+const DeletePathArgsSchema = z.object({
+  path: z.string(),
+  confirm: z.boolean().optional().default(false).describe('Required to delete a non-empty directory and everything in it'),
+  trash: z.boolean().optional().default(false).describe('Move to the .mcp-trash folder of the allowed directory instead of deleting permanently'),
+});
+
+const ListTrashArgsSchema = z.object({
+  path: z.string().optional().describe('Only list the trash of the allowed directory containing this path'),
+});
+
+const RestoreFromTrashArgsSchema = z.object({
+  id: z.string().describe('Id of the trash entry, as shown by list_trash or delete_path'),
+  destination: z.string().optional().describe('Where to restore to. Defaults to the original location'),
+});
+
+const ArchiveFormatSchema = z.enum(['zip', 'tar', 'tar.gz']).optional()
+  .describe('Archive format. Detected from the file extension (.zip, .tar, .tar.gz, .tgz) when omitted');
+
+const ArchiveCreateArgsSchema = z.object({
+  path: z.string().describe('Path of the archive to create'),
+  sources: z.array(z.string()).min(1).describe('Files and directories to add. Directories are added recursively'),
+  format: ArchiveFormatSchema,
+  baseDir: z.string().optional().describe('Directory that entry paths are stored relative to. Defaults to the common parent of the sources'),
+  overwrite: z.boolean().optional().default(false).describe('Replace the archive if it already exists'),
+});
+
+const ArchiveListArgsSchema = z.object({
+  path: z.string(),
+  format: ArchiveFormatSchema,
+});
+
+const ArchiveExtractArgsSchema = z.object({
+  path: z.string(),
+  destination: z.string().describe('Directory to extract into. Created if it does not exist'),
+  format: ArchiveFormatSchema,
+  overwrite: z.enum(['fail', 'overwrite', 'skip']).optional().default('fail')
+    .describe("What to do when an entry exists: 'fail' the extraction, 'overwrite' it, or 'skip' it"),
+  maxTotalBytes: z.number().int().positive().optional().default(DEFAULT_EXTRACTION_LIMITS.maxTotalBytes)
+    .describe('Refuse archives that expand to more than this many bytes'),
+  maxEntries: z.number().int().positive().optional().default(DEFAULT_EXTRACTION_LIMITS.maxEntries)
+    .describe('Refuse archives with more entries than this'),
+});
+
 const SearchFilesArgsSchema = z.object({
   path: z.string(),
   pattern: z.string(),
-  excludePatterns: z.array(z.string()).optional().default([])
+  excludePatterns: z.array(z.string()).optional().default([]),
+  respectGitignore: z.boolean().optional().default(true).describe('Skip entries ignored by .gitignore, .ignore and global git excludes'),
 });
 
-const GetFileInfoArgsSchema = z.object({
+const GrepFilesArgsSchema = z.object({
   path: z.string(),
+  pattern: z.string().describe('Regular expression to search for, or a plain string when literal is true'),
+  literal: z.boolean().optional().default(false).describe('Treat the pattern as a literal string instead of a regular expression'),
+  caseInsensitive: z.boolean().optional().default(false).describe('Match without regard to letter case'),
+  includePatterns: z.array(z.string()).optional().default([]).describe('Only search files matching these glob patterns'),
+  excludePatterns: z.array(z.string()).optional().default([]).describe('Skip files and directories matching these glob patterns'),
+  contextBefore: z.number().int().min(0).optional().default(0).describe('Number of lines to show before each match'),
+  contextAfter: z.number().int().min(0).optional().default(0).describe('Number of lines to show after each match'),
+  maxMatchesPerFile: z.number().int().positive().optional().describe('Stop searching a file after this many matches'),
+  maxResults: z.number().int().positive().optional().default(200).describe('Maximum number of matches to return in total'),
+});
+
+const GetFileInfoArgsSchema = z.object({
+  path: z.string().optional(),
+  paths: z.array(z.string()).optional().describe('Several paths to describe in one call, instead of path'),
+});
+
+const HashFilesArgsSchema = z.object({
+  paths: z.array(z.string()).optional().describe('Files to hash, or directories to hash recursively into a manifest'),
+  algorithm: z.enum(['sha256', 'sha1', 'md5']).optional().default('sha256'),
+  respectGitignore: z.boolean().optional().default(true)
+    .describe('When hashing directories, skip entries ignored by .gitignore, .ignore and global git excludes'),
+  verify: z.string().optional()
+    .describe('Manifest of "<hash>  <path>" lines to check instead of hashing paths. The algorithm is detected from the hashes'),
+  baseDir: z.string().optional().describe('Directory that relative paths in the verify manifest refer to. Required with verify'),
+});
+
+const GetAuditLogArgsSchema = z.object({
+  path: z.string().optional().describe('Only entries that touched this path or anything below it'),
+  tool: z.enum(AUDITED_TOOLS).optional(),
+  since: z.string().optional().describe('Only entries at or after this time, e.g. 2025-01-31T12:00:00Z'),
+  until: z.string().optional().describe('Only entries at or before this time'),
+  limit: z.number().int().positive().optional().default(DEFAULT_AUDIT_QUERY_LIMIT).describe('Most recent matching entries to return'),
+});
+
+const CreateCheckpointArgsSchema = z.object({
+  name: z.string().optional().describe('Description of the safe point, e.g. "before renaming the API"'),
+});
+
+const ListSnapshotsArgsSchema = z.object({
+  path: z.string().optional().describe('Only snapshots of this file or of files below this directory'),
+  limit: z.number().int().positive().optional().default(50).describe('Most recent snapshots to list'),
+});
+
+const RestoreSnapshotArgsSchema = z.object({
+  id: z.string().optional().describe('Snapshot to restore: puts back the contents the file had before that change'),
+  checkpoint: z.string().optional().describe('Checkpoint to return to: restores every file changed since it'),
+  dryRun: z.boolean().optional().default(false).describe('List what would be restored without changing files'),
 });
 
 const ToolInputSchema = ToolSchema.shape.inputSchema;
 type ToolInput = z.infer<typeof ToolInputSchema>;
 
-// Server setup
-const server = new Server(
-  {
-    name: "secure-filesystem-server",
-    version: "0.2.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  },
-);
-
 // Reads a file as a stream of buffers, concatenates them, and then encodes
-// the result to a Base64 string. This is a memory-efficient way to handle
-// binary data from a stream before the final encoding.
-async function readFileAsBase64Stream(filePath: string): Promise<string> {
+// the result to a Base64 string. Fails rather than buffering more than maxBytes,
+// in case the file grew after its size was checked.
+async function readFileAsBase64Stream(filePath: string, maxBytes: number): Promise<string> {
   return new Promise((resolve, reject) => {
     const stream = createReadStream(filePath);
     const chunks: Buffer[] = [];
+    let bytesRead = 0;
     stream.on('data', (chunk) => {
+      bytesRead += chunk.length;
+      if (bytesRead > maxBytes) {
+        stream.destroy(new Error(`File grew past the ${formatSize(maxBytes)} read limit while it was read`));
+        return;
+      }
       chunks.push(chunk as Buffer);
     });
     stream.on('end', () => {
@@ -177,526 +506,1571 @@ async function readFileAsBase64Stream(filePath: string): Promise<string> {
   });
 }
 
-// Tool handlers
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: "read_file",
-        description: "Read the complete contents of a file as text. DEPRECATED: Use read_text_file instead.",
-        inputSchema: zodToJsonSchema(ReadTextFileArgsSchema) as ToolInput,
-      },
-      {
-        name: "read_text_file",
-        description:
-          "Read the complete contents of a file from the file system as text. " +
-          "Handles various text encodings and provides detailed error messages " +
-          "if the file cannot be read. Use this tool when you need to examine " +
-          "the contents of a single file. Use the 'head' parameter to read only " +
-          "the first N lines of a file, or the 'tail' parameter to read only " +
-          "the last N lines of a file. Operates on the file as text regardless of extension. " +
-          "Only works within allowed directories.",
-        inputSchema: zodToJsonSchema(ReadTextFileArgsSchema) as ToolInput,
-      },
-      {
-        name: "read_media_file",
-        description:
-          "Read an image or audio file. Returns the base64 encoded data and MIME type. " +
-          "Only works within allowed directories.",
-        inputSchema: zodToJsonSchema(ReadMediaFileArgsSchema) as ToolInput,
-      },
-      {
-        name: "read_multiple_files",
-        description:
-          "Read the contents of multiple files simultaneously. This is more " +
-          "efficient than reading files one by one when you need to analyze " +
-          "or compare multiple files. Each file's content is returned with its " +
-          "path as a reference. Failed reads for individual files won't stop " +
-          "the entire operation. Only works within allowed directories.",
-        inputSchema: zodToJsonSchema(ReadMultipleFilesArgsSchema) as ToolInput,
-      },
-      {
-        name: "write_file",
-        description:
-          "Create a new file or completely overwrite an existing file with new content. " +
-          "Use with caution as it will overwrite existing files without warning. " +
-          "Handles text content with proper encoding. Only works within allowed directories.",
-        inputSchema: zodToJsonSchema(WriteFileArgsSchema) as ToolInput,
-      },
-      {
-        name: "edit_file",
-        description:
-          "Make line-based edits to a text file. Each edit replaces exact line sequences " +
-          "with new content. Returns a git-style diff showing the changes made. " +
-          "Only works within allowed directories.",
-        inputSchema: zodToJsonSchema(EditFileArgsSchema) as ToolInput,
-      },
-      {
-        name: "create_directory",
-        description:
-          "Create a new directory or ensure a directory exists. Can create multiple " +
-          "nested directories in one operation. If the directory already exists, " +
-          "this operation will succeed silently. Perfect for setting up directory " +
-          "structures for projects or ensuring required paths exist. Only works within allowed directories.",
-        inputSchema: zodToJsonSchema(CreateDirectoryArgsSchema) as ToolInput,
-      },
-      {
-        name: "list_directory",
-        description:
-          "Get a detailed listing of all files and directories in a specified path. " +
-          "Results clearly distinguish between files and directories with [FILE] and [DIR] " +
-          "prefixes. This tool is essential for understanding directory structure and " +
-          "finding specific files within a directory. Only works within allowed directories.",
-        inputSchema: zodToJsonSchema(ListDirectoryArgsSchema) as ToolInput,
-      },
-      {
-        name: "list_directory_with_sizes",
-        description:
-          "Get a detailed listing of all files and directories in a specified path, including sizes. " +
-          "Results clearly distinguish between files and directories with [FILE] and [DIR] " +
-          "prefixes. This tool is useful for understanding directory structure and " +
-          "finding specific files within a directory. Only works within allowed directories.",
-        inputSchema: zodToJsonSchema(ListDirectoryWithSizesArgsSchema) as ToolInput,
-      },
-      {
-        name: "directory_tree",
-        description:
-            "Get a recursive tree view of files and directories as a JSON structure. " +
-            "Each entry includes 'name', 'type' (file/directory), and 'children' for directories. " +
-            "Files have no children array, while directories always have a children array (which may be empty). " +
-            "The output is formatted with 2-space indentation for readability. Only works within allowed directories.",
-        inputSchema: zodToJsonSchema(DirectoryTreeArgsSchema) as ToolInput,
-      },
-      {
-        name: "move_file",
-        description:
-          "Move or rename files and directories. Can move files between directories " +
-          "and rename them in a single operation. If the destination exists, the " +
-          "operation will fail. Works across different directories and can be used " +
-          "for simple renaming within the same directory. Both source and destination must be within allowed directories.",
-        inputSchema: zodToJsonSchema(MoveFileArgsSchema) as ToolInput,
-      },
-      {
-        name: "search_files",
-        description:
-          "Recursively search for files and directories matching a pattern. " +
-          "The patterns should be glob-style patterns that match paths relative to the working directory. " +
-          "Use pattern like '*.ext' to match files in current directory, and '**/*.ext' to match files in all subdirectories. " +
-          "Returns full paths to all matching items. Great for finding files when you don't know their exact location. " +
-          "Only searches within allowed directories.",
-        inputSchema: zodToJsonSchema(SearchFilesArgsSchema) as ToolInput,
-      },
-      {
-        name: "get_file_info",
-        description:
-          "Retrieve detailed metadata about a file or directory. Returns comprehensive " +
-          "information including size, creation time, last modified time, permissions, " +
-          "and type. This tool is perfect for understanding file characteristics " +
-          "without reading the actual content. Only works within allowed directories.",
-        inputSchema: zodToJsonSchema(GetFileInfoArgsSchema) as ToolInput,
+// Refuses a read that is over the read limits. The message carries the file's
+// metadata, so the caller can still decide how to read part of it
+async function refuseOversizedRead(validPath: string, problem: string, hint: string, details: string[] = []): Promise<never> {
+  const info = await getDetailedFileInfo(validPath, { countLines: false });
+  throw new Error(`${problem}. ${hint}\n${[...details, formatDetailedFileInfo(info)].join('\n')}`);
+}
+
+// Creates a server instance for one client. Its access policy starts with the
+// configured directories and follows the roots that client provides. Checkpoints
+// are kept per session when a session id is given
+function createServer(policy: AccessPolicy, sessionId?: string): Server {
+  const server = new Server(
+    {
+      name: "secure-filesystem-server",
+      version: "0.2.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true },
       },
-      {
-        name: "list_allowed_directories",
-        description:
-          "Returns the list of directories that this server is allowed to access. " +
-          "Subdirectories within these allowed directories are also accessible. " +
-          "Use this to understand which directories and their nested paths are available " +
-          "before trying to access files.",
-        inputSchema: {
-          type: "object",
-          properties: {},
-          required: [],
+    },
+  );
+
+  // Notifies subscribed clients when watched files change on disk
+  const resourceWatcher = createResourceWatcher((uri) => {
+    server.sendResourceUpdated({ uri }).catch((error) => {
+      console.error(`Failed to send resource update for ${uri}:`, error instanceof Error ? error.message : String(error));
+    });
+  });
+  server.onclose = () => resourceWatcher.close();
+
+  // Counts the file content sent to this client against the read limits
+  const readBudget = createReadBudget(readLimits);
+
+  // Tool handlers
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: [
+        {
+          name: "read_file",
+          description: "Read the complete contents of a file as text. DEPRECATED: Use read_text_file instead.",
+          inputSchema: zodToJsonSchema(ReadTextFileArgsSchema) as ToolInput,
         },
-      },
-    ],
-  };
-});
+        {
+          name: "read_text_file",
+          description:
+            "Read the complete contents of a file from the file system as text. " +
+            "Handles various text encodings and provides detailed error messages " +
+            "if the file cannot be read. Use this tool when you need to examine " +
+            "the contents of a single file. Use the 'head' parameter to read only " +
+            "the first N lines of a file, or the 'tail' parameter to read only " +
+            "the last N lines of a file. For large files, use 'startLine'/'endLine' to read " +
+            "a line window or 'offset'/'length' to read a byte window; ranged reads report the " +
+            "total line count and whether more content remains, so you can page through the file. " +
+            "Set 'lineNumbers' to prefix each line with its number. " +
+            "The text encoding (UTF-8, UTF-16, GBK, Shift-JIS, ...) is detected automatically " +
+            "and reported when it is not plain UTF-8; use 'encoding' to override it. " +
+            "Every read reports the file's SHA-256 hash and modification time, which can be " +
+            "passed to write_file or edit_file as expectedHash/expectedMtime. " +
+            "Operates on the file as text regardless of extension. " +
+            "Reading a whole file larger than the server's read limit fails with the file's " +
+            "metadata, and ranged reads stop at the limit, so read large files in ranges. " +
+            "Only works within allowed directories.",
+          inputSchema: zodToJsonSchema(ReadTextFileArgsSchema) as ToolInput,
+        },
+        {
+          name: "read_media_file",
+          description:
+            "Read an image, audio, PDF, SVG or video file. Images and audio are returned as base64 " +
+            "data with their MIME type, which is detected from the file's content rather than its " +
+            "extension. PDFs are returned as the text of each page, with 'startPage'/'endPage' to " +
+            "choose pages, or with pdfFormat 'resource' as the file itself in an embedded resource. " +
+            "SVG images are returned as text, and videos as a poster frame image when ffmpeg is " +
+            "installed. Other files are returned as embedded resources. " +
+            "Images over the server's pixel or byte limit are returned downscaled when an image " +
+            "converter is installed; other files over the byte limit fail with the file's metadata. " +
+            "Only works within allowed directories.",
+          inputSchema: zodToJsonSchema(ReadMediaFileArgsSchema) as ToolInput,
+        },
+        {
+          name: "read_multiple_files",
+          description:
+            "Read the contents of multiple files simultaneously. This is more " +
+            "efficient than reading files one by one when you need to analyze " +
+            "or compare multiple files. Files can be named in 'paths' or matched by " +
+            "glob 'patterns' below 'root'; explicit paths come first, then matches " +
+            "sorted by path. Each file's content is returned with its " +
+            "path, SHA-256 hash and modification time as a reference. Use maxFiles, " +
+            "maxTotalBytes and maxBytesPerFile to bound the response: files over the " +
+            "budget keep their first and last lines, and a closing report lists " +
+            "every file that was truncated or skipped. Failed reads " +
+            "for individual files won't stop the entire operation. Only works within allowed directories.",
+          inputSchema: zodToJsonSchema(ReadMultipleFilesArgsSchema) as ToolInput,
+        },
+        {
+          name: "write_file",
+          description:
+            "Create a new file or completely overwrite an existing file with new content. " +
+            "Use with caution as it will overwrite existing files without warning. " +
+            "When overwriting, the file's original encoding and line endings are preserved " +
+            "unless 'encoding' or 'lineEnding' is given. A file that is not UTF-8 or UTF-16 and has no " +
+            "BOM can only be overwritten with an explicit 'encoding'. Pass the expectedHash or expectedMtime " +
+            "returned by read_text_file to fail with a conflict, instead of overwriting, if the file " +
+            "changed since you read it. Only works within allowed directories.",
+          inputSchema: zodToJsonSchema(WriteFileArgsSchema) as ToolInput,
+        },
+        {
+          name: "edit_file",
+          description:
+            "Make line-based edits to a text file. Each edit replaces exact line sequences " +
+            "with new content. Returns a git-style diff showing the changes made. " +
+            "If oldText appears more than once the edit fails with the line of each match; " +
+            "set occurrence to pick one or replaceAll to edit them all. " +
+            "If oldText is not found, the error shows the closest region of the file and how it differs; " +
+            "set fuzzyMatchThreshold to apply such an edit to a single close enough region instead. " +
+            "Pass expectedHash or expectedMtime to fail with a conflict if the file changed since you read it. " +
+            "Only works within allowed directories.",
+          inputSchema: zodToJsonSchema(EditFileArgsSchema) as ToolInput,
+        },
+        {
+          name: "edit_files",
+          description:
+            "Make line-based edits to several text files as a single transaction. Every edit " +
+            "is checked before anything is written; if any edit fails to match, no file is " +
+            "changed. Returns one combined git-style diff of all files. " +
+            "Only works within allowed directories.",
+          inputSchema: zodToJsonSchema(EditFilesArgsSchema) as ToolInput,
+        },
+        {
+          name: "apply_patch",
+          description:
+            "Apply a unified diff, such as git diff output, that may create, change or delete " +
+            "several files. Hunks are matched at their stated line or the nearest place their " +
+            "lines appear; 'fuzz' allows that many context lines at each end of a hunk to differ. " +
+            "Reports the outcome of every hunk, with the expected and found lines of those that " +
+            "failed. Files are only written, as one transaction, if every hunk applies. Use " +
+            "'dryRun' to check a patch first. Only works within allowed directories.",
+          inputSchema: zodToJsonSchema(ApplyPatchArgsSchema) as ToolInput,
+        },
+        {
+          name: "diff_files",
+          description:
+            "Compare two files, or a file against proposed content, and show the differences as a " +
+            "unified diff, side-by-side columns or JSON hunks. Can ignore whitespace changes and " +
+            "set the number of context lines. When both paths are directories, lists the files " +
+            "added, removed and changed between the two trees. Only works within allowed directories.",
+          inputSchema: zodToJsonSchema(DiffFilesArgsSchema) as ToolInput,
+        },
+        {
+          name: "create_directory",
+          description:
+            "Create a new directory or ensure a directory exists. Can create multiple " +
+            "nested directories in one operation. If the directory already exists, " +
+            "this operation will succeed silently. Perfect for setting up directory " +
+            "structures for projects or ensuring required paths exist. Only works within allowed directories.",
+          inputSchema: zodToJsonSchema(CreateDirectoryArgsSchema) as ToolInput,
+        },
+        {
+          name: "list_directory",
+          description:
+            "Get a detailed listing of all files and directories in a specified path. " +
+            "Results clearly distinguish between files and directories with [FILE] and [DIR] " +
+            "prefixes. This tool is essential for understanding directory structure and " +
+            "finding specific files within a directory. Only works within allowed directories.",
+          inputSchema: zodToJsonSchema(ListDirectoryArgsSchema) as ToolInput,
+        },
+        {
+          name: "list_directory_with_sizes",
+          description:
+            "Get a detailed listing of all files and directories in a specified path, including sizes. " +
+            "Results clearly distinguish between files and directories with [FILE] and [DIR] " +
+            "prefixes. Set 'detailed' to add the metadata of get_file_info to each entry; line counts " +
+            "are only added with 'countLines', since they read every file in full. " +
+            "This tool is useful for understanding directory structure and " +
+            "finding specific files within a directory. Only works within allowed directories.",
+          inputSchema: zodToJsonSchema(ListDirectoryWithSizesArgsSchema) as ToolInput,
+        },
+        {
+          name: "directory_tree",
+          description:
+              "Get a recursive tree view of files and directories as a JSON structure. " +
+              "Each entry includes 'name', 'type' (file/directory), and 'children' for directories. " +
+              "Files have no children array, while directories always have a children array (which may be empty). " +
+              "The output is formatted with 2-space indentation for readability. Use format 'text' for a " +
+              "compact indented listing instead. Entries ignored by .gitignore, .ignore or global git excludes are " +
+              "skipped and counted unless respectGitignore is false. The tree is built breadth-first and " +
+              "limited by maxDepth and maxEntries (default 1000); directories that were cut short carry a " +
+              "'truncated' field with the number of omitted entries, and are listed at the end so you can " +
+              "call directory_tree on them. Only works within allowed directories.",
+          inputSchema: zodToJsonSchema(DirectoryTreeArgsSchema) as ToolInput,
+        },
+        {
+          name: "move_file",
+          description:
+            "Move or rename files and directories. Can move files between directories " +
+            "and rename them in a single operation. If the destination exists, the " +
+            "operation will fail. Works across different directories and can be used " +
+            "for simple renaming within the same directory. Both source and destination must be within allowed directories.",
+          inputSchema: zodToJsonSchema(MoveFileArgsSchema) as ToolInput,
+        },
+        {
+          name: "copy_path",
+          description:
+            "Copy a file or directory. Directories are copied recursively. By default the " +
+            "copy fails if the destination exists; set 'overwrite' to 'overwrite' to replace " +
+            "existing files or 'skip' to keep them. Both source and destination must be within allowed directories.",
+          inputSchema: zodToJsonSchema(CopyPathArgsSchema) as ToolInput,
+        },
+        {
+          name: "delete_path",
+          description:
+            "Delete a file or directory. Non-empty directories are only deleted when 'confirm' " +
+            "is true. Set 'trash' to move the entry into the .mcp-trash folder of its allowed " +
+            "directory instead, so it can be restored later with restore_from_trash. Files deleted " +
+            "permanently are snapshotted first and can be put back with restore_snapshot. " +
+            "Symlinks are deleted themselves, not their targets. Only works within allowed directories.",
+          inputSchema: zodToJsonSchema(DeletePathArgsSchema) as ToolInput,
+        },
+        {
+          name: "list_trash",
+          description:
+            "List entries that were deleted with delete_path in trash mode, newest first, " +
+            "with their ids and original locations. Only lists trash within allowed directories.",
+          inputSchema: zodToJsonSchema(ListTrashArgsSchema) as ToolInput,
+        },
+        {
+          name: "restore_from_trash",
+          description:
+            "Restore a trashed entry to its original location or to a new destination. " +
+            "Fails if the destination already exists. Only works within allowed directories.",
+          inputSchema: zodToJsonSchema(RestoreFromTrashArgsSchema) as ToolInput,
+        },
+        {
+          name: "archive_create",
+          description:
+            "Create a zip, tar or tar.gz archive from files and directories. Directories are " +
+            "added recursively and symlinks are stored as links without being followed. Fails if " +
+            "the archive exists unless 'overwrite' is true. Only works within allowed directories.",
+          inputSchema: zodToJsonSchema(ArchiveCreateArgsSchema) as ToolInput,
+        },
+        {
+          name: "archive_list",
+          description:
+            "List the entries of a zip, tar or tar.gz archive with their types and uncompressed " +
+            "sizes, without extracting it. Only works within allowed directories.",
+          inputSchema: zodToJsonSchema(ArchiveListArgsSchema) as ToolInput,
+        },
+        {
+          name: "archive_extract",
+          description:
+            "Extract a zip, tar or tar.gz archive into a directory. Every entry is checked before " +
+            "anything is written: the archive is refused if an entry would land outside the " +
+            "destination, if a symlink points outside the allowed directories, if it contains hard " +
+            "links or special files, or if it exceeds 'maxTotalBytes' (default 1 GiB uncompressed) " +
+            "or 'maxEntries' (default 10000). Only works within allowed directories.",
+          inputSchema: zodToJsonSchema(ArchiveExtractArgsSchema) as ToolInput,
+        },
+        {
+          name: "search_files",
+          description:
+            "Recursively search for files and directories matching a pattern. " +
+            "The patterns should be glob-style patterns that match paths relative to the working directory. " +
+            "Use pattern like '*.ext' to match files in current directory, and '**/*.ext' to match files in all subdirectories. " +
+            "Returns full paths to all matching items. Great for finding files when you don't know their exact location. " +
+            "Entries ignored by .gitignore, .ignore or global git excludes are skipped and counted unless respectGitignore is false. " +
+            "Only searches within allowed directories.",
+          inputSchema: zodToJsonSchema(SearchFilesArgsSchema) as ToolInput,
+        },
+        {
+          name: "grep_files",
+          description:
+            "Recursively search the contents of files for lines matching a regular expression " +
+            "or literal string. Supports case-insensitive matching, include/exclude glob patterns, " +
+            "context lines around each match, a per-file match cap and a total result budget. " +
+            "Binary files are skipped automatically. Returns matches as 'path:line:text', with " +
+            "context lines as 'path-line-text'. Only searches within allowed directories.",
+          inputSchema: zodToJsonSchema(GrepFilesArgsSchema) as ToolInput,
+        },
+        {
+          name: "get_file_info",
+          description:
+            "Retrieve detailed metadata about a file or directory. Returns comprehensive " +
+            "information including size, creation time, last modified time, permissions, " +
+            "type, symlink target, owner and group, hard link count, and for files the MIME type, " +
+            "whether it is binary, and the encoding and line count of text. Symlinks are described " +
+            "rather than followed. Pass 'paths' to describe many paths in one call. This tool is " +
+            "perfect for understanding file characteristics without reading the actual content. " +
+            "Only works within allowed directories.",
+          inputSchema: zodToJsonSchema(GetFileInfoArgsSchema) as ToolInput,
+        },
+        {
+          name: "hash_files",
+          description:
+            "Compute sha256, sha1 or md5 checksums of files without returning their content. " +
+            "Directories are hashed recursively into a manifest of '<hash>  <path>' lines relative " +
+            "to the directory, in the format of sha256sum. Pass a manifest as 'verify' (with 'baseDir' " +
+            "for relative paths) to check files against it instead; each file is reported as OK, " +
+            "FAILED, MISSING or ERROR. Useful for confirming build artifacts or detecting unchanged " +
+            "files without reading them. Only works within allowed directories.",
+          inputSchema: zodToJsonSchema(HashFilesArgsSchema) as ToolInput,
+        },
+        {
+          name: "create_checkpoint",
+          description:
+            "Mark a safe point before a risky change such as a large refactor. Every file written, " +
+            "edited, patched or deleted by a tool afterwards can be put back as it was at the checkpoint " +
+            "with restore_snapshot. Returns the checkpoint id.",
+          inputSchema: zodToJsonSchema(CreateCheckpointArgsSchema) as ToolInput,
+        },
+        {
+          name: "list_snapshots",
+          description:
+            "List checkpoints and the snapshots kept of files before tools changed them, newest first. " +
+            "Each snapshot holds the contents a file had before one change, or notes that it did not " +
+            "exist yet. The store is bounded, so the oldest snapshots are dropped eventually. " +
+            "Only lists files within allowed directories.",
+          inputSchema: zodToJsonSchema(ListSnapshotsArgsSchema) as ToolInput,
+        },
+        {
+          name: "restore_snapshot",
+          description:
+            "Undo changes made by tools. Pass a snapshot id to put back the contents one file had " +
+            "before that change, or a checkpoint id to put back every file changed since the checkpoint, " +
+            "deleting files created after it. All files are restored as one transaction, and the " +
+            "restore itself is snapshotted so it can be undone. Only works within allowed directories.",
+          inputSchema: zodToJsonSchema(RestoreSnapshotArgsSchema) as ToolInput,
+        },
+        {
+          name: "get_audit_log",
+          description:
+            `Query the audit log of changes made through this server. Every ${AUDITED_TOOLS.join(', ')} ` +
+            "call is recorded with its time, resolved paths, hashes and sizes before and after, bytes " +
+            "changed, and any error. Filter by path (including everything below it), tool and time range. " +
+            "Returns the most recent matching entries as JSON lines, oldest first. Only entries whose " +
+            "paths are all within allowed directories are shown. Only available when the server was " +
+            "started with --audit-log.",
+          inputSchema: zodToJsonSchema(GetAuditLogArgsSchema) as ToolInput,
+        },
+        {
+          name: "list_allowed_directories",
+          description:
+            "Returns the list of directories that this server is allowed to access, " +
+            "with the operations (read, write, delete) permitted in each and whether it was " +
+            "configured on the command line or requested as a client root. " +
+            "Subdirectories within these allowed directories are also accessible. " +
+            "Use this to understand which directories and their nested paths are available " +
+            "before trying to access files.",
+          inputSchema: {
+            type: "object",
+            properties: {},
+            required: [],
+          },
+        },
+      ],
+    };
+  });
 
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  try {
-    const { name, arguments: args } = request.params;
-
-    switch (name) {
-      case "read_file":
-      case "read_text_file": {
-        const parsed = ReadTextFileArgsSchema.safeParse(args);
-        if (!parsed.success) {
-          throw new Error(`Invalid arguments for read_text_file: ${parsed.error}`);
-        }
-        const validPath = await validatePath(parsed.data.path);
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    try {
+      const { name, arguments: args } = request.params;
 
-        if (parsed.data.head && parsed.data.tail) {
-          throw new Error("Cannot specify both head and tail parameters simultaneously");
-        }
+      switch (name) {
+        case "read_file":
+        case "read_text_file": {
+          const parsed = ReadTextFileArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for read_text_file: ${parsed.error}`);
+          }
+          const validPath = await validatePath(parsed.data.path, policy);
+          const { head, tail, startLine, endLine, offset, length, lineNumbers } = parsed.data;
+
+          if (head && tail) {
+            throw new Error("Cannot specify both head and tail parameters simultaneously");
+          }
+
+          const usesLineRange = startLine !== undefined || endLine !== undefined;
+          const usesByteRange = offset !== undefined || length !== undefined;
+          if ([Boolean(head || tail), usesLineRange, usesByteRange].filter(Boolean).length > 1) {
+            throw new Error("Cannot combine head/tail, startLine/endLine and offset/length parameters");
+          }
+          readBudget.assertAvailable();
 
-        if (parsed.data.tail) {
-          // Use memory-efficient tail implementation for large files
-          const tailContent = await tailFile(validPath, parsed.data.tail);
+          if (!usesByteRange && !usesLineRange && !head && !tail && !lineNumbers) {
+            const { size } = await fs.stat(validPath);
+            const overLimit = readBudget.overLimitReason(size);
+            if (overLimit) {
+              await refuseOversizedRead(validPath, `File is ${formatSize(size)}, ${overLimit}`,
+                "Read part of it with startLine/endLine, offset/length, head or tail");
+            }
+            const { content, format, version } = await readTextFileWithVersion(validPath, parsed.data.encoding);
+            readBudget.consume(Buffer.byteLength(content));
+            return {
+              content: [
+                { type: "text", text: content },
+                ...(isPlainUtf8(format) ? [] : [{ type: "text", text: `Encoding: ${describeTextFormat(format)}` }]),
+                { type: "text", text: formatFileVersion(version) },
+              ],
+            };
+          }
+
+          const detectedFormat = parsed.data.encoding ? null : await detectFileFormat(validPath);
+          const encoding = parsed.data.encoding ?? detectedFormat?.encoding ?? 'utf-8';
+          const encodingNote = /^utf-?8$/i.test(encoding) ? ""
+            : ` Encoding: ${encoding}${detectedFormat?.guessed ? " (guessed; pass encoding if the text looks wrong)" : ""}.`;
+          // Partial reads still report the version of the whole file
+          const versionBlock = { type: "text", text: formatFileVersion(await getFileVersion(validPath)) };
+          // Ranges are cut short at the read limit rather than refused
+          const available = readBudget.available();
+          const limitNote = ` Stopped at the ${formatSize(available)} read limit.`;
+
+          if (usesByteRange) {
+            if (lineNumbers) {
+              throw new Error("lineNumbers is not supported for byte range reads");
+            }
+            const result = await readFileBytes(validPath, offset, Math.min(length ?? Infinity, available), encoding);
+            readBudget.consume(result.bytesRead);
+            const end = result.offset + result.bytesRead;
+            const limited = result.hasMore && result.bytesRead < (length ?? Infinity);
+            return {
+              content: [
+                { type: "text", text: result.content },
+                {
+                  type: "text",
+                  text: `Bytes ${result.offset}-${end} of ${result.totalBytes}. ` +
+                    (result.hasMore ? `More content remains; continue with offset ${end}.` : "End of file reached.") +
+                    (limited ? limitNote : "") +
+                    encodingNote,
+                },
+                versionBlock,
+              ],
+            };
+          }
+
+          // The byte-oriented head/tail helpers assume UTF-8, so other encodings
+          // go through the streaming line reader instead
+          if (usesLineRange || lineNumbers || encodingNote) {
+            let firstLine = startLine ?? 1;
+            let lastLine = endLine;
+            if (head) {
+              lastLine = head;
+            } else if (tail) {
+              firstLine = Math.max(1, (await countFileLines(validPath, encoding)) - tail + 1);
+            }
+            const result = await readFileLines(validPath, firstLine, lastLine, lineNumbers, encoding, available);
+            if (result.endLine < result.startLine && result.startLine <= result.totalLines) {
+              throw new Error(`Line ${result.startLine} alone is larger than the ${formatSize(available)} read limit. Read it in parts with offset/length`);
+            }
+            readBudget.consume(Buffer.byteLength(result.content));
+            const limited = result.hasMore && result.endLine < (lastLine ?? Infinity);
+            const range = result.endLine >= result.startLine
+              ? `Lines ${result.startLine}-${result.endLine} of ${result.totalLines}. `
+              : `No lines in range; file has ${result.totalLines} lines. `;
+            return {
+              content: [
+                { type: "text", text: result.content },
+                {
+                  type: "text",
+                  text: range +
+                    (result.hasMore ? `More content remains; continue with startLine ${result.endLine + 1}.` : "End of file reached.") +
+                    (limited ? limitNote : "") +
+                    encodingNote,
+                },
+                versionBlock,
+              ],
+            };
+          }
+
+          // Only head or tail is left. Use memory-efficient implementations for large files
+          let text: string;
+          if (tail) {
+            text = await tailFile(validPath, tail, available);
+          } else if (head) {
+            text = await headFile(validPath, head, available);
+          } else {
+            throw new Error("Specify head, tail, startLine/endLine or offset/length");
+          }
+          const bytes = Buffer.byteLength(text);
+          const overLimit = readBudget.overLimitReason(bytes);
+          if (overLimit) {
+            throw new Error(`The ${tail ? `last ${tail}` : `first ${head}`} lines are ${formatSize(bytes)}, ${overLimit}. Request fewer lines`);
+          }
+          readBudget.consume(bytes);
           return {
-            content: [{ type: "text", text: tailContent }],
+            content: [{ type: "text", text }, versionBlock],
           };
         }
 
-        if (parsed.data.head) {
-          // Use memory-efficient head implementation for large files
-          const headContent = await headFile(validPath, parsed.data.head);
+        case "read_media_file": {
+          const parsed = ReadMediaFileArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for read_media_file: ${parsed.error}`);
+          }
+          const validPath = await validatePath(parsed.data.path, policy);
+          const { pdfFormat, startPage, endPage } = parsed.data;
+          readBudget.assertAvailable();
+          const mimeType = (await detectMimeType(validPath)) ?? "application/octet-stream";
+          const { size } = await fs.stat(validPath);
+          const readsPdfText = mimeType === "application/pdf" && pdfFormat === "text";
+          if ((startPage !== undefined || endPage !== undefined) && !readsPdfText) {
+            throw new Error("startPage and endPage only apply to PDFs read as text");
+          }
+          if (startPage !== undefined && endPage !== undefined && endPage < startPage) {
+            throw new Error(`endPage (${endPage}) must not be less than startPage (${startPage})`);
+          }
+          const notes: string[] = [];
+
+          if (mimeType === "image/svg+xml") {
+            const overLimit = readBudget.overLimitReason(size);
+            if (overLimit) {
+              await refuseOversizedRead(validPath, `File is ${formatSize(size)}, ${overLimit}`,
+                "Read part of it with read_text_file startLine/endLine");
+            }
+            const { content } = await readTextFile(validPath);
+            readBudget.consume(Buffer.byteLength(content));
+            return {
+              content: [{ type: "text", text: content }],
+            };
+          }
+
+          if (readsPdfText) {
+            const available = readBudget.available();
+            const pdf = await extractPdfText(validPath, startPage, endPage, available);
+            if (pdf) {
+              if (pdf.pages.length === 0 && pdf.truncated) {
+                throw new Error(`The text of page ${pdf.startPage} is larger than the ${formatSize(available)} read limit`);
+              }
+              readBudget.consume(pdf.pages.reduce((total, text) => total + Buffer.byteLength(text), 0));
+              const lastPage = pdf.startPage + pdf.pages.length - 1;
+              const hasMore = pdf.truncated || (pdf.totalPages !== undefined && lastPage < pdf.totalPages);
+              const atEnd = pdf.totalPages !== undefined ? lastPage >= pdf.totalPages : endPage === undefined && !pdf.truncated;
+              const summary = `Pages ${pdf.startPage}-${lastPage}${pdf.totalPages !== undefined ? ` of ${pdf.totalPages}` : ""}. ` +
+                (hasMore ? `More pages remain; continue with startPage ${lastPage + 1}.` : atEnd ? "End of document reached." : "") +
+                (pdf.truncated ? ` Stopped at the ${formatSize(available)} read limit.` : "");
+              return {
+                content: [
+                  ...pdf.pages.map((text, i) => ({ type: "text", text: `Page ${pdf.startPage + i}:\n${text}` })),
+                  { type: "text", text: summary.trim() },
+                ],
+              };
+            }
+            notes.push("pdftotext (from poppler) is not installed, so the PDF is returned as an embedded resource instead of text");
+          }
+
+          if (mimeType.startsWith("video/")) {
+            const poster = await extractPosterFrame(validPath, readLimits.maxImagePixels);
+            if (poster) {
+              const overLimit = readBudget.overLimitReason(poster.data.length);
+              if (overLimit) {
+                throw new Error(`The poster frame is ${formatSize(poster.data.length)}, ${overLimit}`);
+              }
+              readBudget.consume(poster.data.length);
+              return {
+                content: [
+                  { type: "image", data: poster.data.toString("base64"), mimeType: poster.mimeType },
+                  { type: "text", text: `Poster frame of a ${mimeType} video of ${formatSize(size)}` },
+                ],
+              };
+            }
+          }
+
+          const type = mimeType.startsWith("image/")
+            ? "image"
+            : mimeType.startsWith("audio/")
+              ? "audio"
+              : "resource";
+
+          // Large images are downscaled to fit the pixel and byte limits when a converter is installed
+          const dimensions = type === "image" && mimeType !== "image/svg+xml" ? await readImageSize(validPath) : null;
+          const tooManyPixels = dimensions !== null && dimensions.width * dimensions.height > readLimits.maxImagePixels;
+          if (dimensions && (tooManyPixels || readBudget.overLimitReason(size))) {
+            const thumbnail = await createThumbnail(validPath, dimensions, readLimits.maxImagePixels, mimeType);
+            if (thumbnail && !readBudget.overLimitReason(thumbnail.data.length)) {
+              readBudget.consume(thumbnail.data.length);
+              return {
+                content: [
+                  { type, data: thumbnail.data.toString("base64"), mimeType: thumbnail.mimeType },
+                  {
+                    type: "text",
+                    text: `Downscaled from ${dimensions.width}x${dimensions.height} to ${thumbnail.width}x${thumbnail.height} pixels`,
+                  },
+                ],
+              };
+            }
+            if (!thumbnail && tooManyPixels) {
+              await refuseOversizedRead(validPath,
+                `Image is ${dimensions.width}x${dimensions.height} pixels, over the ${readLimits.maxImagePixels} pixel limit`,
+                "Install ImageMagick or ffmpeg to have large images downscaled",
+                [`dimensions: ${dimensions.width}x${dimensions.height}`]);
+            }
+          }
+          const overLimit = readBudget.overLimitReason(size);
+          if (overLimit) {
+            await refuseOversizedRead(validPath, `File is ${formatSize(size)}, ${overLimit}`,
+              mimeType.startsWith("video/")
+                ? "Install ffmpeg to get a poster frame of videos instead"
+                : "Media files cannot be read in parts",
+              dimensions ? [`dimensions: ${dimensions.width}x${dimensions.height}`] : []);
+          }
+          const data = await readFileAsBase64Stream(validPath, readBudget.available());
+          readBudget.consume(size);
+          // Files other than images and audio are embedded as resources
+          const media = type === "resource"
+            ? { type, resource: { uri: pathToResourceUri(validPath), mimeType, blob: data } }
+            : { type, data, mimeType };
           return {
-            content: [{ type: "text", text: headContent }],
+            content: [media, ...notes.map(text => ({ type: "text", text }))],
           };
         }
-        const content = await readFileContent(validPath);
-        return {
-          content: [{ type: "text", text: content }],
-        };
-      }
 
-      case "read_media_file": {
-        const parsed = ReadMediaFileArgsSchema.safeParse(args);
-        if (!parsed.success) {
-          throw new Error(`Invalid arguments for read_media_file: ${parsed.error}`);
-        }
-        const validPath = await validatePath(parsed.data.path);
-        const extension = path.extname(validPath).toLowerCase();
-        const mimeTypes: Record<string, string> = {
-          ".png": "image/png",
-          ".jpg": "image/jpeg",
-          ".jpeg": "image/jpeg",
-          ".gif": "image/gif",
-          ".webp": "image/webp",
-          ".bmp": "image/bmp",
-          ".svg": "image/svg+xml",
-          ".mp3": "audio/mpeg",
-          ".wav": "audio/wav",
-          ".ogg": "audio/ogg",
-          ".flac": "audio/flac",
-        };
-        const mimeType = mimeTypes[extension] || "application/octet-stream";
-        const data = await readFileAsBase64Stream(validPath);
-        const type = mimeType.startsWith("image/")
-          ? "image"
-          : mimeType.startsWith("audio/")
-            ? "audio"
-            : "blob";
-        return {
-          content: [{ type, data, mimeType }],
-        };
-      }
+        case "read_multiple_files": {
+          const parsed = ReadMultipleFilesArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for read_multiple_files: ${parsed.error}`);
+          }
+          const { paths = [], root, patterns, excludePatterns, respectGitignore, ...budget } = parsed.data;
+          if (paths.length === 0 && !patterns?.length) {
+            throw new Error('Provide paths or patterns of files to read');
+          }
+          if (patterns?.length && root === undefined) {
+            throw new Error('root is required with patterns, to resolve them against');
+          }
 
-      case "read_multiple_files": {
-        const parsed = ReadMultipleFilesArgsSchema.safeParse(args);
-        if (!parsed.success) {
-          throw new Error(`Invalid arguments for read_multiple_files: ${parsed.error}`);
-        }
-        const results = await Promise.all(
-          parsed.data.paths.map(async (filePath: string) => {
-            try {
-              const validPath = await validatePath(filePath);
-              const content = await readFileContent(validPath);
-              return `${filePath}:\n${content}\n`;
-            } catch (error) {
-              const errorMessage = error instanceof Error ? error.message : String(error);
-              return `${filePath}: Error - ${errorMessage}`;
+          const targets: BatchReadTarget[] = [];
+          const seen = new Set<string>();
+          const validationErrors: string[] = [];
+          const validated = await Promise.all(paths.map(filePath => validatePath(filePath, policy).then(
+            validPath => ({ filePath, validPath }),
+            error => ({ filePath, error: error instanceof Error ? error.message : String(error) }),
+          )));
+          for (const entry of validated) {
+            if ('error' in entry) {
+              validationErrors.push(`${entry.filePath}: Error - ${entry.error}`);
+            } else if (!seen.has(entry.validPath)) {
+              seen.add(entry.validPath);
+              targets.push({ path: entry.filePath, validPath: entry.validPath, matched: false });
             }
-          }),
-        );
-        return {
-          content: [{ type: "text", text: results.join("\n---\n") }],
-        };
-      }
+          }
+          if (patterns?.length) {
+            const validRoot = await validatePath(root!, policy);
+            const matches = await findFilesByPatterns(validRoot, patterns, policy, { excludePatterns, respectGitignore });
+            for (const match of matches) {
+              if (!seen.has(match)) {
+                seen.add(match);
+                targets.push({ path: path.join(root!, path.relative(validRoot, match)), validPath: match, matched: true });
+              }
+            }
+          }
 
-      case "write_file": {
-        const parsed = WriteFileArgsSchema.safeParse(args);
-        if (!parsed.success) {
-          throw new Error(`Invalid arguments for write_file: ${parsed.error}`);
+          readBudget.assertAvailable();
+          const result = await readFilesWithBudget(targets, {
+            ...budget,
+            maxTotalBytes: Math.min(budget.maxTotalBytes ?? Infinity, readBudget.available()),
+            maxFileSize: readLimits.maxReadBytes,
+          });
+          readBudget.consume(result.totalBytes);
+          const sections = result.files.map(file => {
+            if (file.error !== undefined) {
+              return `${file.path}: Error - ${file.error}`;
+            }
+            const truncation = file.truncated
+              ? `, truncated: lines ${file.truncated.omittedStartLine}-${file.truncated.omittedEndLine} omitted`
+              : '';
+            return `${file.path} (sha256 ${file.version!.hash}, mtime ${file.version!.mtime}${truncation}):\n${file.content}\n`;
+          });
+          sections.push(...validationErrors);
+          const report = formatBatchReadReport(result);
+          if (report) {
+            sections.push(report);
+          }
+          if (sections.length === 0) {
+            sections.push('No files matched the patterns');
+          }
+          return {
+            content: [{ type: "text", text: sections.join("\n---\n") }],
+          };
         }
-        const validPath = await validatePath(parsed.data.path);
-        await writeFileContent(validPath, parsed.data.content);
-        return {
-          content: [{ type: "text", text: `Successfully wrote to ${parsed.data.path}` }],
-        };
-      }
 
-      case "edit_file": {
-        const parsed = EditFileArgsSchema.safeParse(args);
-        if (!parsed.success) {
-          throw new Error(`Invalid arguments for edit_file: ${parsed.error}`);
+        case "write_file": {
+          const parsed = WriteFileArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for write_file: ${parsed.error}`);
+          }
+          const validPath = await validatePath(parsed.data.path, policy, 'write');
+          const { encoding, lineEnding } = parsed.data;
+
+          // Preserve the format of an existing file unless told otherwise. New files
+          // are written as given, in UTF-8 unless another encoding is requested.
+          const existingFormat = await detectFileFormat(validPath);
+          let format: TextFormat | undefined;
+          if (existingFormat && !encoding) {
+            // Re-encoding on a guess could corrupt the file, so make the caller choose
+            assertEncodingKnown(validPath, existingFormat);
+          }
+          if (existingFormat) {
+            const keepsEncoding = !encoding || encoding.toLowerCase() === existingFormat.encoding;
+            format = {
+              encoding: encoding ?? existingFormat.encoding,
+              bom: keepsEncoding ? existingFormat.bom : /^utf-?16/i.test(encoding),
+              lineEnding: lineEnding ?? existingFormat.lineEnding,
+            };
+          } else if (encoding || lineEnding) {
+            format = {
+              encoding: encoding ?? 'utf-8',
+              bom: encoding ? /^utf-?16/i.test(encoding) : false,
+              lineEnding: lineEnding ?? 'lf',
+            };
+          }
+
+          await audited("write_file", [validPath], () => writeFileContent(validPath, parsed.data.content, format, {
+            expectedHash: parsed.data.expectedHash,
+            expectedMtime: parsed.data.expectedMtime,
+          }));
+          return {
+            content: [{
+              type: "text",
+              text: `Successfully wrote to ${parsed.data.path}` +
+                (format && (!isPlainUtf8(format) || format.lineEnding === 'crlf') ? ` (${describeTextFormat(format)})` : "") +
+                `\n${formatFileVersion(await getFileVersion(validPath))}`,
+            }],
+          };
         }
-        const validPath = await validatePath(parsed.data.path);
-        const result = await applyFileEdits(validPath, parsed.data.edits, parsed.data.dryRun);
-        return {
-          content: [{ type: "text", text: result }],
-        };
-      }
 
-      case "create_directory": {
-        const parsed = CreateDirectoryArgsSchema.safeParse(args);
-        if (!parsed.success) {
-          throw new Error(`Invalid arguments for create_directory: ${parsed.error}`);
+        case "edit_file": {
+          const parsed = EditFileArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for edit_file: ${parsed.error}`);
+          }
+          const validPath = await validatePath(parsed.data.path, policy, 'write');
+          const applyEdits = () => applyFileEdits(validPath, parsed.data.edits, parsed.data.dryRun, {
+            expectedHash: parsed.data.expectedHash,
+            expectedMtime: parsed.data.expectedMtime,
+          }, { fuzzyMatchThreshold: parsed.data.fuzzyMatchThreshold }, parsed.data.encoding);
+          // Dry runs change nothing, so they are not audited
+          const result = parsed.data.dryRun ? await applyEdits() : await audited("edit_file", [validPath], applyEdits);
+          return {
+            content: [{
+              type: "text",
+              text: parsed.data.dryRun ? result : `${result}${formatFileVersion(await getFileVersion(validPath))}`,
+            }],
+          };
         }
-        const validPath = await validatePath(parsed.data.path);
-        await fs.mkdir(validPath, { recursive: true });
-        return {
-          content: [{ type: "text", text: `Successfully created directory ${parsed.data.path}` }],
-        };
-      }
 
-      case "list_directory": {
-        const parsed = ListDirectoryArgsSchema.safeParse(args);
-        if (!parsed.success) {
-          throw new Error(`Invalid arguments for list_directory: ${parsed.error}`);
+        case "edit_files": {
+          const parsed = EditFilesArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for edit_files: ${parsed.error}`);
+          }
+          const fileEdits = await Promise.all(
+            parsed.data.files.map(async (file) => ({
+              path: await validatePath(file.path, policy, 'write'),
+              edits: file.edits,
+              encoding: file.encoding,
+            })),
+          );
+          const applyEdits = () => applyMultiFileEdits(fileEdits, parsed.data.dryRun, {
+            fuzzyMatchThreshold: parsed.data.fuzzyMatchThreshold,
+          });
+          const result = parsed.data.dryRun
+            ? await applyEdits()
+            : await audited("edit_files", fileEdits.map(file => file.path), applyEdits);
+          return {
+            content: [{ type: "text", text: result }],
+          };
         }
-        const validPath = await validatePath(parsed.data.path);
-        const entries = await fs.readdir(validPath, { withFileTypes: true });
-        const formatted = entries
-          .map((entry) => `${entry.isDirectory() ? "[DIR]" : "[FILE]"} ${entry.name}`)
-          .join("\n");
-        return {
-          content: [{ type: "text", text: formatted }],
-        };
-      }
 
-      case "list_directory_with_sizes": {
-        const parsed = ListDirectoryWithSizesArgsSchema.safeParse(args);
-        if (!parsed.success) {
-          throw new Error(`Invalid arguments for list_directory_with_sizes: ${parsed.error}`);
+        case "apply_patch": {
+          const parsed = ApplyPatchArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for apply_patch: ${parsed.error}`);
+          }
+          const validBaseDir = await validatePath(parsed.data.baseDir, policy);
+          readBudget.assertAvailable();
+          const applyPatch = (dryRun: boolean) => applyUnifiedPatch(parsed.data.patch, validBaseDir, policy, {
+            fuzz: parsed.data.fuzz,
+            strip: parsed.data.strip,
+            dryRun,
+            maxFileBytes: readBudget.limits.maxReadBytes,
+          });
+          // A dry run first finds the files the patch touches, so their state can be audited
+          let result = await applyPatch(true);
+          if (!parsed.data.dryRun) {
+            const targets = result.files.flatMap(file => file.target ? [file.target] : []);
+            result = await audited("apply_patch", targets, () => applyPatch(false));
+          }
+          readBudget.consume(result.bytesRead);
+          const failed = result.files.some(file => file.error || file.hunks.some(hunk => !hunk.applied));
+          return {
+            content: [{ type: "text", text: formatPatchReport(result, parsed.data.dryRun) }],
+            ...(failed ? { isError: true } : {}),
+          };
         }
-        const validPath = await validatePath(parsed.data.path);
-        const entries = await fs.readdir(validPath, { withFileTypes: true });
-
-        // Get detailed information for each entry
-        const detailedEntries = await Promise.all(
-          entries.map(async (entry) => {
-            const entryPath = path.join(validPath, entry.name);
-            try {
-              const stats = await fs.stat(entryPath);
-              return {
-                name: entry.name,
-                isDirectory: entry.isDirectory(),
-                size: stats.size,
-                mtime: stats.mtime
-              };
-            } catch (error) {
+
+        case "diff_files": {
+          const parsed = DiffFilesArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for diff_files: ${parsed.error}`);
+          }
+          const { comparePath, content, format, ignoreWhitespace } = parsed.data;
+          if ((comparePath === undefined) === (content === undefined)) {
+            throw new Error('Provide either comparePath or content to compare against, but not both');
+          }
+          const validPath = await validatePath(parsed.data.path, policy);
+          const validComparePath = comparePath !== undefined ? await validatePath(comparePath, policy) : undefined;
+          const newLabel = comparePath ?? 'proposed content';
+
+          if (validComparePath) {
+            const [isDirectory, compareIsDirectory] = await Promise.all(
+              [validPath, validComparePath].map(async p => (await fs.stat(p)).isDirectory())
+            );
+            if (isDirectory !== compareIsDirectory) {
+              throw new Error(`Cannot compare a directory with a file: ${parsed.data.path} and ${comparePath}`);
+            }
+            if (isDirectory) {
+              const result = await diffDirectories(validPath, validComparePath, policy.directories(), {
+                ignoreWhitespace,
+                respectGitignore: parsed.data.respectGitignore,
+                maxFileBytes: readBudget.limits.maxReadBytes,
+              });
               return {
-                name: entry.name,
-                isDirectory: entry.isDirectory(),
-                size: 0,
-                mtime: new Date(0)
+                content: [{
+                  type: "text",
+                  text: format === 'json' ? JSON.stringify(result, null, 2) : formatDirectoryDiff(result, parsed.data.path, newLabel),
+                }],
               };
             }
-          })
-        );
-
-        // Sort entries based on sortBy parameter
-        const sortedEntries = [...detailedEntries].sort((a, b) => {
-          if (parsed.data.sortBy === 'size') {
-            return b.size - a.size; // Descending by size
-          }
-          // Default sort by name
-          return a.name.localeCompare(b.name);
-        });
-
-        // Format the output
-        const formattedEntries = sortedEntries.map(entry =>
-          `${entry.isDirectory ? "[DIR]" : "[FILE]"} ${entry.name.padEnd(30)} ${
-            entry.isDirectory ? "" : formatSize(entry.size).padStart(10)
-          }`
-        );
-
-        // Add summary
-        const totalFiles = detailedEntries.filter(e => !e.isDirectory).length;
-        const totalDirs = detailedEntries.filter(e => e.isDirectory).length;
-        const totalSize = detailedEntries.reduce((sum, entry) => sum + (entry.isDirectory ? 0 : entry.size), 0);
-
-        const summary = [
-          "",
-          `Total: ${totalFiles} files, ${totalDirs} directories`,
-          `Combined size: ${formatSize(totalSize)}`
-        ];
-
-        return {
-          content: [{
-            type: "text",
-            text: [...formattedEntries, ...summary].join("\n")
-          }],
-        };
-      }
+          }
+
+          // Both files are read whole, so check their sizes and charge the budget first
+          readBudget.assertAvailable();
+          const sizes = await Promise.all(
+            [validPath, ...(validComparePath ? [validComparePath] : [])].map(async p => (await fs.stat(p)).size)
+          );
+          const totalSize = sizes.reduce((sum, size) => sum + size, 0);
+          const overLimit = readBudget.overLimitReason(totalSize);
+          if (overLimit) {
+            throw new Error(`Cannot diff ${formatSize(totalSize)} of files, ${overLimit}. Compare smaller files or directories`);
+          }
+          readBudget.consume(totalSize);
+
+          const oldText = await readComparableFile(validPath);
+          const newText = validComparePath ? await readComparableFile(validComparePath) : content!;
+          if (oldText === null || newText === null) {
+            const identical = validComparePath !== undefined && await fileContentsEqual(validPath, validComparePath);
+            return {
+              content: [{ type: "text", text: `Binary files ${parsed.data.path} and ${newLabel} ${identical ? 'are identical' : 'differ'}` }],
+            };
+          }
+
+          const diff = diffTexts(oldText, newText, parsed.data.path, newLabel, { context: parsed.data.context, ignoreWhitespace });
+          let text: string;
+          if (format === 'json') {
+            text = JSON.stringify(diff, null, 2);
+          } else if (diff.hunks.length === 0) {
+            text = `No differences between ${parsed.data.path} and ${newLabel}`;
+          } else {
+            text = format === 'side-by-side' ? formatSideBySideDiff(diff) : formatUnifiedDiff(diff);
+          }
+          return {
+            content: [{ type: "text", text }],
+          };
+        }
 
-      case "directory_tree": {
-        const parsed = DirectoryTreeArgsSchema.safeParse(args);
-        if (!parsed.success) {
-          throw new Error(`Invalid arguments for directory_tree: ${parsed.error}`);
+        case "create_directory": {
+          const parsed = CreateDirectoryArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for create_directory: ${parsed.error}`);
+          }
+          const validPath = await validatePath(parsed.data.path, policy, 'write');
+          await audited("create_directory", [validPath], () => fs.mkdir(validPath, { recursive: true }));
+          return {
+            content: [{ type: "text", text: `Successfully created directory ${parsed.data.path}` }],
+          };
         }
 
-        interface TreeEntry {
-            name: string;
-            type: 'file' | 'directory';
-            children?: TreeEntry[];
+        case "list_directory": {
+          const parsed = ListDirectoryArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for list_directory: ${parsed.error}`);
+          }
+          const validPath = await validatePath(parsed.data.path, policy);
+          const entries = await fs.readdir(validPath, { withFileTypes: true });
+          const formatted = entries
+            .map((entry) => `${entry.isDirectory() ? "[DIR]" : "[FILE]"} ${entry.name}`)
+            .join("\n");
+          return {
+            content: [{ type: "text", text: formatted }],
+          };
         }
-        const rootPath = parsed.data.path;
-
-        async function buildTree(currentPath: string, excludePatterns: string[] = []): Promise<TreeEntry[]> {
-            const validPath = await validatePath(currentPath);
-            const entries = await fs.readdir(validPath, {withFileTypes: true});
-            const result: TreeEntry[] = [];
-
-            for (const entry of entries) {
-                const relativePath = path.relative(rootPath, path.join(currentPath, entry.name));
-                const shouldExclude = excludePatterns.some(pattern => {
-                    if (pattern.includes('*')) {
-                        return minimatch(relativePath, pattern, {dot: true});
-                    }
-                    // For files: match exact name or as part of path
-                    // For directories: match as directory path
-                    return minimatch(relativePath, pattern, {dot: true}) ||
-                           minimatch(relativePath, `**/${pattern}`, {dot: true}) ||
-                           minimatch(relativePath, `**/${pattern}/**`, {dot: true});
-                });
-                if (shouldExclude)
-                    continue;
-
-                const entryData: TreeEntry = {
-                    name: entry.name,
-                    type: entry.isDirectory() ? 'directory' : 'file'
+
+        case "list_directory_with_sizes": {
+          const parsed = ListDirectoryWithSizesArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for list_directory_with_sizes: ${parsed.error}`);
+          }
+          const validPath = await validatePath(parsed.data.path, policy);
+          const entries = await fs.readdir(validPath, { withFileTypes: true });
+
+          // Get detailed information for each entry
+          const detailedEntries = await Promise.all(
+            entries.map(async (entry) => {
+              const entryPath = path.join(validPath, entry.name);
+              try {
+                const stats = await fs.stat(entryPath);
+                // Only describe what a symlink points to when its target is allowed too
+                const summary = parsed.data.detailed
+                  ? summarizeFileInfo(await getDetailedFileInfo(entryPath, {
+                    describeTarget: !entry.isSymbolicLink() || await validatePath(entryPath, policy).then(() => true, () => false),
+                    countLines: parsed.data.countLines,
+                  }))
+                  : undefined;
+                return {
+                  name: entry.name,
+                  isDirectory: entry.isDirectory(),
+                  isSymbolicLink: entry.isSymbolicLink(),
+                  size: stats.size,
+                  mtime: stats.mtime,
+                  summary
+                };
+              } catch (error) {
+                return {
+                  name: entry.name,
+                  isDirectory: entry.isDirectory(),
+                  isSymbolicLink: entry.isSymbolicLink(),
+                  size: 0,
+                  mtime: new Date(0),
+                  summary: undefined
                 };
+              }
+            })
+          );
+
+          // Sort entries based on sortBy parameter
+          const sortedEntries = [...detailedEntries].sort((a, b) => {
+            if (parsed.data.sortBy === 'size') {
+              return b.size - a.size; // Descending by size
+            }
+            // Default sort by name
+            return a.name.localeCompare(b.name);
+          });
+
+          // Format the output
+          const formattedEntries = sortedEntries.map(entry => entry.summary !== undefined
+            ? `${entry.isSymbolicLink ? "[LINK]" : entry.isDirectory ? "[DIR]" : "[FILE]"} ${entry.name.padEnd(30)} ${entry.summary}`
+            : `${entry.isDirectory ? "[DIR]" : "[FILE]"} ${entry.name.padEnd(30)} ${
+              entry.isDirectory ? "" : formatSize(entry.size).padStart(10)
+            }`
+          );
+
+          // Add summary
+          const totalFiles = detailedEntries.filter(e => !e.isDirectory).length;
+          const totalDirs = detailedEntries.filter(e => e.isDirectory).length;
+          const totalSize = detailedEntries.reduce((sum, entry) => sum + (entry.isDirectory ? 0 : entry.size), 0);
+
+          const summary = [
+            "",
+            `Total: ${totalFiles} files, ${totalDirs} directories`,
+            `Combined size: ${formatSize(totalSize)}`
+          ];
+
+          return {
+            content: [{
+              type: "text",
+              text: [...formattedEntries, ...summary].join("\n")
+            }],
+          };
+        }
+
+        case "directory_tree": {
+          const parsed = DirectoryTreeArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for directory_tree: ${parsed.error}`);
+          }
+          const rootPath = parsed.data.path;
+          const tree = await buildDirectoryTree(rootPath, policy, {
+            excludePatterns: parsed.data.excludePatterns,
+            maxDepth: parsed.data.maxDepth,
+            maxEntries: parsed.data.maxEntries,
+            respectGitignore: parsed.data.respectGitignore,
+          });
+
+          let text: string;
+          if (parsed.data.format === 'text') {
+            const rootTruncation = tree.truncatedDirectories.find(dir => dir.path === '.');
+            text = [
+              formatDirectoryTree(tree.entries),
+              ...(rootTruncation ? [describeTreeTruncation(rootTruncation)] : []),
+            ].filter(Boolean).join('\n');
+          } else {
+            text = JSON.stringify(tree.entries, null, 2);
+          }
+
+          const content = [{ type: "text", text }];
+          if (tree.ignoredEntries > 0) {
+            content.push({ type: "text", text: formatIgnoredEntriesNote(tree.ignoredEntries) });
+          }
+          if (tree.truncatedDirectories.length > 0) {
+            content.push({
+              type: "text",
+              text: `Showing ${tree.totalEntries} entries. Directories with entries not shown (call directory_tree on them to see more):\n` +
+                tree.truncatedDirectories
+                  .map(dir => `${path.join(rootPath, dir.path)}: ${dir.omittedEntries} not shown (${dir.reason} reached)`)
+                  .join('\n'),
+            });
+          }
+          return { content };
+        }
+
+        case "move_file": {
+          const parsed = MoveFileArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for move_file: ${parsed.error}`);
+          }
+          const validSourcePath = await validatePath(parsed.data.source, policy, 'delete');
+          const validDestPath = await validatePath(parsed.data.destination, policy, 'write');
+          await audited("move_file", [validSourcePath, validDestPath], async () => {
+            // A file already at the destination is replaced, so keep a snapshot of it
+            await notifyBeforeFileRemoval(validDestPath);
+            await fs.rename(validSourcePath, validDestPath);
+          });
+          return {
+            content: [{ type: "text", text: `Successfully moved ${parsed.data.source} to ${parsed.data.destination}` }],
+          };
+        }
+
+        case "copy_path": {
+          const parsed = CopyPathArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for copy_path: ${parsed.error}`);
+          }
+          const validSourcePath = await validatePath(parsed.data.source, policy);
+          const validDestPath = await validatePath(parsed.data.destination, policy, 'write');
+          await audited("copy_path", [validDestPath], () => copyPath(validSourcePath, validDestPath, policy, parsed.data.overwrite));
+          return {
+            content: [{ type: "text", text: `Successfully copied ${parsed.data.source} to ${parsed.data.destination}` }],
+          };
+        }
+
+        case "delete_path": {
+          const parsed = DeletePathArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for delete_path: ${parsed.error}`);
+          }
+          // Act on the entry itself, so that a symlink is deleted even when its target is
+          // outside the allowed directories or missing, and its target is left alone
+          const entryPath = await validateEntryPath(parsed.data.path, policy, 'delete');
+          if (policy.directories().includes(entryPath)) {
+            throw new Error(`Cannot delete an allowed directory itself: ${entryPath}`);
+          }
+          await fs.lstat(entryPath);
+
+          if (parsed.data.trash) {
+            const entry = await audited("delete_path", [entryPath], () => moveToTrash(entryPath, policy.directories()));
+            return {
+              content: [{ type: "text", text: `Moved ${parsed.data.path} to trash (id: ${entry.id})` }],
+            };
+          }
+          await audited("delete_path", [entryPath], () => deletePath(entryPath, parsed.data.confirm));
+          return {
+            content: [{ type: "text", text: `Successfully deleted ${parsed.data.path}` }],
+          };
+        }
+
+        case "list_trash": {
+          const parsed = ListTrashArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for list_trash: ${parsed.error}`);
+          }
+          let roots = policy.directories();
+          if (parsed.data.path) {
+            const validPath = await validatePath(parsed.data.path, policy);
+            roots = policy.directories().filter(dir => isPathWithinAllowedDirectories(validPath, [dir]));
+          }
+          const entries = await listTrash(roots);
+          const formatted = entries.map(entry =>
+            `${entry.id} ${entry.isDirectory ? "[DIR]" : "[FILE]"} ${entry.originalPath} (deleted ${entry.deletedAt})`
+          );
+          return {
+            content: [{ type: "text", text: formatted.length > 0 ? formatted.join("\n") : "Trash is empty" }],
+          };
+        }
+
+        case "restore_from_trash": {
+          const parsed = RestoreFromTrashArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for restore_from_trash: ${parsed.error}`);
+          }
+          const entry = await findTrashEntry(parsed.data.id, policy.directories());
+          const validDestPath = await validatePath(parsed.data.destination ?? entry.originalPath, policy, 'write');
+          await audited("restore_from_trash", [validDestPath], () => restoreFromTrash(entry, validDestPath));
+          return {
+            content: [{ type: "text", text: `Restored ${entry.originalPath} to ${validDestPath}` }],
+          };
+        }
+
+        case "archive_create": {
+          const parsed = ArchiveCreateArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for archive_create: ${parsed.error}`);
+          }
+          const validArchivePath = await validatePath(parsed.data.path, policy, 'write');
+          const validSources = await Promise.all(parsed.data.sources.map(source => validatePath(source, policy)));
+          const validBaseDir = parsed.data.baseDir ? await validatePath(parsed.data.baseDir, policy) : undefined;
+          const entries = await audited("archive_create", [validArchivePath], () => createArchive(validArchivePath, validSources, {
+            format: parsed.data.format,
+            baseDir: validBaseDir,
+            overwrite: parsed.data.overwrite,
+          }));
+          return {
+            content: [{ type: "text", text: `Created ${parsed.data.path} with ${summarizeArchive(entries)}` }],
+          };
+        }
+
+        case "archive_list": {
+          const parsed = ArchiveListArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for archive_list: ${parsed.error}`);
+          }
+          const validPath = await validatePath(parsed.data.path, policy);
+          // Listing a huge archive would exhaust memory as surely as extracting it
+          const entries = await listArchive(validPath, parsed.data.format, DEFAULT_EXTRACTION_LIMITS.maxEntries);
+          const formatted = entries.map(formatArchiveEntry);
+          formatted.push('', summarizeArchive(entries));
+          return {
+            content: [{ type: "text", text: formatted.join("\n") }],
+          };
+        }
+
+        case "archive_extract": {
+          const parsed = ArchiveExtractArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for archive_extract: ${parsed.error}`);
+          }
+          const validArchivePath = await validatePath(parsed.data.path, policy);
+          const validDestPath = await validatePath(parsed.data.destination, policy, 'write');
+          const result = await audited("archive_extract", [validDestPath], () => extractArchive(validArchivePath, validDestPath, policy.entries(), {
+            format: parsed.data.format,
+            overwrite: parsed.data.overwrite,
+            limits: { maxTotalBytes: parsed.data.maxTotalBytes, maxEntries: parsed.data.maxEntries },
+          }));
+          const skipped = result.skipped > 0 ? `, skipped ${result.skipped} existing` : '';
+          return {
+            content: [{
+              type: "text",
+              text: `Extracted ${result.extracted} entries (${formatSize(result.totalBytes)}) to ${parsed.data.destination}${skipped}`,
+            }],
+          };
+        }
+
+        case "search_files": {
+          const parsed = SearchFilesArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for search_files: ${parsed.error}`);
+          }
+          const validPath = await validatePath(parsed.data.path, policy);
+          const results = await searchFilesWithValidation(validPath, parsed.data.pattern, policy, {
+            excludePatterns: parsed.data.excludePatterns,
+            respectGitignore: parsed.data.respectGitignore,
+          });
+          const content = [{ type: "text", text: results.paths.length > 0 ? results.paths.join("\n") : "No matches found" }];
+          if (results.ignoredEntries > 0) {
+            content.push({ type: "text", text: formatIgnoredEntriesNote(results.ignoredEntries) });
+          }
+          return { content };
+        }
+
+        case "grep_files": {
+          const parsed = GrepFilesArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for grep_files: ${parsed.error}`);
+          }
+          const validPath = await validatePath(parsed.data.path, policy);
+          const { pattern, ...options } = parsed.data;
+          // Every file searched counts against the session's read limit, and files
+          // over the per-call limit are skipped rather than read
+          readBudget.assertAvailable();
+          const result = await grepFilesWithValidation(validPath, pattern, policy, {
+            ...options,
+            maxFileBytes: readBudget.limits.maxReadBytes,
+            maxTotalBytes: readBudget.sessionAvailable(),
+          });
+          readBudget.consume(result.bytesScanned);
+
+          const blocks = result.matches.map(match => [
+            ...match.before.map((line, i) => `${match.path}-${match.lineNumber - match.before.length + i}-${line}`),
+            `${match.path}:${match.lineNumber}:${match.line}`,
+            ...match.after.map((line, i) => `${match.path}-${match.lineNumber + i + 1}-${line}`),
+          ].join("\n"));
+          const hasContext = parsed.data.contextBefore > 0 || parsed.data.contextAfter > 0;
+          const summary = [
+            "",
+            `Found ${result.matches.length} matches in ${result.filesSearched} files searched` +
+              (result.binaryFilesSkipped > 0 ? ` (${result.binaryFilesSkipped} binary files skipped)` : ""),
+          ];
+          if (result.truncated) {
+            summary.push(`Results truncated at ${parsed.data.maxResults} matches; narrow the search to see more`);
+          }
+          if (result.largeFilesSkipped > 0) {
+            summary.push(`${result.largeFilesSkipped} ${result.largeFilesSkipped === 1 ? 'file was' : 'files were'} skipped ` +
+              `for being larger than the ${formatSize(readBudget.limits.maxReadBytes)} per-call read limit`);
+          }
+          if (result.stoppedAtByteLimit) {
+            summary.push(`Search stopped at this session's ${formatSize(readBudget.limits.maxSessionBytes)} read limit`);
+          }
 
-                if (entry.isDirectory()) {
-                    const subPath = path.join(currentPath, entry.name);
-                    entryData.children = await buildTree(subPath, excludePatterns);
-                }
+          return {
+            content: [{
+              type: "text",
+              text: result.matches.length > 0
+                ? [blocks.join(hasContext ? "\n--\n" : "\n"), ...summary].join("\n")
+                // Still say which files were not searched
+                : ["No matches found", ...summary.slice(2)].join("\n")
+            }],
+          };
+        }
 
-                result.push(entryData);
+        case "get_file_info": {
+          const parsed = GetFileInfoArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for get_file_info: ${parsed.error}`);
+          }
+          const { path: requestedPath, paths } = parsed.data;
+          if ((requestedPath === undefined) === (paths === undefined)) {
+            throw new Error('Provide either path or paths, but not both');
+          }
+          if (requestedPath !== undefined) {
+            const info = await getDetailedFileInfo(await validateInfoPath(requestedPath, policy));
+            return {
+              content: [{ type: "text", text: formatDetailedFileInfo(info) }],
+            };
+          }
+          const results = await Promise.all(
+            paths!.map(async (filePath: string) => {
+              try {
+                const info = await getDetailedFileInfo(await validateInfoPath(filePath, policy));
+                return `${filePath}:\n${formatDetailedFileInfo(info)}`;
+              } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                return `${filePath}: Error - ${errorMessage}`;
+              }
+            }),
+          );
+          return {
+            content: [{ type: "text", text: results.join("\n---\n") }],
+          };
+        }
+
+        case "hash_files": {
+          const parsed = HashFilesArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for hash_files: ${parsed.error}`);
+          }
+          const { paths, algorithm, verify, baseDir } = parsed.data;
+          if ((paths === undefined) === (verify === undefined)) {
+            throw new Error('Provide either paths to hash or a verify manifest, but not both');
+          }
+
+          if (verify !== undefined) {
+            if (baseDir === undefined) {
+              throw new Error('baseDir is required with verify, to resolve the paths in the manifest');
             }
+            const validBaseDir = await validatePath(baseDir, policy);
+            const { algorithm: manifestAlgorithm, results } = await verifyManifest(verify, validBaseDir, policy);
+            return {
+              content: [{ type: "text", text: formatVerifyReport(manifestAlgorithm, results) }],
+            };
+          }
 
-            return result;
+          const sections: string[] = [];
+          const fileLines: string[] = [];
+          for (const requestedPath of paths!) {
+            const validPath = await validatePath(requestedPath, policy);
+            if (!(await fs.stat(validPath)).isDirectory()) {
+              fileLines.push(formatManifest([{ path: requestedPath, hash: await hashFileContent(validPath, algorithm) }]));
+              continue;
+            }
+            const { entries, skipped } = await hashDirectory(validPath, policy.directories(), algorithm, {
+              respectGitignore: parsed.data.respectGitignore,
+            });
+            const skippedNote = skipped.length > 0 ? `, skipped ${skipped.length} symlinks or special files` : '';
+            sections.push([`# ${requestedPath}: ${entries.length} files, ${algorithm}${skippedNote}`, formatManifest(entries)]
+              .filter(Boolean).join('\n'));
+          }
+          if (fileLines.length > 0) {
+            sections.unshift(fileLines.join('\n'));
+          }
+          return {
+            content: [{ type: "text", text: sections.join('\n\n') }],
+          };
         }
 
-        const treeData = await buildTree(rootPath, parsed.data.excludePatterns);
-        return {
+        case "create_checkpoint": {
+          const parsed = CreateCheckpointArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for create_checkpoint: ${parsed.error}`);
+          }
+          const checkpoint = await snapshotStore.createCheckpoint(parsed.data.name, sessionId);
+          return {
             content: [{
-                type: "text",
-                text: JSON.stringify(treeData, null, 2)
+              type: "text",
+              text: `Created checkpoint ${checkpoint.id}${checkpoint.name ? ` (${checkpoint.name})` : ''}. ` +
+                `Use restore_snapshot with checkpoint "${checkpoint.id}" to return to it`,
             }],
-        };
-      }
+          };
+        }
 
-      case "move_file": {
-        const parsed = MoveFileArgsSchema.safeParse(args);
-        if (!parsed.success) {
-          throw new Error(`Invalid arguments for move_file: ${parsed.error}`);
+        case "list_snapshots": {
+          const parsed = ListSnapshotsArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for list_snapshots: ${parsed.error}`);
+          }
+          const filterPath = parsed.data.path !== undefined ? await validatePath(parsed.data.path, policy) : undefined;
+          const { snapshots, checkpoints } = await snapshotStore.list(sessionId);
+          const allowedDirectories = policy.directories();
+          const visible = snapshots
+            .filter(snapshot => isPathWithinAllowedDirectories(snapshot.path, allowedDirectories))
+            .filter(snapshot => !filterPath || isPathWithinAllowedDirectories(snapshot.path, [filterPath]))
+            .slice(0, parsed.data.limit);
+          if (visible.length === 0 && checkpoints.length === 0) {
+            return {
+              content: [{ type: "text", text: "No snapshots or checkpoints" }],
+            };
+          }
+          // Show checkpoints between the snapshots taken before and after them
+          const lines = [
+            ...visible.map(snapshot => ({ seq: snapshot.seq, text: formatSnapshot(snapshot) })),
+            ...checkpoints.map(checkpoint => ({
+              seq: checkpoint.seq,
+              text: `[CHECKPOINT] ${checkpoint.id}  ${checkpoint.createdAt}${checkpoint.name ? `  ${checkpoint.name}` : ''}`,
+            })),
+          ].sort((a, b) => b.seq - a.seq);
+          return {
+            content: [{ type: "text", text: lines.map(line => line.text).join("\n") }],
+          };
         }
-        const validSourcePath = await validatePath(parsed.data.source);
-        const validDestPath = await validatePath(parsed.data.destination);
-        await fs.rename(validSourcePath, validDestPath);
-        return {
-          content: [{ type: "text", text: `Successfully moved ${parsed.data.source} to ${parsed.data.destination}` }],
-        };
-      }
 
-      case "search_files": {
-        const parsed = SearchFilesArgsSchema.safeParse(args);
-        if (!parsed.success) {
-          throw new Error(`Invalid arguments for search_files: ${parsed.error}`);
+        case "restore_snapshot": {
+          const parsed = RestoreSnapshotArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for restore_snapshot: ${parsed.error}`);
+          }
+          const { id, checkpoint, dryRun } = parsed.data;
+          if ((id === undefined) === (checkpoint === undefined)) {
+            throw new Error('Provide either a snapshot id or a checkpoint, but not both');
+          }
+          const restore = (preview: boolean) => id !== undefined
+            ? snapshotStore.restoreSnapshot(id, policy, preview)
+            : snapshotStore.restoreCheckpoint(checkpoint!, policy, preview, sessionId);
+          // A dry run first finds the files to restore, so their state can be audited
+          let restored = await restore(true);
+          if (!dryRun) {
+            restored = await audited("restore_snapshot", restored.map(file => file.path), () => restore(false));
+          }
+          return {
+            content: [{
+              type: "text",
+              text: restored.length === 0
+                ? (id !== undefined ? `Snapshot ${id} has no file to restore` : `No files were changed since checkpoint ${checkpoint}`)
+                : restored.map(file => formatRestoredFile(file, dryRun)).join("\n"),
+            }],
+          };
         }
-        const validPath = await validatePath(parsed.data.path);
-        const results = await searchFilesWithValidation(validPath, parsed.data.pattern, allowedDirectories, { excludePatterns: parsed.data.excludePatterns });
-        return {
-          content: [{ type: "text", text: results.length > 0 ? results.join("\n") : "No matches found" }],
-        };
-      }
 
-      case "get_file_info": {
-        const parsed = GetFileInfoArgsSchema.safeParse(args);
-        if (!parsed.success) {
-          throw new Error(`Invalid arguments for get_file_info: ${parsed.error}`);
+        case "get_audit_log": {
+          const parsed = GetAuditLogArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for get_audit_log: ${parsed.error}`);
+          }
+          if (!auditLog) {
+            throw new Error('Audit logging is not enabled. Start the server with --audit-log <file> to record changes');
+          }
+          const parseTime = (value: string | undefined, name: string) => {
+            if (value === undefined) return undefined;
+            const time = new Date(value);
+            if (isNaN(time.getTime())) {
+              throw new Error(`Invalid ${name} time: ${value}`);
+            }
+            return time;
+          };
+          // The log is shared by every session, so only show changes within this session's
+          // directories. Records hold resolved paths, which validation also produces
+          const filterPath = parsed.data.path !== undefined ? await validatePath(parsed.data.path, policy) : undefined;
+          const records = await auditLog.query({
+            path: filterPath,
+            within: policy.directories(),
+            tool: parsed.data.tool,
+            since: parseTime(parsed.data.since, 'since'),
+            until: parseTime(parsed.data.until, 'until'),
+            limit: parsed.data.limit,
+          });
+          return {
+            content: [{
+              type: "text",
+              text: records.length === 0
+                ? "No audit log entries match"
+                : `${records.length} most recent matching ${records.length === 1 ? 'entry' : 'entries'}, oldest first:\n` +
+                  records.map(record => JSON.stringify(record)).join("\n"),
+            }],
+          };
         }
-        const validPath = await validatePath(parsed.data.path);
-        const info = await getFileStats(validPath);
-        return {
-          content: [{ type: "text", text: Object.entries(info)
-            .map(([key, value]) => `${key}: ${value}`)
-            .join("\n") }],
-        };
-      }
 
-      case "list_allowed_directories": {
-        return {
-          content: [{
-            type: "text",
-            text: `Allowed directories:\n${allowedDirectories.join('\n')}`
-          }],
-        };
-      }
+        case "list_allowed_directories": {
+          return {
+            content: [{
+              type: "text",
+              text: `Allowed directories:\n${policy.entries().map(formatAllowedDirectory).join('\n')}`
+            }],
+          };
+        }
 
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+        default:
+          throw new Error(`Unknown tool: ${name}`);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: "text", text: `Error: ${errorMessage}` }],
+        isError: true,
+      };
     }
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
+  });
+
+  // Resource handlers: files in the allowed directories are exposed as file:// resources
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    return await listFileResources(policy.directories(), request.params?.cursor);
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
     return {
-      content: [{ type: "text", text: `Error: ${errorMessage}` }],
-      isError: true,
+      resourceTemplates: [{
+        uriTemplate: "file://{+path}",
+        name: "Files in allowed directories",
+        description: "Any file or directory within the allowed directories, addressed by its absolute path",
+      }],
     };
-  }
-});
+  });
 
-// Updates allowed directories based on MCP client roots
-async function updateAllowedDirectoriesFromRoots(requestedRoots: Root[]) {
-  const validatedRootDirs = await getValidRootDirectories(requestedRoots);
-  if (validatedRootDirs.length > 0) {
-    allowedDirectories = [...validatedRootDirs];
-    setAllowedDirectories(allowedDirectories); // Update the global state in lib.ts
-    console.error(`Updated allowed directories from MCP roots: ${validatedRootDirs.length} valid directories`);
-  } else {
-    console.error("No valid root directories provided by client");
-  }
-}
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const validPath = await validatePath(resourceUriToPath(request.params.uri), policy);
+    readBudget.assertAvailable();
+    const stats = await fs.stat(validPath);
+    const overLimit = stats.isFile() ? readBudget.overLimitReason(stats.size) : null;
+    if (overLimit) {
+      await refuseOversizedRead(validPath, `File is ${formatSize(stats.size)}, ${overLimit}`,
+        "Read part of it with the read_text_file tool");
+    }
+    const contents = await readFileResource(validPath, request.params.uri);
+    readBudget.consume(stats.isFile() ? stats.size : 0);
+    return { contents: [contents] };
+  });
 
-// Handles dynamic roots updates during runtime, when client sends "roots/list_changed" notification, server fetches the updated roots and replaces all allowed directories with the new roots.
-server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
-  try {
-    // Request the updated roots list from the client
-    const response = await server.listRoots();
-    if (response && 'roots' in response) {
-      await updateAllowedDirectoriesFromRoots(response.roots);
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const validPath = await validatePath(resourceUriToPath(request.params.uri), policy);
+    await resourceWatcher.subscribe(request.params.uri, validPath);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    resourceWatcher.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  // Updates allowed directories based on MCP client roots, combined with the
+  // command-line directories according to the roots policy
+  async function updateAllowedDirectoriesFromRoots(requestedRoots: Root[]) {
+    const validatedRootDirs = await getValidRootDirectories(requestedRoots);
+    const { entries, rejected } = mergeRootDirectories(validatedRootDirs, configuredDirectories, rootsPolicy);
+    for (const dir of rejected) {
+      console.error(`Ignoring root outside the command-line directories (roots policy ${rootsPolicy}): ${dir}`);
+    }
+    if (rejected.length < validatedRootDirs.length) {
+      policy.set(entries);
+      resourceWatcher.setAllowedDirectories(policy.directories()); // Stop watching paths that are no longer allowed
+      console.error(`Updated allowed directories from MCP roots (roots policy ${rootsPolicy}):\n  ${entries.map(formatAllowedDirectory).join('\n  ')}`);
+    } else {
+      console.error("No valid root directories provided by client");
     }
-  } catch (error) {
-    console.error("Failed to request roots from client:", error instanceof Error ? error.message : String(error));
   }
-});
 
-// Handles post-initialization setup, specifically checking for and fetching MCP roots.
-server.oninitialized = async () => {
-  const clientCapabilities = server.getClientCapabilities();
-
-  if (clientCapabilities?.roots) {
+  // Handles dynamic roots updates during runtime, when client sends "roots/list_changed" notification, server fetches the updated roots and recomputes the allowed directories from them.
+  server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
     try {
+      // Request the updated roots list from the client
       const response = await server.listRoots();
       if (response && 'roots' in response) {
         await updateAllowedDirectoriesFromRoots(response.roots);
-      } else {
-        console.error("Client returned no roots set, keeping current settings");
       }
     } catch (error) {
-      console.error("Failed to request initial roots from client:", error instanceof Error ? error.message : String(error));
+      console.error("Failed to request roots from client:", error instanceof Error ? error.message : String(error));
     }
-  } else {
-    if (allowedDirectories.length > 0) {
-      console.error("Client does not support MCP Roots, using allowed directories set from server args:", allowedDirectories);
-    }else{
-      throw new Error(`Server cannot operate: No allowed directories available. Server was started without command-line directories and client either does not support MCP roots protocol or provided empty roots. Please either: 1) Start server with directory arguments, or 2) Use a client that supports MCP roots protocol and provides valid root directories.`);
+  });
+
+  // Handles post-initialization setup, specifically checking for and fetching MCP roots.
+  server.oninitialized = async () => {
+    const clientCapabilities = server.getClientCapabilities();
+
+    if (clientCapabilities?.roots) {
+      try {
+        const response = await server.listRoots();
+        if (response && 'roots' in response) {
+          await updateAllowedDirectoriesFromRoots(response.roots);
+        } else {
+          console.error("Client returned no roots set, keeping current settings");
+        }
+      } catch (error) {
+        console.error("Failed to request initial roots from client:", error instanceof Error ? error.message : String(error));
+      }
+    } else {
+      if (policy.directories().length > 0) {
+        console.error("Client does not support MCP Roots, using allowed directories set from server args:", policy.directories());
+      }else{
+        throw new Error(`Server cannot operate: No allowed directories available. Server was started without command-line directories and client either does not support MCP roots protocol or provided empty roots. Please either: 1) Start server with directory arguments, or 2) Use a client that supports MCP roots protocol and provides valid root directories.`);
+      }
+    }
+  };
+
+  return server;
+}
+
+// Serves one session per HTTP client, each with its own allowed directories
+async function runHttpServer(port: number) {
+  const host = serverOptions.httpHost ?? DEFAULT_HTTP_HOST;
+  const authToken = process.env.MCP_FILESYSTEM_AUTH_TOKEN || undefined;
+  if (!authToken) {
+    if (!isLoopbackHost(host)) {
+      console.error(`Error: refusing to listen on ${host} without authentication. Set MCP_FILESYSTEM_AUTH_TOKEN to require a bearer token`);
+      process.exit(1);
     }
+    console.error("Warning: MCP_FILESYSTEM_AUTH_TOKEN is not set, so any local process can connect");
   }
-};
+
+  const httpServer = await startHttpServer(() => {
+    return createServer(createAccessPolicy(configuredDirectories), randomUUID());
+  }, {
+    host,
+    port,
+    authToken,
+    sessionIdleTimeout: serverOptions.httpIdleTimeout,
+    maxSessions: serverOptions.httpMaxSessions,
+  });
+  const shutdown = () => {
+    httpServer.close().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  const displayHost = host.includes(':') ? `[${host}]` : host;
+  console.error(`Secure MCP Filesystem Server running on http://${displayHost}:${httpServer.port}${MCP_ENDPOINT_PATH}`);
+}
 
 // Start server
 async function runServer() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error("Secure MCP Filesystem Server running on stdio");
-  if (allowedDirectories.length === 0) {
+  if (serverOptions.httpPort !== undefined) {
+    await runHttpServer(serverOptions.httpPort);
+  } else {
+    const server = createServer(createAccessPolicy(configuredDirectories));
+    const transport = new StdioServerTransport();
+    await server.connect(transport);
+    console.error("Secure MCP Filesystem Server running on stdio");
+  }
+  if (configuredPaths.length === 0) {
     console.error("Started without allowed directories - waiting for client to provide roots via MCP protocol");
   }
+  console.error(`Client roots are combined with command-line directories using the ${rootsPolicy} roots policy`);
 }
 
 runServer().catch((error) => {
@@ -1,23 +1,58 @@
 import fs from "fs/promises";
 import path from "path";
 import os from 'os';
-import { randomBytes } from 'crypto';
+import { randomBytes, createHash } from 'crypto';
+import { createReadStream } from 'fs';
 import { diffLines, createTwoFilesPatch } from 'diff';
 import { minimatch } from 'minimatch';
+import iconv from 'iconv-lite';
 import { normalizePath, expandHome } from './path-utils.js';
-import { isPathWithinAllowedDirectories } from './path-validation.js';
+import {
+  isPathWithinAllowedDirectories,
+  type AccessPolicy,
+  type Permission,
+} from './path-validation.js';
+import { decodeText, detectEncoding, encodeText, isSupportedEncoding, assertEncodingKnown, type TextFormat } from './encoding-utils.js';
+import { loadIgnoreRules, loadIgnoreRulesForRoot, isIgnored, type IgnoreRules } from './ignore-utils.js';
+import { findClosestMatches, formatCharDiff, formatSimilarity, type CandidateMatch } from './match-utils.js';
 
-// Global allowed directories - set by the main module
-let allowedDirectories: string[] = [];
+// Called with the path of each file that is about to be written or deleted by a
+// tool, e.g. to keep a snapshot of its previous contents. Failures are logged and
+// do not stop the write
+let beforeFileChange: ((filePath: string) => Promise<void>) | null = null;
 
-// Function to set allowed directories from the main module
-export function setAllowedDirectories(directories: string[]): void {
-  allowedDirectories = [...directories];
+export function setBeforeFileChangeHook(hook: ((filePath: string) => Promise<void>) | null): void {
+  beforeFileChange = hook;
 }
 
-// Function to get current allowed directories
-export function getAllowedDirectories(): string[] {
-  return [...allowedDirectories];
+async function notifyBeforeFileChange(filePaths: string[]): Promise<void> {
+  if (!beforeFileChange) return;
+  for (const filePath of filePaths) {
+    try {
+      await beforeFileChange(filePath);
+    } catch (error) {
+      console.error(`Could not prepare ${filePath} for writing:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+/**
+ * Notifies the before-change hook about every existing file at or below a path that
+ * is about to be deleted or replaced. Symlinks are not followed, and nothing is
+ * reported for a path that does not exist.
+ *
+ * @param targetPath - Validated path that is about to be removed or overwritten
+ */
+export async function notifyBeforeFileRemoval(targetPath: string): Promise<void> {
+  if (!beforeFileChange) return;
+  const stats = await fs.lstat(targetPath).catch(() => null);
+  if (stats?.isFile()) {
+    await notifyBeforeFileChange([targetPath]);
+  } else if (stats?.isDirectory()) {
+    for (const entry of await fs.readdir(targetPath)) {
+      await notifyBeforeFileRemoval(path.join(targetPath, entry));
+    }
+  }
 }
 
 // Type definitions
@@ -31,8 +66,27 @@ interface FileInfo {
   permissions: string;
 }
 
+export type OverwritePolicy = 'fail' | 'overwrite' | 'skip';
+
+export interface FileVersion {
+  hash: string;
+  mtime: string;
+}
+
+export interface ExpectedVersion {
+  expectedHash?: string;
+  expectedMtime?: string;
+}
+
 export interface SearchOptions {
   excludePatterns?: string[];
+  respectGitignore?: boolean;
+}
+
+export interface SearchFilesResult {
+  paths: string[];
+  // Entries skipped because of .gitignore, .ignore or global git excludes
+  ignoredEntries: number;
 }
 
 export interface SearchResult {
@@ -40,6 +94,86 @@ export interface SearchResult {
   isDirectory: boolean;
 }
 
+export interface TreeTruncation {
+  reason: 'maxDepth' | 'maxEntries';
+  omittedEntries: number;
+}
+
+export interface TreeEntry {
+  name: string;
+  type: 'file' | 'directory';
+  children?: TreeEntry[];
+  truncated?: TreeTruncation;
+}
+
+export interface DirectoryTreeOptions {
+  excludePatterns?: string[];
+  maxDepth?: number;
+  maxEntries?: number;
+  respectGitignore?: boolean;
+}
+
+export interface DirectoryTreeResult {
+  entries: TreeEntry[];
+  totalEntries: number;
+  ignoredEntries: number;
+  // Directories whose listing was cut short, relative to the tree root ('.' for the root itself)
+  truncatedDirectories: ({ path: string } & TreeTruncation)[];
+}
+
+export interface LineRangeResult {
+  content: string;
+  startLine: number;
+  endLine: number;
+  totalLines: number;
+  hasMore: boolean;
+}
+
+export interface ByteRangeResult {
+  content: string;
+  offset: number;
+  bytesRead: number;
+  totalBytes: number;
+  hasMore: boolean;
+}
+
+export interface GrepOptions {
+  literal?: boolean;
+  caseInsensitive?: boolean;
+  includePatterns?: string[];
+  excludePatterns?: string[];
+  contextBefore?: number;
+  contextAfter?: number;
+  maxMatchesPerFile?: number;
+  maxResults?: number;
+  /** Files larger than this are skipped rather than read */
+  maxFileBytes?: number;
+  /** Most bytes to read in total. The search stops before a file that would exceed it */
+  maxTotalBytes?: number;
+}
+
+export interface GrepMatch {
+  path: string;
+  lineNumber: number;
+  line: string;
+  before: string[];
+  after: string[];
+}
+
+export interface GrepResult {
+  matches: GrepMatch[];
+  filesSearched: number;
+  binaryFilesSkipped: number;
+  /** Files skipped because they are larger than maxFileBytes */
+  largeFilesSkipped: number;
+  /** Bytes of file content read */
+  bytesScanned: number;
+  /** Set when maxResults was reached */
+  truncated: boolean;
+  /** Set when the search stopped at maxTotalBytes */
+  stoppedAtByteLimit: boolean;
+}
+
 // Pure Utility Functions
 export function formatSize(bytes: number): string {
   const units = ['B', 'KB', 'MB', 'GB', 'TB'];
@@ -73,13 +207,36 @@ export function createUnifiedDiff(originalContent: string, newContent: string, f
 }
 
 // Security & Validation Functions
-export async function validatePath(requestedPath: string): Promise<string> {
+
+// Security: The most specific allowed directory containing a path decides which
+// operations are permitted there, so a writable subdirectory can be mounted
+// inside a read-only one
+function assertPermission(resolvedPath: string, policy: AccessPolicy, operation: Permission): void {
+  const { root, permissions } = policy.permissionsAt(normalizePath(resolvedPath));
+  if (!permissions.includes(operation)) {
+    throw new Error(`Access denied - ${operation} not permitted in ${root ?? resolvedPath} (allowed: ${permissions.join(', ') || 'none'})`);
+  }
+}
+
+/**
+ * Resolves a requested path and checks it against an access policy: the path, the
+ * real path behind any symlinks and, for paths that do not exist yet, the parent
+ * directory must be allowed, and the operation must be permitted there.
+ *
+ * @param requestedPath - Path as given by the client, possibly relative or starting with ~
+ * @param policy - Allowed directories of the session making the request
+ * @param operation - Operation that will be performed on the path
+ * @returns The resolved path
+ * @throws If access is denied or the parent directory of a new path does not exist
+ */
+export async function validatePath(requestedPath: string, policy: AccessPolicy, operation: Permission = 'read'): Promise<string> {
   const expandedPath = expandHome(requestedPath);
   const absolute = path.isAbsolute(expandedPath)
     ? path.resolve(expandedPath)
     : path.resolve(process.cwd(), expandedPath);
 
   const normalizedRequested = normalizePath(absolute);
+  const allowedDirectories = policy.directories();
 
   // Security: Check if path is within allowed directories before any file operations
   const isAllowed = isPathWithinAllowedDirectories(normalizedRequested, allowedDirectories);
@@ -89,13 +246,14 @@ export async function validatePath(requestedPath: string): Promise<string> {
 
   // Security: Handle symlinks by checking their real path to prevent symlink attacks
   // This prevents attackers from creating symlinks that point outside allowed directories
+  let resolvedPath: string;
   try {
     const realPath = await fs.realpath(absolute);
     const normalizedReal = normalizePath(realPath);
     if (!isPathWithinAllowedDirectories(normalizedReal, allowedDirectories)) {
       throw new Error(`Access denied - symlink target outside allowed directories: ${realPath} not in ${allowedDirectories.join(', ')}`);
     }
-    return realPath;
+    resolvedPath = realPath;
   } catch (error) {
     // Security: For new files that don't exist yet, verify parent directory
     // This ensures we can't create files in unauthorized locations
@@ -107,13 +265,44 @@ export async function validatePath(requestedPath: string): Promise<string> {
         if (!isPathWithinAllowedDirectories(normalizedParent, allowedDirectories)) {
           throw new Error(`Access denied - parent directory outside allowed directories: ${realParentPath} not in ${allowedDirectories.join(', ')}`);
         }
-        return absolute;
       } catch {
         throw new Error(`Parent directory does not exist: ${parentDir}`);
       }
+      resolvedPath = absolute;
+    } else {
+      throw error;
     }
-    throw error;
   }
+
+  assertPermission(resolvedPath, policy, operation);
+  return resolvedPath;
+}
+
+// Validates a path for writing a file that may be created in directories that do not
+// exist yet. For such files the nearest existing ancestor is validated instead.
+export async function validateCreatablePath(target: string, policy: AccessPolicy): Promise<string> {
+  let ancestor = path.dirname(target);
+  while (!await fs.stat(ancestor).then(() => true, () => false)) {
+    if (path.dirname(ancestor) === ancestor) {
+      throw new Error(`No existing parent directory for ${target}`);
+    }
+    ancestor = path.dirname(ancestor);
+  }
+  if (ancestor === path.dirname(target)) {
+    return validatePath(target, policy, 'write');
+  }
+  const validAncestor = await validatePath(ancestor, policy, 'write');
+  return path.join(validAncestor, path.relative(ancestor, target));
+}
+
+// Validates a path without following a symlink in its final component, for
+// operations that act on the directory entry itself (such as deleting a link)
+export async function validateEntryPath(requestedPath: string, policy: AccessPolicy, operation: Permission = 'read'): Promise<string> {
+  const absolute = path.resolve(expandHome(requestedPath));
+  const validParent = await validatePath(path.dirname(absolute), policy);
+  const entryPath = path.join(validParent, path.basename(absolute));
+  assertPermission(entryPath, policy, operation);
+  return entryPath;
 }
 
 
@@ -132,134 +321,598 @@ export async function getFileStats(filePath: string): Promise<FileInfo> {
 }
 
 export async function readFileContent(filePath: string, encoding: string = 'utf-8'): Promise<string> {
-  return await fs.readFile(filePath, encoding as BufferEncoding);
+  if (Buffer.isEncoding(encoding)) {
+    return await fs.readFile(filePath, encoding);
+  }
+  return decodeText(await fs.readFile(filePath), encoding).content;
+}
+
+// Reads a text file, detecting its encoding, BOM and line ending style so that
+// the same format can be used when writing it back
+export async function readTextFile(filePath: string, encoding?: string): Promise<{ content: string; format: TextFormat }> {
+  return decodeText(await fs.readFile(filePath), encoding);
+}
+
+// Reads a whole text file along with the version that identifies it, and remembers
+// the content so that a later conflicting write can show what changed
+export async function readTextFileWithVersion(
+  filePath: string,
+  encoding?: string
+): Promise<{ content: string; format: TextFormat; version: FileVersion }> {
+  const rawBytes = await fs.readFile(filePath);
+  const { content, format } = decodeText(rawBytes, encoding);
+  const version = await getFileVersion(filePath, rawBytes);
+  rememberFileVersion(filePath, version, normalizeLineEndings(content));
+  return { content, format, version };
+}
+
+// Security: Use atomic rename to prevent race conditions where symlinks
+// could be created between validation and write. Rename operations
+// replace the target file atomically and don't follow symlinks.
+async function replaceFileAtomically(filePath: string, data: string | Buffer): Promise<void> {
+  const tempPath = `${filePath}.${randomBytes(16).toString('hex')}.tmp`;
+  try {
+    await fs.writeFile(tempPath, data, 'utf-8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    try {
+      await fs.unlink(tempPath);
+    } catch {}
+    throw error;
+  }
+}
+
+// Content returned by recent full reads, so that a conflicting write can show what
+// changed on disk since then. Bounded so that large or many files are not kept around.
+const MAX_REMEMBERED_VERSIONS = 64;
+const MAX_REMEMBERED_CONTENT_LENGTH = 1024 * 1024;
+const rememberedVersions = new Map<string, FileVersion & { content: string }>();
+
+export function hashContent(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+// Returns the SHA-256 hash and modification time that identify the current contents
+// of a file. Pass the raw bytes if they have already been read.
+export async function getFileVersion(filePath: string, rawContent?: Buffer): Promise<FileVersion> {
+  const stats = await fs.stat(filePath);
+  return {
+    hash: rawContent ? hashContent(rawContent) : await hashFile(filePath),
+    mtime: stats.mtime.toISOString(),
+  };
+}
+
+// Remembers the content a caller was given for a file version
+export function rememberFileVersion(filePath: string, version: FileVersion, content: string): void {
+  rememberedVersions.delete(filePath);
+  if (content.length > MAX_REMEMBERED_CONTENT_LENGTH) {
+    return;
+  }
+  rememberedVersions.set(filePath, { ...version, content });
+  if (rememberedVersions.size > MAX_REMEMBERED_VERSIONS) {
+    rememberedVersions.delete(rememberedVersions.keys().next().value!);
+  }
+}
+
+function hasExpectedVersion(expected?: ExpectedVersion): expected is ExpectedVersion {
+  return Boolean(expected && (expected.expectedHash || expected.expectedMtime));
+}
+
+// Optimistic concurrency: refuses to touch a file that changed since the caller read it,
+// explaining what changed. This is a best-effort check made just before writing.
+async function assertExpectedVersion(
+  filePath: string,
+  expected: ExpectedVersion,
+  currentBytes?: Buffer,
+  proposedContent?: string
+): Promise<void> {
+  const expectedHash = expected.expectedHash?.replace(/^sha256:/i, '').toLowerCase();
+  const expectedMtime = expected.expectedMtime === undefined ? undefined : Date.parse(expected.expectedMtime);
+  if (expectedMtime !== undefined && Number.isNaN(expectedMtime)) {
+    throw new Error(`Invalid expectedMtime: ${expected.expectedMtime}. Use the ISO timestamp returned when reading the file`);
+  }
+
+  let bytes: Buffer;
+  let stats;
+  try {
+    bytes = currentBytes ?? await fs.readFile(filePath);
+    stats = await fs.stat(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`Conflict: ${filePath} no longer exists. Nothing was written`);
+    }
+    throw error;
+  }
+
+  const currentHash = hashContent(bytes);
+  const mismatches: string[] = [];
+  if (expectedHash && expectedHash !== currentHash) {
+    mismatches.push(`expected sha256 ${expectedHash}, found ${currentHash}`);
+  }
+  if (expectedMtime !== undefined && stats.mtime.getTime() !== expectedMtime) {
+    mismatches.push(`expected mtime ${new Date(expectedMtime).toISOString()}, found ${stats.mtime.toISOString()}`);
+  }
+  if (mismatches.length === 0) {
+    return;
+  }
+
+  const current = normalizeLineEndings(decodeText(bytes).content);
+  const remembered = rememberedVersions.get(filePath);
+  const readVersionKnown = remembered && (
+    (expectedHash && remembered.hash === expectedHash) ||
+    (expectedMtime !== undefined && Date.parse(remembered.mtime) === expectedMtime)
+  );
+  let details = 'Re-read the file and apply your change again.';
+  if (readVersionKnown) {
+    details += `\nChanges made on disk since you read it:\n` +
+      formatDiffBlock(createUnifiedDiff(remembered.content, current, filePath));
+  } else if (proposedContent !== undefined) {
+    details += `\nDifferences between the file on disk and your content:\n` +
+      formatDiffBlock(createUnifiedDiff(current, proposedContent, filePath));
+  }
+  throw new Error(
+    `Conflict: ${filePath} has changed since it was read (${mismatches.join('; ')}). Nothing was written. ${details}`
+  );
 }
 
-export async function writeFileContent(filePath: string, content: string): Promise<void> {
+export async function writeFileContent(
+  filePath: string,
+  content: string,
+  format?: TextFormat,
+  expected?: ExpectedVersion
+): Promise<void> {
+  const data = format ? encodeText(content, format) : content;
+  if (hasExpectedVersion(expected)) {
+    // The caller read an existing file, so it must still be there and unchanged
+    await assertExpectedVersion(filePath, expected, undefined, content);
+    await notifyBeforeFileChange([filePath]);
+    await replaceFileAtomically(filePath, data);
+    return;
+  }
+  await notifyBeforeFileChange([filePath]);
   try {
     // Security: 'wx' flag ensures exclusive creation - fails if file/symlink exists,
     // preventing writes through pre-existing symlinks
-    await fs.writeFile(filePath, content, { encoding: "utf-8", flag: 'wx' });
+    await fs.writeFile(filePath, data, { encoding: "utf-8", flag: 'wx' });
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
-      // Security: Use atomic rename to prevent race conditions where symlinks
-      // could be created between validation and write. Rename operations
-      // replace the target file atomically and don't follow symlinks.
-      const tempPath = `${filePath}.${randomBytes(16).toString('hex')}.tmp`;
-      try {
-        await fs.writeFile(tempPath, content, 'utf-8');
-        await fs.rename(tempPath, filePath);
-      } catch (renameError) {
-        try {
-          await fs.unlink(tempPath);
-        } catch {}
-        throw renameError;
-      }
+      await replaceFileAtomically(filePath, data);
     } else {
       throw error;
     }
   }
 }
 
+export async function copyPath(
+  source: string,
+  destination: string,
+  policy: AccessPolicy,
+  overwrite: OverwritePolicy = 'fail'
+): Promise<void> {
+  // Check up front so a failed directory copy does not leave a partial merge behind
+  if (overwrite === 'fail') {
+    let destinationExists = true;
+    try {
+      await fs.lstat(destination);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      destinationExists = false;
+    }
+    if (destinationExists) {
+      throw new Error(`Destination already exists: ${destination}`);
+    }
+  }
+
+  // Entries the copy creates, removed again if it fails partway
+  const created: string[] = [];
+  try {
+    await fs.cp(source, destination, {
+      recursive: true,
+      force: overwrite === 'overwrite',
+      errorOnExist: false,
+      // Security: Validate every entry so that symlinks pointing outside the
+      // allowed directories are rejected instead of being copied
+      filter: async (src: string, dest: string) => {
+        await validatePath(src, policy);
+        assertPermission(dest, policy, 'write');
+        const destStats = await fs.lstat(dest).catch(() => null);
+        if (!destStats) {
+          created.push(dest);
+        } else if (overwrite === 'overwrite' && destStats.isFile()) {
+          await notifyBeforeFileChange([dest]);
+        }
+        return true;
+      },
+    });
+  } catch (error) {
+    for (const entry of created.reverse()) {
+      await fs.rm(entry, { recursive: true, force: true }).catch(() => {});
+    }
+    throw error;
+  }
+}
+
+export async function deletePath(targetPath: string, confirm: boolean = false): Promise<void> {
+  const stats = await fs.lstat(targetPath);
+  if (!stats.isDirectory()) {
+    await notifyBeforeFileRemoval(targetPath);
+    await fs.unlink(targetPath);
+    return;
+  }
+
+  const entries = await fs.readdir(targetPath);
+  if (entries.length > 0 && !confirm) {
+    throw new Error(
+      `Directory is not empty: ${targetPath} contains ${entries.length} entries. ` +
+      `Set confirm to true to delete it recursively`
+    );
+  }
+  await notifyBeforeFileRemoval(targetPath);
+  await fs.rm(targetPath, { recursive: true });
+}
+
 
 // File Editing Functions
 interface FileEdit {
   oldText: string;
   newText: string;
+  // Which match to edit (1-based) when oldText appears more than once
+  occurrence?: number;
+  // Edit every match of oldText
+  replaceAll?: boolean;
 }
 
-export async function applyFileEdits(
-  filePath: string,
-  edits: FileEdit[],
-  dryRun: boolean = false
-): Promise<string> {
-  // Read file content and normalize line endings
-  const content = normalizeLineEndings(await fs.readFile(filePath, 'utf-8'));
+export interface MultiFileEdit {
+  path: string;
+  edits: FileEdit[];
+  // Encoding to read and write the file in, instead of the detected one
+  encoding?: string;
+}
+
+export interface EditMatchOptions {
+  // When oldText is not found, apply the edit to the one region at least this
+  // similar to it (0 to 1). Without it, such edits fail
+  fuzzyMatchThreshold?: number;
+}
+
+// Explains why an edit did not match, showing the closest region of the file and how
+// it differs from oldText so the caller can correct it
+function describeMissingMatch(oldText: string, normalizedOld: string, candidates: CandidateMatch[], threshold?: number): string {
+  const message = [`Could not find exact match for edit:\n${oldText}`];
+  const best = candidates[0];
+  if (best) {
+    const belowThreshold = threshold !== undefined ? `, below the fuzzyMatchThreshold of ${formatSimilarity(threshold)}` : '';
+    message.push(
+      '',
+      `Closest match is lines ${best.startLine}-${best.endLine} (${formatSimilarity(best.similarity)} similar${belowThreshold}). ` +
+        'Differences, with [-text-] only in oldText and {+text+} only in the file:',
+      formatCharDiff(normalizedOld, best.text)
+    );
+  }
+  return message.join('\n');
+}
+
+// 1-based line on which a character offset falls
+function lineNumberAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = content.indexOf('\n'); i !== -1 && i < offset; i = content.indexOf('\n', i + 1)) {
+    line++;
+  }
+  return line;
+}
+
+// Character offsets of every non-overlapping exact match of text
+function findExactMatches(content: string, text: string): number[] {
+  if (text === '') return [0];
+  const offsets: number[] = [];
+  for (let i = content.indexOf(text); i !== -1; i = content.indexOf(text, i + text.length)) {
+    offsets.push(i);
+  }
+  return offsets;
+}
+
+// Indices of every non-overlapping run of lines that equals oldLines when surrounding
+// whitespace is ignored
+function findWhitespaceFlexibleMatches(contentLines: string[], oldLines: string[]): number[] {
+  const starts: number[] = [];
+  for (let i = 0; i <= contentLines.length - oldLines.length; i++) {
+    if (oldLines.every((oldLine, j) => oldLine.trim() === contentLines[i + j].trim())) {
+      starts.push(i);
+      i += oldLines.length - 1;
+    }
+  }
+  return starts;
+}
+
+// Picks the matches an edit applies to. Without occurrence or replaceAll, oldText
+// must match exactly once so that an edit never lands on the wrong one silently
+function selectMatches<T>(matches: T[], lines: number[], edit: FileEdit): T[] {
+  if (edit.occurrence !== undefined && edit.replaceAll) {
+    throw new Error('Set either occurrence or replaceAll on an edit, not both');
+  }
+  if (edit.replaceAll) {
+    return matches;
+  }
+  if (edit.occurrence !== undefined) {
+    if (!Number.isInteger(edit.occurrence) || edit.occurrence < 1) {
+      throw new Error(`occurrence must be a positive integer, got ${edit.occurrence}`);
+    }
+    if (edit.occurrence > matches.length) {
+      throw new Error(
+        `Edit asks for occurrence ${edit.occurrence} of oldText, but it appears only ${matches.length} ` +
+        `time${matches.length === 1 ? '' : 's'} (at line${lines.length === 1 ? '' : 's'} ${lines.join(', ')}):\n${edit.oldText}`
+      );
+    }
+    return [matches[edit.occurrence - 1]];
+  }
+  if (matches.length > 1) {
+    throw new Error(
+      `oldText appears ${matches.length} times, at lines ${lines.join(', ')}:\n${edit.oldText}\n\n` +
+      'Include more surrounding lines in oldText to make it unique, or set occurrence ' +
+      `(1-${matches.length}) or replaceAll on the edit`
+    );
+  }
+  return matches;
+}
+
+// Re-indents replacement lines to fit a region matched with flexible whitespace
+function reindentReplacement(newText: string, oldLines: string[], originalIndent: string): string[] {
+  return newText.split('\n').map((line, j) => {
+    if (j === 0) return originalIndent + line.trimStart();
+    // For subsequent lines, try to preserve relative indentation
+    const oldIndent = oldLines[j]?.match(/^\s*/)?.[0] || '';
+    const newIndent = line.match(/^\s*/)?.[0] || '';
+    if (oldIndent && newIndent) {
+      const relativeIndent = newIndent.length - oldIndent.length;
+      return originalIndent + ' '.repeat(Math.max(0, relativeIndent)) + line.trimStart();
+    }
+    return line;
+  });
+}
 
+// Applies edits to already-normalized content, throwing if any edit fails to match
+// or matches ambiguously. Returns notes about edits that were only applied because
+// of fuzzyMatchThreshold
+function applyEditsToContent(
+  content: string,
+  edits: FileEdit[],
+  options: EditMatchOptions = {}
+): { content: string; notes: string[] } {
+  const notes: string[] = [];
   // Apply edits sequentially
   let modifiedContent = content;
-  for (const edit of edits) {
+  for (const [index, edit] of edits.entries()) {
     const normalizedOld = normalizeLineEndings(edit.oldText);
     const normalizedNew = normalizeLineEndings(edit.newText);
 
-    // If exact match exists, use it
-    if (modifiedContent.includes(normalizedOld)) {
-      modifiedContent = modifiedContent.replace(normalizedOld, normalizedNew);
+    // If exact matches exist, use them
+    const exactMatches = findExactMatches(modifiedContent, normalizedOld);
+    if (exactMatches.length > 0) {
+      const lines = exactMatches.map(offset => lineNumberAt(modifiedContent, offset));
+      const selected = selectMatches(exactMatches, lines, edit);
+      // Replace from the end so earlier offsets stay valid
+      for (const offset of [...selected].reverse()) {
+        modifiedContent = modifiedContent.slice(0, offset) + normalizedNew + modifiedContent.slice(offset + normalizedOld.length);
+      }
       continue;
     }
 
     // Otherwise, try line-by-line matching with flexibility for whitespace
     const oldLines = normalizedOld.split('\n');
     const contentLines = modifiedContent.split('\n');
-    let matchFound = false;
-
-    for (let i = 0; i <= contentLines.length - oldLines.length; i++) {
-      const potentialMatch = contentLines.slice(i, i + oldLines.length);
-
-      // Compare lines with normalized whitespace
-      const isMatch = oldLines.every((oldLine, j) => {
-        const contentLine = potentialMatch[j];
-        return oldLine.trim() === contentLine.trim();
-      });
-
-      if (isMatch) {
+    const flexibleMatches = findWhitespaceFlexibleMatches(contentLines, oldLines);
+    if (flexibleMatches.length > 0) {
+      const selected = selectMatches(flexibleMatches, flexibleMatches.map(start => start + 1), edit);
+      for (const start of [...selected].reverse()) {
         // Preserve original indentation of first line
-        const originalIndent = contentLines[i].match(/^\s*/)?.[0] || '';
-        const newLines = normalizedNew.split('\n').map((line, j) => {
-          if (j === 0) return originalIndent + line.trimStart();
-          // For subsequent lines, try to preserve relative indentation
-          const oldIndent = oldLines[j]?.match(/^\s*/)?.[0] || '';
-          const newIndent = line.match(/^\s*/)?.[0] || '';
-          if (oldIndent && newIndent) {
-            const relativeIndent = newIndent.length - oldIndent.length;
-            return originalIndent + ' '.repeat(Math.max(0, relativeIndent)) + line.trimStart();
-          }
-          return line;
-        });
-
-        contentLines.splice(i, oldLines.length, ...newLines);
-        modifiedContent = contentLines.join('\n');
-        matchFound = true;
-        break;
+        const originalIndent = contentLines[start].match(/^\s*/)?.[0] || '';
+        contentLines.splice(start, oldLines.length, ...reindentReplacement(normalizedNew, oldLines, originalIndent));
       }
+      modifiedContent = contentLines.join('\n');
+      continue;
     }
 
-    if (!matchFound) {
-      throw new Error(`Could not find exact match for edit:\n${edit.oldText}`);
+    // Finally, look for regions that are close to oldText. They are only edited when
+    // the caller opted in and exactly one region is close enough
+    const candidates = findClosestMatches(modifiedContent, normalizedOld);
+    const threshold = options.fuzzyMatchThreshold;
+    if (threshold !== undefined) {
+      const close = candidates.filter(candidate => candidate.similarity >= threshold);
+      if (close.length > 1) {
+        const regions = close.map(c => `lines ${c.startLine}-${c.endLine} (${formatSimilarity(c.similarity)})`).join(', ');
+        throw new Error(
+          `Could not find exact match for edit:\n${edit.oldText}\n\n` +
+          `Several regions are at least ${formatSimilarity(threshold)} similar: ${regions}. ` +
+          'Include more surrounding lines in oldText to pick one'
+        );
+      }
+      if (close.length === 1) {
+        const [match] = close;
+        contentLines.splice(match.startLine - 1, match.endLine - match.startLine + 1, ...normalizedNew.split('\n'));
+        modifiedContent = contentLines.join('\n');
+        notes.push(
+          `Edit ${index + 1} did not match exactly and was applied to lines ${match.startLine}-${match.endLine}, ` +
+          `which are ${formatSimilarity(match.similarity)} similar to its oldText`
+        );
+        continue;
+      }
     }
+    throw new Error(describeMissingMatch(edit.oldText, normalizedOld, candidates, threshold));
   }
 
-  // Create unified diff
-  const diff = createUnifiedDiff(content, modifiedContent, filePath);
+  return { content: modifiedContent, notes };
+}
 
-  // Format diff with appropriate number of backticks
+// Puts notes about approximately matched edits ahead of the diff
+function withEditNotes(diff: string, notes: string[]): string {
+  return notes.length > 0 ? `${notes.join('\n')}\n\n${diff}` : diff;
+}
+
+// Wraps a diff in a fenced code block, using enough backticks to not clash with its content
+function formatDiffBlock(diff: string): string {
   let numBackticks = 3;
   while (diff.includes('`'.repeat(numBackticks))) {
     numBackticks++;
   }
-  const formattedDiff = `${'`'.repeat(numBackticks)}diff\n${diff}${'`'.repeat(numBackticks)}\n\n`;
+  return `${'`'.repeat(numBackticks)}diff\n${diff}${'`'.repeat(numBackticks)}\n\n`;
+}
+
+export async function applyFileEdits(
+  filePath: string,
+  edits: FileEdit[],
+  dryRun: boolean = false,
+  expected?: ExpectedVersion,
+  matchOptions: EditMatchOptions = {},
+  encoding?: string
+): Promise<string> {
+  // Read file content and normalize line endings, remembering the original format
+  const rawBytes = await fs.readFile(filePath);
+  if (hasExpectedVersion(expected)) {
+    await assertExpectedVersion(filePath, expected, rawBytes);
+  }
+  const { content: rawContent, format } = decodeText(rawBytes, encoding);
+  assertEncodingKnown(filePath, format);
+  const content = normalizeLineEndings(rawContent);
+  const { content: modifiedContent, notes } = applyEditsToContent(content, edits, matchOptions);
+
+  // Create unified diff
+  const formattedDiff = formatDiffBlock(createUnifiedDiff(content, modifiedContent, filePath));
 
   if (!dryRun) {
-    // Security: Use atomic rename to prevent race conditions where symlinks
-    // could be created between validation and write. Rename operations
-    // replace the target file atomically and don't follow symlinks.
-    const tempPath = `${filePath}.${randomBytes(16).toString('hex')}.tmp`;
+    await notifyBeforeFileChange([filePath]);
+    await replaceFileAtomically(filePath, encodeText(modifiedContent, format));
+  }
+
+  return withEditNotes(formattedDiff, notes);
+}
+
+// Applies edits to several files as one transaction: every edit is matched in memory
+// first, and files are only written once all of them succeed.
+export async function applyMultiFileEdits(
+  fileEdits: MultiFileEdit[],
+  dryRun: boolean = false,
+  matchOptions: EditMatchOptions = {}
+): Promise<string> {
+  const seenPaths = new Set<string>();
+  for (const { path: filePath } of fileEdits) {
+    if (seenPaths.has(filePath)) {
+      throw new Error(`Duplicate path in edit transaction: ${filePath}. Combine its edits into one entry`);
+    }
+    seenPaths.add(filePath);
+  }
+
+  // Dry-run every file before touching the disk
+  const staged: (StagedFileChange & { originalBytes: Buffer; original: string; modified: string })[] = [];
+  const notes: string[] = [];
+  for (const { path: filePath, edits, encoding } of fileEdits) {
+    const originalBytes = await fs.readFile(filePath);
+    const { content, format } = decodeText(originalBytes, encoding);
+    const original = normalizeLineEndings(content);
+    let modified: string;
+    let data: string | Buffer;
     try {
-      await fs.writeFile(tempPath, modifiedContent, 'utf-8');
-      await fs.rename(tempPath, filePath);
+      assertEncodingKnown(filePath, format);
+      const result = applyEditsToContent(original, edits, matchOptions);
+      modified = result.content;
+      notes.push(...result.notes.map(note => `${filePath}: ${note}`));
+      data = encodeText(modified, format);
     } catch (error) {
-      try {
-        await fs.unlink(tempPath);
-      } catch {}
-      throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`No files were modified. Edit failed for ${filePath}: ${message}`);
     }
+    staged.push({ path: filePath, originalBytes, original, modified, data });
+  }
+
+  const combinedDiff = formatDiffBlock(
+    staged.map(file => createUnifiedDiff(file.original, file.modified, file.path)).join('')
+  );
+
+  if (!dryRun) {
+    await commitFileChanges(staged);
   }
+  return withEditNotes(combinedDiff, notes);
+}
 
-  return formattedDiff;
+// A file to write as part of a transaction. data is null to delete the file, and
+// originalBytes is null for a file that did not exist, so a rollback removes it again
+export interface StagedFileChange {
+  path: string;
+  originalBytes: Buffer | null;
+  data: string | Buffer | null;
 }
 
-// Memory-efficient implementation to get the last N lines of a file
-export async function tailFile(filePath: string, numLines: number): Promise<string> {
+// Writes several files as one transaction: new contents are staged next to their
+// targets first, then renamed into place in sequence. If a step fails, files that
+// were already changed are restored to their original contents.
+export async function commitFileChanges(changes: StagedFileChange[]): Promise<void> {
+  const tempPaths = new Map<StagedFileChange, string>();
+  const removeTempFiles = async () => {
+    await Promise.all([...tempPaths.values()].map(tempPath => fs.unlink(tempPath).catch(() => {})));
+  };
+
+  try {
+    for (const change of changes) {
+      if (change.data === null) continue;
+      const tempPath = `${change.path}.${randomBytes(16).toString('hex')}.tmp`;
+      tempPaths.set(change, tempPath);
+      await fs.writeFile(tempPath, change.data, 'utf-8');
+    }
+  } catch (error) {
+    await removeTempFiles();
+    throw error;
+  }
+
+  await notifyBeforeFileChange(changes.map(change => change.path));
+
+  // Security: Use atomic rename to prevent race conditions where symlinks
+  // could be created between validation and write. If any rename fails,
+  // restore the files that were already replaced.
+  const committed: StagedFileChange[] = [];
+  for (const change of changes) {
+    try {
+      const tempPath = tempPaths.get(change);
+      if (tempPath) {
+        await fs.rename(tempPath, change.path);
+      } else {
+        await fs.unlink(change.path);
+      }
+      committed.push(change);
+    } catch (error) {
+      await removeTempFiles();
+      const rollbackFailures: string[] = [];
+      for (const done of committed.reverse()) {
+        try {
+          if (done.originalBytes === null) {
+            await fs.unlink(done.path);
+          } else {
+            await replaceFileAtomically(done.path, done.originalBytes);
+          }
+        } catch {
+          rollbackFailures.push(done.path);
+        }
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      if (rollbackFailures.length > 0) {
+        throw new Error(`Failed to write ${change.path}: ${message}. Rollback failed for: ${rollbackFailures.join(', ')}`);
+      }
+      throw new Error(`Failed to write ${change.path}: ${message}. All files were restored to their original contents`);
+    }
+  }
+}
+
+// Memory-efficient implementation to get the last N lines of a file. Throws instead of
+// reading more than maxBytes when the lines do not fit in it
+export async function tailFile(filePath: string, numLines: number, maxBytes: number = Infinity): Promise<string> {
   const CHUNK_SIZE = 1024; // Read 1KB at a time
   const stats = await fs.stat(filePath);
   const fileSize = stats.size;
@@ -302,6 +955,9 @@ export async function tailFile(filePath: string, numLines: number): Promise<stri
         lines.unshift(chunkLines[i]);
         linesFound++;
       }
+      if (linesFound < numLines && fileSize - position > maxBytes) {
+        throw new Error(`The last ${numLines} lines are larger than ${formatSize(maxBytes)}. Request fewer lines`);
+      }
     }
     
     return lines.join('\n');
@@ -310,8 +966,9 @@ export async function tailFile(filePath: string, numLines: number): Promise<stri
   }
 }
 
-// New function to get the first N lines of a file
-export async function headFile(filePath: string, numLines: number): Promise<string> {
+// New function to get the first N lines of a file. Throws instead of reading more
+// than maxBytes when the lines do not fit in it
+export async function headFile(filePath: string, numLines: number, maxBytes: number = Infinity): Promise<string> {
   const fileHandle = await fs.open(filePath, 'r');
   try {
     const lines: string[] = [];
@@ -335,6 +992,9 @@ export async function headFile(filePath: string, numLines: number): Promise<stri
           if (lines.length >= numLines) break;
         }
       }
+      if (lines.length < numLines && bytesRead > maxBytes) {
+        throw new Error(`The first ${numLines} lines are larger than ${formatSize(maxBytes)}. Request fewer lines`);
+      }
     }
     
     // If there is leftover content and we still need lines, add it
@@ -348,23 +1008,216 @@ export async function headFile(filePath: string, numLines: number): Promise<stri
   }
 }
 
+const RANGE_CHUNK_SIZE = 64 * 1024;
+const NEWLINE = 0x0a;
+
+// In UTF-16 the byte 0x0A can be half of an unrelated character, so newlines
+// have to be counted on decoded text rather than on raw bytes
+function isUtf16(encoding: string): boolean {
+  return /^(utf-?16(le|be)?|ucs-?2)$/i.test(encoding);
+}
+
+function countNewlines(bytes: Buffer): number {
+  let count = 0;
+  for (let i = bytes.indexOf(NEWLINE); i !== -1; i = bytes.indexOf(NEWLINE, i + 1)) {
+    count++;
+  }
+  return count;
+}
+
+// Counts lines without loading the file into memory. A trailing line without
+// a final newline is counted; an empty file has zero lines.
+export async function countFileLines(filePath: string, encoding: string = 'utf-8'): Promise<number> {
+  if (isUtf16(encoding)) {
+    // Start past any possible line so nothing is collected, only counted
+    return (await readFileLines(filePath, Number.MAX_SAFE_INTEGER, Infinity, false, encoding)).totalLines;
+  }
+
+  const fileHandle = await fs.open(filePath, 'r');
+  try {
+    const chunk = Buffer.alloc(RANGE_CHUNK_SIZE);
+    let position = 0;
+    let newlines = 0;
+    let lastByte = -1;
+    while (true) {
+      const { bytesRead } = await fileHandle.read(chunk, 0, chunk.length, position);
+      if (bytesRead === 0) break;
+      position += bytesRead;
+      newlines += countNewlines(chunk.subarray(0, bytesRead));
+      lastByte = chunk[bytesRead - 1];
+    }
+    return newlines + (lastByte !== -1 && lastByte !== NEWLINE ? 1 : 0);
+  } finally {
+    await fileHandle.close();
+  }
+}
+
+export function formatLineNumbers(lines: string[], firstLineNumber: number): string[] {
+  const width = String(firstLineNumber + lines.length - 1).length;
+  return lines.map((line, i) => `${String(firstLineNumber + i).padStart(width)}\t${line}`);
+}
+
+// Streams the file and returns lines startLine..endLine (1-based, inclusive),
+// while still counting the total number of lines in the file. Stops early,
+// leaving hasMore set, before the returned lines would exceed maxBytes
+export async function readFileLines(
+  filePath: string,
+  startLine: number = 1,
+  endLine: number = Infinity,
+  lineNumbers: boolean = false,
+  encoding: string = 'utf-8',
+  maxBytes: number = Infinity
+): Promise<LineRangeResult> {
+  if (startLine < 1) {
+    throw new Error('startLine must be 1 or greater');
+  }
+  if (endLine < startLine) {
+    throw new Error(`endLine (${endLine}) must not be less than startLine (${startLine})`);
+  }
+  if (!isSupportedEncoding(encoding)) {
+    throw new Error(`Unsupported encoding: ${encoding}`);
+  }
+  const countNewlineBytes = !isUtf16(encoding);
+
+  const fileHandle = await fs.open(filePath, 'r');
+  try {
+    const decoder = iconv.getDecoder(encoding);
+    const chunk = Buffer.alloc(RANGE_CHUNK_SIZE);
+    const selected: string[] = [];
+    let position = 0;
+    let newlines = 0;
+    let lastByte = -1;
+    let lineNumber = 0;
+    let partial = '';
+    let collecting = true;
+    let selectedBytes = 0;
+    let lastLine = endLine;
+
+    const takeLine = (line: string) => {
+      lineNumber++;
+      if (lineNumber >= startLine && lineNumber <= lastLine) {
+        const text = line.endsWith('\r') ? line.slice(0, -1) : line;
+        selectedBytes += Buffer.byteLength(text) + 1;
+        if (selectedBytes > maxBytes + 1) {
+          lastLine = lineNumber - 1;
+        } else {
+          selected.push(text);
+        }
+      }
+      if (lineNumber >= lastLine) {
+        collecting = false;
+      }
+    };
+
+    while (true) {
+      const { bytesRead } = await fileHandle.read(chunk, 0, chunk.length, position);
+      if (bytesRead === 0) break;
+      position += bytesRead;
+      const bytes = chunk.subarray(0, bytesRead);
+      if (countNewlineBytes) {
+        newlines += countNewlines(bytes);
+        lastByte = bytes[bytesRead - 1];
+
+        // Past the requested window only newlines need counting, so skip decoding
+        if (!collecting) continue;
+      }
+
+      const lines = (partial + decoder.write(bytes)).split('\n');
+      partial = lines.pop() ?? '';
+      for (const line of lines) {
+        takeLine(line);
+        if (!collecting && countNewlineBytes) break;
+      }
+    }
+
+    if (collecting || !countNewlineBytes) {
+      partial += decoder.end() ?? '';
+      if (partial.length > 0) {
+        takeLine(partial);
+      }
+    }
+
+    const totalLines = countNewlineBytes
+      ? newlines + (lastByte !== -1 && lastByte !== NEWLINE ? 1 : 0)
+      : lineNumber;
+    const lastReturned = selected.length > 0 ? startLine + selected.length - 1 : Math.min(startLine - 1, totalLines);
+    return {
+      content: (lineNumbers ? formatLineNumbers(selected, startLine) : selected).join('\n'),
+      startLine,
+      endLine: lastReturned,
+      totalLines,
+      hasMore: lastReturned < totalLines,
+    };
+  } finally {
+    await fileHandle.close();
+  }
+}
+
+// Reads a window of raw bytes and decodes it. Multi-byte characters that
+// straddle the window edges are replaced with U+FFFD.
+export async function readFileBytes(
+  filePath: string,
+  offset: number = 0,
+  length?: number,
+  encoding: string = 'utf-8'
+): Promise<ByteRangeResult> {
+  if (!isSupportedEncoding(encoding)) {
+    throw new Error(`Unsupported encoding: ${encoding}`);
+  }
+
+  const stats = await fs.stat(filePath);
+  const start = Math.min(offset, stats.size);
+  const toRead = Math.min(length ?? stats.size - start, stats.size - start);
+
+  const fileHandle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(toRead);
+    let bytesRead = 0;
+    while (bytesRead < toRead) {
+      const result = await fileHandle.read(buffer, bytesRead, toRead - bytesRead, start + bytesRead);
+      if (result.bytesRead === 0) break;
+      bytesRead += result.bytesRead;
+    }
+    return {
+      content: iconv.decode(buffer.subarray(0, bytesRead), encoding),
+      offset: start,
+      bytesRead,
+      totalBytes: stats.size,
+      hasMore: start + bytesRead < stats.size,
+    };
+  } finally {
+    await fileHandle.close();
+  }
+}
+
 export async function searchFilesWithValidation(
   rootPath: string,
   pattern: string,
-  allowedDirectories: string[],
+  policy: AccessPolicy,
   options: SearchOptions = {}
-): Promise<string[]> {
-  const { excludePatterns = [] } = options;
-  const results: string[] = [];
+): Promise<SearchFilesResult> {
+  const { excludePatterns = [], respectGitignore = true } = options;
+  const result: SearchFilesResult = { paths: [], ignoredEntries: 0 };
 
-  async function search(currentPath: string) {
+  async function search(currentPath: string, parentRules?: IgnoreRules) {
     const entries = await fs.readdir(currentPath, { withFileTypes: true });
+    let rules: IgnoreRules | undefined;
+    if (respectGitignore) {
+      rules = parentRules
+        ? await loadIgnoreRules(currentPath, parentRules)
+        : await loadIgnoreRulesForRoot(currentPath, policy.directories());
+    }
 
     for (const entry of entries) {
       const fullPath = path.join(currentPath, entry.name);
 
+      if (rules && isIgnored(fullPath, entry.isDirectory(), rules)) {
+        result.ignoredEntries++;
+        continue;
+      }
+
       try {
-        await validatePath(fullPath);
+        await validatePath(fullPath, policy);
 
         const relativePath = path.relative(rootPath, fullPath);
         const shouldExclude = excludePatterns.some(excludePattern =>
@@ -375,11 +1228,11 @@ export async function searchFilesWithValidation(
 
         // Use glob matching for the search pattern
         if (minimatch(relativePath, pattern, { dot: true })) {
-          results.push(fullPath);
+          result.paths.push(fullPath);
         }
 
         if (entry.isDirectory()) {
-          await search(fullPath);
+          await search(fullPath, rules);
         }
       } catch {
         continue;
@@ -388,5 +1241,278 @@ export async function searchFilesWithValidation(
   }
 
   await search(rootPath);
-  return results;
+  return result;
+}
+
+function isExcludedFromTree(relativePath: string, excludePatterns: string[]): boolean {
+  return excludePatterns.some(pattern => {
+    if (pattern.includes('*')) {
+      return minimatch(relativePath, pattern, { dot: true });
+    }
+    // For files: match exact name or as part of path
+    // For directories: match as directory path
+    return minimatch(relativePath, pattern, { dot: true }) ||
+           minimatch(relativePath, `**/${pattern}`, { dot: true }) ||
+           minimatch(relativePath, `**/${pattern}/**`, { dot: true });
+  });
+}
+
+// Builds a directory tree breadth-first, so that when the entry budget runs out the
+// upper levels are complete and only deeper directories are cut short. Every cut is
+// recorded on the affected directory instead of being dropped silently.
+export async function buildDirectoryTree(
+  rootPath: string,
+  policy: AccessPolicy,
+  options: DirectoryTreeOptions = {}
+): Promise<DirectoryTreeResult> {
+  const {
+    excludePatterns = [],
+    maxDepth = Infinity,
+    maxEntries = Infinity,
+    respectGitignore = true,
+  } = options;
+
+  interface PendingDirectory {
+    dirPath: string;
+    relativePath: string;
+    depth: number;
+    children: TreeEntry[];
+    entry: TreeEntry | null;
+    parentRules?: IgnoreRules;
+  }
+
+  const result: DirectoryTreeResult = { entries: [], totalEntries: 0, ignoredEntries: 0, truncatedDirectories: [] };
+
+  async function readVisibleEntries(dir: PendingDirectory) {
+    const validPath = await validatePath(dir.dirPath, policy);
+    let rules: IgnoreRules | undefined;
+    if (respectGitignore) {
+      rules = dir.parentRules
+        ? await loadIgnoreRules(validPath, dir.parentRules)
+        : await loadIgnoreRulesForRoot(validPath, policy.directories());
+    }
+    const dirents = await fs.readdir(validPath, { withFileTypes: true });
+    const visible = dirents
+      .filter(dirent => {
+        const relativePath = path.join(dir.relativePath, dirent.name);
+        if (isExcludedFromTree(relativePath, excludePatterns)) return false;
+        if (rules && isIgnored(path.join(validPath, dirent.name), dirent.isDirectory(), rules)) {
+          result.ignoredEntries++;
+          return false;
+        }
+        return true;
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return { visible, rules };
+  }
+
+  function markTruncated(dir: PendingDirectory, truncation: TreeTruncation) {
+    if (dir.entry) {
+      dir.entry.truncated = truncation;
+    }
+    result.truncatedDirectories.push({ path: dir.relativePath || '.', ...truncation });
+  }
+
+  const queue: PendingDirectory[] = [
+    { dirPath: rootPath, relativePath: '', depth: 0, children: result.entries, entry: null },
+  ];
+  for (let i = 0; i < queue.length; i++) {
+    const dir = queue[i];
+    const { visible, rules } = await readVisibleEntries(dir);
+
+    for (let j = 0; j < visible.length; j++) {
+      if (result.totalEntries >= maxEntries) {
+        markTruncated(dir, { reason: 'maxEntries', omittedEntries: visible.length - j });
+        break;
+      }
+      const dirent = visible[j];
+      const entry: TreeEntry = {
+        name: dirent.name,
+        type: dirent.isDirectory() ? 'directory' : 'file',
+      };
+      dir.children.push(entry);
+      result.totalEntries++;
+
+      if (dirent.isDirectory()) {
+        entry.children = [];
+        queue.push({
+          dirPath: path.join(dir.dirPath, dirent.name),
+          relativePath: path.join(dir.relativePath, dirent.name),
+          depth: dir.depth + 1,
+          children: entry.children,
+          entry,
+          parentRules: rules,
+        });
+      }
+    }
+
+    // Directories below the depth limit are only counted, not listed
+    const next = queue[i + 1];
+    if (next && next.depth >= maxDepth) {
+      for (const pending of queue.slice(i + 1)) {
+        const { visible: hidden } = await readVisibleEntries(pending);
+        if (hidden.length > 0) {
+          markTruncated(pending, { reason: 'maxDepth', omittedEntries: hidden.length });
+        }
+      }
+      break;
+    }
+  }
+
+  return result;
+}
+
+// Formats a directory tree as indented text, one entry per line, with directories
+// marked by a trailing slash and cut-short listings noted where they occur
+export function formatDirectoryTree(entries: TreeEntry[], indent: string = ''): string {
+  const lines: string[] = [];
+  for (const entry of entries) {
+    lines.push(`${indent}${entry.name}${entry.type === 'directory' ? '/' : ''}`);
+    if (entry.children && entry.children.length > 0) {
+      lines.push(formatDirectoryTree(entry.children, `${indent}  `));
+    }
+    if (entry.truncated) {
+      lines.push(`${indent}  ${describeTreeTruncation(entry.truncated)}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+export function describeTreeTruncation(truncation: TreeTruncation): string {
+  const count = `${truncation.omittedEntries} ${truncation.omittedEntries === 1 ? 'entry' : 'entries'}`;
+  return truncation.reason === 'maxDepth'
+    ? `... ${count} not shown (maxDepth reached)`
+    : `... ${count} more not shown (maxEntries reached)`;
+}
+
+// Number of leading bytes inspected when deciding whether a file is binary
+const BINARY_SNIFF_BYTES = 8000;
+
+// Treats content as binary if it contains a NUL byte, the same heuristic git uses
+export function isBinaryBuffer(buffer: Buffer): boolean {
+  const length = Math.min(buffer.length, BINARY_SNIFF_BYTES);
+  for (let i = 0; i < length; i++) {
+    if (buffer[i] === 0) return true;
+  }
+  return false;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export async function grepFilesWithValidation(
+  rootPath: string,
+  pattern: string,
+  policy: AccessPolicy,
+  options: GrepOptions = {}
+): Promise<GrepResult> {
+  const {
+    literal = false,
+    caseInsensitive = false,
+    includePatterns = [],
+    excludePatterns = [],
+    contextBefore = 0,
+    contextAfter = 0,
+    maxMatchesPerFile = Infinity,
+    maxResults = Infinity,
+    maxFileBytes = Infinity,
+    maxTotalBytes = Infinity,
+  } = options;
+
+  const regex = new RegExp(literal ? escapeRegExp(pattern) : pattern, caseInsensitive ? 'i' : '');
+  const matchOptions = { dot: true, matchBase: true };
+  const result: GrepResult = {
+    matches: [],
+    filesSearched: 0,
+    binaryFilesSkipped: 0,
+    largeFilesSkipped: 0,
+    bytesScanned: 0,
+    truncated: false,
+    stoppedAtByteLimit: false,
+  };
+
+  async function grepFile(filePath: string, displayPath: string) {
+    // Check the size before reading so one large file cannot exhaust memory
+    const { size } = await fs.stat(filePath);
+    if (size > maxFileBytes) {
+      result.largeFilesSkipped++;
+      return;
+    }
+    if (result.bytesScanned + size > maxTotalBytes) {
+      result.stoppedAtByteLimit = true;
+      return;
+    }
+    const buffer = await fs.readFile(filePath);
+    result.bytesScanned += buffer.length;
+    // UTF-16 text is full of NUL bytes, so only apply the binary check to other encodings
+    const { encoding } = detectEncoding(buffer);
+    if (!encoding.startsWith('utf-16') && isBinaryBuffer(buffer)) {
+      result.binaryFilesSkipped++;
+      return;
+    }
+    result.filesSearched++;
+
+    const lines = normalizeLineEndings(decodeText(buffer, encoding).content).split('\n');
+    let fileMatches = 0;
+    for (let i = 0; i < lines.length; i++) {
+      if (!regex.test(lines[i])) continue;
+
+      if (result.matches.length >= maxResults) {
+        result.truncated = true;
+        return;
+      }
+      result.matches.push({
+        path: displayPath,
+        lineNumber: i + 1,
+        line: lines[i],
+        before: lines.slice(Math.max(0, i - contextBefore), i),
+        after: lines.slice(i + 1, i + 1 + contextAfter),
+      });
+
+      fileMatches++;
+      if (fileMatches >= maxMatchesPerFile) return;
+    }
+  }
+
+  async function walk(currentPath: string) {
+    const entries = await fs.readdir(currentPath, { withFileTypes: true });
+
+    for (const entry of entries) {
+      if (result.truncated || result.stoppedAtByteLimit) return;
+      const fullPath = path.join(currentPath, entry.name);
+
+      try {
+        const validPath = await validatePath(fullPath, policy);
+
+        const relativePath = path.relative(rootPath, fullPath);
+        const shouldExclude = excludePatterns.some(excludePattern =>
+          minimatch(relativePath, excludePattern, matchOptions)
+        );
+        if (shouldExclude) continue;
+
+        if (entry.isDirectory()) {
+          await walk(fullPath);
+          continue;
+        }
+
+        const isIncluded = includePatterns.length === 0 || includePatterns.some(includePattern =>
+          minimatch(relativePath, includePattern, matchOptions)
+        );
+        if (entry.isFile() && isIncluded) {
+          await grepFile(validPath, fullPath);
+        }
+      } catch {
+        continue;
+      }
+    }
+  }
+
+  const rootStats = await fs.stat(rootPath);
+  if (rootStats.isDirectory()) {
+    await walk(rootPath);
+  } else {
+    await grepFile(rootPath, rootPath);
+  }
+  return result;
 }
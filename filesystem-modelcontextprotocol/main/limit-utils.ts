@@ -0,0 +1,73 @@
+import { formatSize } from './lib.js';
+
+export interface ReadLimits {
+  /** Most bytes of file content a single call may return */
+  maxReadBytes: number;
+  /** Most bytes of file content a session may read in total */
+  maxSessionBytes: number;
+  /** Images with more pixels than this are downscaled before they are returned */
+  maxImagePixels: number;
+}
+
+export const DEFAULT_READ_LIMITS: ReadLimits = {
+  maxReadBytes: 10 * 1024 * 1024,
+  maxSessionBytes: Infinity,
+  maxImagePixels: 2048 * 2048,
+};
+
+/**
+ * Tracks how much file content a session has been sent against its read limits.
+ * Every session has its own budget.
+ */
+export interface ReadBudget {
+  readonly limits: ReadLimits;
+  /** Bytes the next call may return: the per-call limit, or what is left of the session's */
+  available(): number;
+  /** Bytes the session may still read in total, across calls */
+  sessionAvailable(): number;
+  /**
+   * Explains why a read of this many bytes is not allowed
+   * @returns The reason, e.g. "over the 10 MB per-call read limit", or null if it fits
+   */
+  overLimitReason(bytes: number): string | null;
+  /** Throws if the session has no read budget left */
+  assertAvailable(): void;
+  /** Counts bytes returned to the client against the session's budget */
+  consume(bytes: number): void;
+}
+
+/**
+ * Creates the read budget of a new session.
+ * @param limits - Per-call and per-session limits
+ * @returns The budget
+ */
+export function createReadBudget(limits: ReadLimits = DEFAULT_READ_LIMITS): ReadBudget {
+  let used = 0;
+  const sessionLeft = () => Math.max(limits.maxSessionBytes - used, 0);
+  return {
+    limits,
+    available() {
+      return Math.min(limits.maxReadBytes, sessionLeft());
+    },
+    sessionAvailable() {
+      return sessionLeft();
+    },
+    overLimitReason(bytes) {
+      if (bytes > sessionLeft() && sessionLeft() < limits.maxReadBytes) {
+        return `over the ${formatSize(sessionLeft())} left of this session's ${formatSize(limits.maxSessionBytes)} read limit`;
+      }
+      if (bytes > limits.maxReadBytes) {
+        return `over the ${formatSize(limits.maxReadBytes)} per-call read limit`;
+      }
+      return null;
+    },
+    assertAvailable() {
+      if (sessionLeft() === 0) {
+        throw new Error(`This session has used its ${formatSize(limits.maxSessionBytes)} read limit. Start a new session to read more`);
+      }
+    },
+    consume(bytes) {
+      used += bytes;
+    },
+  };
+}
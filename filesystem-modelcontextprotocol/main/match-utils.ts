@@ -0,0 +1,114 @@
+import { diffChars } from 'diff';
+
+export interface CandidateMatch {
+  /** 1-based line where the candidate region starts */
+  startLine: number;
+  /** 1-based line where the candidate region ends, inclusive */
+  endLine: number;
+  /** Similarity to the searched text, from 0 to 1 */
+  similarity: number;
+  text: string;
+}
+
+// Number of regions that are compared character by character after the cheaper
+// line-based ranking
+const MAX_CANDIDATES = 5;
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const pair = text.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// Dice coefficient of the character pairs of two lines, ignoring surrounding whitespace
+function lineSimilarity(a: string, aPairs: Map<string, number>, b: string, bPairs: Map<string, number>): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+  let shared = 0;
+  for (const [pair, count] of aPairs) {
+    shared += Math.min(count, bPairs.get(pair) ?? 0);
+  }
+  return (2 * shared) / (a.length - 1 + b.length - 1);
+}
+
+/**
+ * Measures how similar two texts are from their character-level diff, as twice the
+ * number of shared characters divided by the total length.
+ * @returns A score from 0 (nothing in common) to 1 (identical)
+ */
+export function textSimilarity(a: string, b: string): number {
+  if (a.length + b.length === 0) return 1;
+  const shared = diffChars(a, b)
+    .filter(part => !part.added && !part.removed)
+    .reduce((sum, part) => sum + part.value.length, 0);
+  return (2 * shared) / (a.length + b.length);
+}
+
+/**
+ * Finds the regions of a text that are most similar to a searched text with the same
+ * number of lines. Regions are first ranked line by line, then the best ones that do
+ * not overlap are compared character by character.
+ *
+ * @param content - Text to search
+ * @param searched - Text that could not be found exactly
+ * @returns Up to five candidate regions, most similar first
+ */
+export function findClosestMatches(content: string, searched: string): CandidateMatch[] {
+  const lines = content.split('\n');
+  const searchedLines = searched.split('\n').map(line => line.trim());
+  const windowSize = Math.min(searchedLines.length, lines.length);
+  const searchedPairs = searchedLines.map(bigrams);
+  const linePairs = new Map<number, { text: string; pairs: Map<string, number> }>();
+  const lineAt = (index: number) => {
+    let entry = linePairs.get(index);
+    if (!entry) {
+      const text = lines[index].trim();
+      entry = { text, pairs: bigrams(text) };
+      linePairs.set(index, entry);
+    }
+    return entry;
+  };
+
+  const ranked: { start: number; score: number }[] = [];
+  for (let start = 0; start + windowSize <= lines.length; start++) {
+    let score = 0;
+    for (let j = 0; j < windowSize; j++) {
+      const line = lineAt(start + j);
+      score += lineSimilarity(searchedLines[j], searchedPairs[j], line.text, line.pairs);
+    }
+    ranked.push({ start, score });
+  }
+  ranked.sort((a, b) => b.score - a.score || a.start - b.start);
+
+  const chosen: number[] = [];
+  for (const { start } of ranked) {
+    if (chosen.length >= MAX_CANDIDATES) break;
+    if (chosen.every(other => Math.abs(other - start) >= windowSize)) {
+      chosen.push(start);
+    }
+  }
+
+  return chosen
+    .map(start => {
+      const text = lines.slice(start, start + windowSize).join('\n');
+      return { startLine: start + 1, endLine: start + windowSize, similarity: textSimilarity(searched, text), text };
+    })
+    .sort((a, b) => b.similarity - a.similarity || a.startLine - b.startLine);
+}
+
+/**
+ * Shows the character-level differences between two texts inline, marking text only
+ * in the first with [-...-] and text only in the second with {+...+}.
+ */
+export function formatCharDiff(expected: string, actual: string): string {
+  return diffChars(expected, actual)
+    .map(part => part.removed ? `[-${part.value}-]` : part.added ? `{+${part.value}+}` : part.value)
+    .join('');
+}
+
+export function formatSimilarity(similarity: number): string {
+  return `${Math.floor(similarity * 100)}%`;
+}
@@ -0,0 +1,286 @@
+import fs from "fs/promises";
+import path from "path";
+import os from "os";
+import { execFile } from "child_process";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export interface EncodedImage {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface Thumbnail extends EncodedImage, ImageSize {}
+
+export interface PdfText {
+  /** Extracted text of each page, starting at startPage */
+  pages: string[];
+  startPage: number;
+  /** Number of pages in the document, when pdfinfo is installed to count them */
+  totalPages?: number;
+  /** Whether extraction stopped at maxBytes before every requested page was read */
+  truncated: boolean;
+}
+
+// Leading bytes read to find an image's dimensions; JPEG files may put large
+// metadata segments before the frame header
+const IMAGE_HEADER_BYTES = 256 * 1024;
+
+// Longest a converter or decoder may run
+const CONVERTER_TIMEOUT_MS = 30_000;
+
+function jpegSize(header: Buffer): ImageSize | null {
+  let offset = 2;
+  while (offset + 9 < header.length) {
+    if (header[offset] !== 0xff) {
+      return null;
+    }
+    const marker = header[offset + 1];
+    // Start-of-frame markers, other than DHT (c4), JPG (c8) and DAC (cc)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: header.readUInt16BE(offset + 5), width: header.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + header.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+function webpSize(header: Buffer): ImageSize | null {
+  const chunk = header.toString('ascii', 12, 16);
+  if (chunk === 'VP8 ' && header.length >= 30) {
+    return { width: header.readUInt16LE(26) & 0x3fff, height: header.readUInt16LE(28) & 0x3fff };
+  }
+  if (chunk === 'VP8L' && header.length >= 25) {
+    const bits = header.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8X' && header.length >= 30) {
+    return { width: header.readUIntLE(24, 3) + 1, height: header.readUIntLE(27, 3) + 1 };
+  }
+  return null;
+}
+
+/**
+ * Reads the dimensions of a PNG, JPEG, GIF, WebP or BMP image from its header,
+ * without decoding it.
+ * @param filePath - Image file
+ * @returns Width and height in pixels, or null if the format is not recognized
+ */
+export async function readImageSize(filePath: string): Promise<ImageSize | null> {
+  const fileHandle = await fs.open(filePath, 'r');
+  let header: Buffer;
+  try {
+    const buffer = Buffer.alloc(IMAGE_HEADER_BYTES);
+    const { bytesRead } = await fileHandle.read(buffer, 0, buffer.length, 0);
+    header = buffer.subarray(0, bytesRead);
+  } finally {
+    await fileHandle.close();
+  }
+
+  if (header.length >= 24 && header.toString('latin1', 1, 4) === 'PNG') {
+    return { width: header.readUInt32BE(16), height: header.readUInt32BE(20) };
+  }
+  if (header.length >= 10 && header.toString('ascii', 0, 3) === 'GIF') {
+    return { width: header.readUInt16LE(6), height: header.readUInt16LE(8) };
+  }
+  if (header.length >= 26 && header.toString('ascii', 0, 2) === 'BM') {
+    return { width: header.readInt32LE(18), height: Math.abs(header.readInt32LE(22)) };
+  }
+  if (header.length >= 16 && header.toString('ascii', 0, 4) === 'RIFF' && header.toString('ascii', 8, 12) === 'WEBP') {
+    return webpSize(header);
+  }
+  if (header.length >= 4 && header[0] === 0xff && header[1] === 0xd8) {
+    return jpegSize(header);
+  }
+  return null;
+}
+
+/**
+ * Scales dimensions down, keeping the aspect ratio, so that they have at most
+ * maxPixels pixels. Dimensions that already fit are returned unchanged.
+ */
+export function fitWithinPixels(size: ImageSize, maxPixels: number): ImageSize {
+  const pixels = size.width * size.height;
+  if (pixels <= maxPixels) {
+    return size;
+  }
+  const scale = Math.sqrt(maxPixels / pixels);
+  let width = Math.max(1, Math.floor(size.width * scale));
+  let height = Math.max(1, Math.floor(size.height * scale));
+  // A side scaled below one pixel is kept at one, so the other side gives way
+  width = Math.max(1, Math.min(width, Math.floor(maxPixels / height)));
+  height = Math.max(1, Math.min(height, Math.floor(maxPixels / width)));
+  return { width, height };
+}
+
+/**
+ * Finds an executable on the PATH.
+ * @param name - Command name, without extension
+ * @returns Its full path, or null if it is not installed
+ */
+export async function findExecutable(name: string): Promise<string | null> {
+  const extensions = process.platform === 'win32' ? ['.exe', '.cmd', '.bat'] : [''];
+  for (const dir of (process.env.PATH ?? '').split(path.delimiter).filter(Boolean)) {
+    for (const extension of extensions) {
+      const candidate = path.join(dir, name + extension);
+      try {
+        const stats = await fs.stat(candidate);
+        if (stats.isFile()) {
+          await fs.access(candidate, fs.constants.X_OK);
+          return candidate;
+        }
+      } catch {
+        // Not in this directory
+      }
+    }
+  }
+  return null;
+}
+
+type ConverterArgs = (input: string, output: string, size: ImageSize, format: 'png' | 'jpeg') => string[];
+
+// Image converters in order of preference, with the arguments that resize the
+// first frame of input to exactly size. Windows has an unrelated convert.exe
+const IMAGE_CONVERTERS: { command: string; args: ConverterArgs; skipOnWindows?: boolean }[] = [
+  { command: 'magick', args: (input, output, { width, height }) => [`${input}[0]`, '-thumbnail', `${width}x${height}!`, output] },
+  { command: 'convert', skipOnWindows: true, args: (input, output, { width, height }) => [`${input}[0]`, '-thumbnail', `${width}x${height}!`, output] },
+  { command: 'ffmpeg', args: (input, output, { width, height }) => ['-v', 'error', '-y', '-i', input, '-frames:v', '1', '-vf', `scale=${width}:${height}`, output] },
+  { command: 'sips', args: (input, output, { width, height }, format) => ['-s', 'format', format, '-z', String(height), String(width), input, '--out', output] },
+];
+
+/**
+ * Makes a downscaled copy of an image with an image converter installed on the
+ * system: ImageMagick, ffmpeg or sips. JPEG images stay JPEG; others become PNG.
+ *
+ * @param filePath - Image to downscale
+ * @param size - Dimensions of the image
+ * @param maxPixels - Most pixels the copy may have
+ * @param mimeType - MIME type of the image
+ * @returns The downscaled image, or null if no converter is installed
+ * @throws If the converter fails
+ */
+export async function createThumbnail(
+  filePath: string,
+  size: ImageSize,
+  maxPixels: number,
+  mimeType: string
+): Promise<Thumbnail | null> {
+  let converter: { path: string; args: ConverterArgs } | null = null;
+  for (const candidate of IMAGE_CONVERTERS) {
+    if (candidate.skipOnWindows && process.platform === 'win32') continue;
+    const executable = await findExecutable(candidate.command);
+    if (executable) {
+      converter = { path: executable, args: candidate.args };
+      break;
+    }
+  }
+  if (!converter) {
+    return null;
+  }
+
+  const format = mimeType === 'image/jpeg' ? 'jpeg' : 'png';
+  const target = fitWithinPixels(size, maxPixels);
+  const data = await runToFile(converter.path, output => converter.args(filePath, output, target, format), format === 'jpeg' ? 'jpg' : 'png');
+  return { data, mimeType: `image/${format}`, ...target };
+}
+
+// Runs a command that writes a file, and returns what it wrote
+async function runToFile(executable: string, args: (output: string) => string[], extension: string): Promise<Buffer> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-media-'));
+  try {
+    const output = path.join(tempDir, `output.${extension}`);
+    await execFileAsync(executable, args(output), { timeout: CONVERTER_TIMEOUT_MS });
+    return await fs.readFile(output);
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Extracts a representative frame from the start of a video with ffmpeg, scaled down
+ * to at most about maxPixels pixels. Only the first frames are decoded, so this takes
+ * little time whatever the length of the video.
+ *
+ * @param filePath - Video file
+ * @param maxPixels - Most pixels the frame may have
+ * @returns The frame as a JPEG image, or null if ffmpeg is not installed
+ * @throws If ffmpeg cannot decode the video
+ */
+export async function extractPosterFrame(filePath: string, maxPixels: number): Promise<EncodedImage | null> {
+  const ffmpeg = await findExecutable('ffmpeg');
+  if (!ffmpeg) {
+    return null;
+  }
+  // The thumbnail filter picks the most representative of the first 100 frames,
+  // which skips black or faded opening frames
+  const scale = `scale=w='min(iw,trunc(iw*sqrt(${maxPixels}/(iw*ih))))':h=-2`;
+  const data = await runToFile(ffmpeg, output =>
+    ['-v', 'error', '-y', '-i', filePath, '-an', '-vf', `thumbnail,${scale}`, '-frames:v', '1', output], 'jpg');
+  return { data, mimeType: 'image/jpeg' };
+}
+
+async function countPdfPages(filePath: string): Promise<number | undefined> {
+  const pdfinfo = await findExecutable('pdfinfo');
+  if (!pdfinfo) {
+    return undefined;
+  }
+  const { stdout } = await execFileAsync(pdfinfo, [filePath], { timeout: CONVERTER_TIMEOUT_MS });
+  const match = stdout.match(/^Pages:\s+(\d+)/m);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Extracts the text of a range of PDF pages with pdftotext from poppler, keeping
+ * each page's layout. Stops once the text reaches maxBytes, returning only the
+ * pages that were extracted completely.
+ *
+ * @param filePath - PDF file
+ * @param startPage - First page to extract (1-based)
+ * @param endPage - Last page to extract, inclusive; defaults to the last page
+ * @param maxBytes - Most bytes of text to extract
+ * @returns The text of each page, or null if pdftotext is not installed
+ * @throws If startPage is past the end of the document or the PDF cannot be read
+ */
+export async function extractPdfText(
+  filePath: string,
+  startPage: number = 1,
+  endPage?: number,
+  maxBytes: number = Infinity
+): Promise<PdfText | null> {
+  const pdftotext = await findExecutable('pdftotext');
+  if (!pdftotext) {
+    return null;
+  }
+  const totalPages = await countPdfPages(filePath);
+  if (totalPages !== undefined && startPage > totalPages) {
+    throw new Error(`startPage ${startPage} is past the end of the document, which has ${totalPages} pages`);
+  }
+  const lastPage = totalPages === undefined ? endPage : Math.min(endPage ?? totalPages, totalPages);
+  const args = ['-layout', '-enc', 'UTF-8', '-f', String(startPage)];
+  if (lastPage !== undefined) {
+    args.push('-l', String(lastPage));
+  }
+
+  let output: string;
+  let truncated = false;
+  try {
+    ({ stdout: output } = await execFileAsync(pdftotext, [...args, filePath, '-'], {
+      timeout: CONVERTER_TIMEOUT_MS,
+      maxBuffer: maxBytes,
+    }));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER') {
+      throw error;
+    }
+    output = (error as { stdout: string }).stdout;
+    truncated = true;
+  }
+  // pdftotext ends every page with a form feed, so anything after the last one is a partial page
+  return { pages: output.split('\f').slice(0, -1), startPage, totalPages, truncated };
+}
@@ -0,0 +1,135 @@
+import fs from "fs/promises";
+import path from "path";
+
+const MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".bmp": "image/bmp",
+  ".tif": "image/tiff",
+  ".tiff": "image/tiff",
+  ".avif": "image/avif",
+  ".svg": "image/svg+xml",
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+  ".ogg": "audio/ogg",
+  ".flac": "audio/flac",
+  ".m4a": "audio/mp4",
+  ".mp4": "video/mp4",
+  ".m4v": "video/mp4",
+  ".mov": "video/quicktime",
+  ".webm": "video/webm",
+  ".mkv": "video/x-matroska",
+  ".avi": "video/x-msvideo",
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+  ".html": "text/html",
+  ".htm": "text/html",
+  ".css": "text/css",
+  ".csv": "text/csv",
+  ".xml": "application/xml",
+  ".json": "application/json",
+  ".yaml": "application/yaml",
+  ".yml": "application/yaml",
+  ".js": "text/javascript",
+  ".mjs": "text/javascript",
+  ".pdf": "application/pdf",
+};
+
+/**
+ * Looks up the MIME type of a file from its extension.
+ * @param filePath - Path or file name
+ * @returns The MIME type, or undefined if the extension is not known
+ */
+export function getMimeType(filePath: string): string | undefined {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()];
+}
+
+// Leading bytes that sniffMimeType looks at
+export const MIME_SNIFF_BYTES = 4096;
+
+// Signatures at the start of a file, checked in order
+const MAGIC_BYTES: { mimeType: string; bytes: string | number[] }[] = [
+  { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/gif', bytes: 'GIF8' },
+  { mimeType: 'image/tiff', bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { mimeType: 'image/tiff', bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  { mimeType: 'application/pdf', bytes: '%PDF-' },
+  { mimeType: 'audio/mpeg', bytes: 'ID3' },
+  { mimeType: 'audio/ogg', bytes: 'OggS' },
+  { mimeType: 'audio/flac', bytes: 'fLaC' },
+  { mimeType: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { mimeType: 'application/gzip', bytes: [0x1f, 0x8b] },
+];
+
+// RIFF containers, by the form type at offset 8
+const RIFF_TYPES: Record<string, string> = { 'WEBP': 'image/webp', 'WAVE': 'audio/wav', 'AVI ': 'video/x-msvideo' };
+
+// ISO base media files (MP4 and relatives), by the major brand of their ftyp box
+const FTYP_BRANDS: Record<string, string> = {
+  'avif': 'image/avif',
+  'M4A ': 'audio/mp4',
+  'qt  ': 'video/quicktime',
+};
+
+function startsWith(header: Buffer, bytes: string | number[], offset = 0): boolean {
+  const expected = typeof bytes === 'string' ? Buffer.from(bytes, 'latin1') : Buffer.from(bytes);
+  return header.length >= offset + expected.length && header.subarray(offset, offset + expected.length).equals(expected);
+}
+
+/**
+ * Identifies a file format from its leading bytes.
+ * @param header - Start of the file, ideally MIME_SNIFF_BYTES long
+ * @returns The MIME type, or undefined if no known signature matches
+ */
+export function sniffMimeType(header: Buffer): string | undefined {
+  const signature = MAGIC_BYTES.find(({ bytes }) => startsWith(header, bytes));
+  if (signature) {
+    return signature.mimeType;
+  }
+  if (startsWith(header, 'RIFF')) {
+    return RIFF_TYPES[header.toString('latin1', 8, 12)];
+  }
+  if (startsWith(header, 'ftyp', 4)) {
+    return FTYP_BRANDS[header.toString('latin1', 8, 12)] ?? 'video/mp4';
+  }
+  if (startsWith(header, [0x1a, 0x45, 0xdf, 0xa3])) {
+    return header.includes('webm') ? 'video/webm' : 'video/x-matroska';
+  }
+  // "BM" followed by the file size, two reserved words and the size of a known DIB header
+  if (startsWith(header, 'BM') && header.length >= 18 && [12, 40, 52, 56, 108, 124].includes(header.readUInt32LE(14))) {
+    return 'image/bmp';
+  }
+  // MPEG audio frame header: 11 sync bits, a valid layer, bitrate and sample rate. The
+  // UTF-16LE byte order mark FF FE would otherwise pass for one
+  if (header.length >= 3 && header[0] === 0xff && header[1] !== 0xfe && (header[1] & 0xe0) === 0xe0
+    && (header[1] & 0x06) !== 0 && (header[2] & 0xf0) !== 0xf0 && (header[2] & 0x0c) !== 0x0c) {
+    return 'audio/mpeg';
+  }
+  // SVG is XML text whose first element is <svg>, possibly after a declaration and comments
+  const text = header.toString('utf-8').replace(/^\uFEFF/, '').trimStart();
+  if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*|<!DOCTYPE[^>]*>\s*)*<svg[\s>]/i.test(text)) {
+    return 'image/svg+xml';
+  }
+  return undefined;
+}
+
+/**
+ * Determines a file's MIME type from its content, falling back to its extension for
+ * formats without a signature, such as most text formats.
+ * @param filePath - File to inspect
+ * @returns The MIME type, or undefined if neither content nor extension is known
+ */
+export async function detectMimeType(filePath: string): Promise<string | undefined> {
+  const fileHandle = await fs.open(filePath, 'r');
+  try {
+    const header = Buffer.alloc(MIME_SNIFF_BYTES);
+    const { bytesRead } = await fileHandle.read(header, 0, header.length, 0);
+    return sniffMimeType(header.subarray(0, bytesRead)) ?? getMimeType(filePath);
+  } finally {
+    await fileHandle.close();
+  }
+}
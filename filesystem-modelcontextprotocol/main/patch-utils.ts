@@ -0,0 +1,364 @@
+import fs from "fs/promises";
+import path from "path";
+import { parsePatch, type ParsedDiff, type Hunk } from 'diff';
+import { decodeText, encodeText, assertEncodingKnown, DEFAULT_TEXT_FORMAT } from './encoding-utils.js';
+import { validatePath, validateCreatablePath, normalizeLineEndings, commitFileChanges, formatSize, type StagedFileChange } from './lib.js';
+import type { AccessPolicy } from './path-validation.js';
+
+export type PatchOperation = 'create' | 'modify' | 'delete';
+
+export interface PatchOptions {
+  /** Context lines at the start and end of a hunk that may be ignored when it does not match */
+  fuzz?: number;
+  /** Leading path components to remove from file names. Detected from a/ and b/ prefixes when omitted */
+  strip?: number;
+  dryRun?: boolean;
+  /** Largest file that may be read to patch it */
+  maxFileBytes?: number;
+}
+
+export interface HunkResult {
+  /** The @@ line of the hunk */
+  header: string;
+  applied: boolean;
+  /** 1-based line in the original file where the hunk was applied */
+  line?: number;
+  /** How many lines away from its stated position the hunk was found */
+  offset?: number;
+  /** Context lines that had to be ignored at each end */
+  fuzz?: number;
+  reason?: string;
+  /** Lines the hunk expected to find, for failed hunks */
+  expected?: string[];
+  /** Lines found at the hunk's stated position, for failed hunks */
+  found?: string[];
+}
+
+export interface FilePatchResult {
+  /** Path as written in the patch, after stripping */
+  path: string;
+  /** Resolved path of the file, once it has been validated */
+  target?: string;
+  operation: PatchOperation;
+  hunks: HunkResult[];
+  /** Problem with the file as a whole, such as failed validation */
+  error?: string;
+}
+
+export interface PatchResult {
+  files: FilePatchResult[];
+  /** Whether the changes were written. Nothing is written if any hunk or file failed */
+  written: boolean;
+  /** Bytes of existing files read */
+  bytesRead: number;
+}
+
+// Lines of a file, with whether the last one ends with a newline
+interface FileLines {
+  lines: string[];
+  endsWithNewline: boolean;
+}
+
+function splitLines(content: string): FileLines {
+  if (content === '') {
+    return { lines: [], endsWithNewline: true };
+  }
+  const lines = content.split('\n');
+  const endsWithNewline = lines[lines.length - 1] === '';
+  if (endsWithNewline) lines.pop();
+  return { lines, endsWithNewline };
+}
+
+function joinLines({ lines, endsWithNewline }: FileLines): string {
+  if (lines.length === 0) return '';
+  return lines.join('\n') + (endsWithNewline ? '\n' : '');
+}
+
+function stripPath(fileName: string, strip: number): string {
+  const parts = fileName.split('/');
+  if (strip >= parts.length) {
+    throw new Error(`Cannot strip ${strip} path components from ${fileName}`);
+  }
+  return parts.slice(strip).join('/');
+}
+
+function isDevNull(fileName: string | undefined): boolean {
+  return fileName === undefined || fileName === '/dev/null';
+}
+
+// git diffs name files a/path and b/path, other tools use the plain path
+function detectStrip(patches: ParsedDiff[]): number {
+  const names = patches.flatMap(p => [p.oldFileName, p.newFileName]).filter(name => !isDevNull(name)) as string[];
+  const gitStyle = patches.every(p =>
+    (isDevNull(p.oldFileName) || p.oldFileName!.startsWith('a/'))
+    && (isDevNull(p.newFileName) || p.newFileName!.startsWith('b/')));
+  return gitStyle && names.length > 0 ? 1 : 0;
+}
+
+// Recreates the @@ line as written in the patch, undoing the renumbering parsePatch
+// applies to empty sides
+function formatHunkHeader(hunk: Hunk): string {
+  const oldStart = hunk.oldLines === 0 ? hunk.oldStart - 1 : hunk.oldStart;
+  const newStart = hunk.newLines === 0 ? hunk.newStart - 1 : hunk.newStart;
+  return `@@ -${oldStart},${hunk.oldLines} +${newStart},${hunk.newLines} @@`;
+}
+
+function linesMatch(fileLines: string[], index: number, pattern: string[]): boolean {
+  if (index < 0 || index + pattern.length > fileLines.length) return false;
+  return pattern.every((line, i) => fileLines[index + i] === line);
+}
+
+// Finds the position of a pattern closest to where it was expected, searching no
+// earlier than minIndex so hunks cannot overlap
+function findClosest(fileLines: string[], pattern: string[], expected: number, minIndex: number): number | null {
+  const maxIndex = fileLines.length - pattern.length;
+  for (let distance = 0; expected - distance >= minIndex || expected + distance <= maxIndex; distance++) {
+    if (expected - distance >= minIndex && linesMatch(fileLines, expected - distance, pattern)) {
+      return expected - distance;
+    }
+    if (distance > 0 && expected + distance <= maxIndex && expected + distance >= minIndex
+      && linesMatch(fileLines, expected + distance, pattern)) {
+      return expected + distance;
+    }
+  }
+  return null;
+}
+
+// Applies the hunks of one file in order, recording the outcome of each. Later hunks
+// are still tried after a failure so that every problem is reported at once.
+function applyHunks(file: FileLines, hunks: Hunk[], maxFuzz: number): HunkResult[] {
+  const results: HunkResult[] = [];
+  // Lines added minus lines removed by the hunks applied so far
+  let lineDelta = 0;
+  // Offset of the previous hunk, which later hunks are likely to share
+  let lastOffset = 0;
+  let minIndex = 0;
+
+  for (const hunk of hunks) {
+    const header = formatHunkHeader(hunk);
+    const oldLines: string[] = [];
+    const newLines: string[] = [];
+    let newEndsWithNewline = true;
+    let previous = '';
+    for (const line of hunk.lines) {
+      if (line.startsWith('\\')) {
+        // "\ No newline at end of file" applies to the line before it
+        if (previous !== '-') newEndsWithNewline = false;
+        continue;
+      }
+      previous = line[0];
+      if (previous !== '+') oldLines.push(line.slice(1));
+      if (previous !== '-') newLines.push(line.slice(1));
+    }
+
+    const changeLines = hunk.lines.filter(line => !line.startsWith('\\'));
+    const leadingContext = Math.max(0, changeLines.findIndex(line => !line.startsWith(' ')));
+    const trailingContext = Math.max(0, [...changeLines].reverse().findIndex(line => !line.startsWith(' ')));
+    // Where the hunk starts in the original file, as a 0-based index. parsePatch has
+    // already moved an empty old side to the line after the one it inserts after
+    const statedIndex = hunk.oldStart - 1;
+    const expected = statedIndex + lineDelta + lastOffset;
+
+    let applied = false;
+    for (let fuzz = 0; fuzz <= maxFuzz && !applied; fuzz++) {
+      const dropStart = Math.min(fuzz, leadingContext);
+      const dropEnd = Math.min(fuzz, trailingContext);
+      // More fuzz only helps while there is context left to ignore
+      if (fuzz > 0 && dropStart === Math.min(fuzz - 1, leadingContext) && dropEnd === Math.min(fuzz - 1, trailingContext)) break;
+      if (oldLines.length > 0 && dropStart + dropEnd >= oldLines.length) break;
+      const pattern = oldLines.slice(dropStart, oldLines.length - dropEnd);
+      const replacement = newLines.slice(dropStart, newLines.length - dropEnd);
+
+      const index = pattern.length === 0
+        ? Math.min(Math.max(expected, minIndex), file.lines.length)
+        : findClosest(file.lines, pattern, expected + dropStart, minIndex);
+      if (index === null) continue;
+
+      if (index + pattern.length === file.lines.length && dropEnd === 0) {
+        file.endsWithNewline = newEndsWithNewline;
+      }
+      file.lines.splice(index, pattern.length, ...replacement);
+      const start = index - dropStart - lineDelta;
+      lastOffset = start - statedIndex;
+      results.push({ header, applied: true, line: start + 1, offset: lastOffset, fuzz });
+      lineDelta += replacement.length - pattern.length;
+      minIndex = index + replacement.length;
+      applied = true;
+    }
+
+    if (!applied) {
+      const start = Math.max(0, Math.min(statedIndex + lineDelta, file.lines.length));
+      results.push({
+        header,
+        applied: false,
+        reason: 'the lines this hunk changes were not found',
+        expected: oldLines,
+        found: file.lines.slice(start, start + oldLines.length),
+      });
+    }
+  }
+  return results;
+}
+
+// Resolves a path from the patch against the base directory and validates it. New
+// files may be created in directories that do not exist yet.
+async function resolveTarget(baseDir: string, fileName: string, operation: PatchOperation, policy: AccessPolicy): Promise<string> {
+  const target = path.resolve(baseDir, fileName);
+  if (operation === 'create') {
+    return validateCreatablePath(target, policy);
+  }
+  return validatePath(target, policy, operation === 'delete' ? 'delete' : 'write');
+}
+
+/**
+ * Applies a unified diff that may change several files, such as the output of
+ * `git diff`. Every target is checked with validatePath before anything is read.
+ *
+ * Hunks are matched at their stated position or, failing that, at the nearest
+ * position where their lines appear. With fuzz, up to that many context lines at
+ * each end of a hunk may be ignored. Every hunk is tried and its outcome reported;
+ * files are only written, as one transaction, when every hunk of every file applied.
+ *
+ * @param patchText - Unified diff text
+ * @param baseDir - Validated directory the file names in the patch are relative to
+ * @param policy - Allowed directories of the session
+ * @param options - Fuzz, path stripping, dry-run mode and the largest file to read
+ * @returns The outcome for every file and hunk
+ */
+export async function applyUnifiedPatch(
+  patchText: string,
+  baseDir: string,
+  policy: AccessPolicy,
+  options: PatchOptions = {}
+): Promise<PatchResult> {
+  const { fuzz = 0, dryRun = false, maxFileBytes = Infinity } = options;
+  const normalized = normalizeLineEndings(patchText);
+  const unsupported = /^(rename from|copy from|GIT binary patch|Binary files) /m.exec(normalized);
+  if (unsupported) {
+    throw new Error(`The patch contains a change that cannot be applied as text ("${unsupported[1]}"). ` +
+      'Renames, copies and binary changes are not supported');
+  }
+  let patches: ParsedDiff[];
+  try {
+    patches = parsePatch(normalized).filter(p => p.hunks.length > 0);
+  } catch (error) {
+    throw new Error(`Could not parse the patch: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (patches.length === 0) {
+    throw new Error('The patch does not contain any hunks');
+  }
+  const strip = options.strip ?? detectStrip(patches);
+
+  const files: FilePatchResult[] = [];
+  const changes: StagedFileChange[] = [];
+  const seenTargets = new Set<string>();
+  let bytesRead = 0;
+
+  for (const patch of patches) {
+    const operation: PatchOperation = isDevNull(patch.oldFileName) ? 'create'
+      : isDevNull(patch.newFileName) ? 'delete'
+      : 'modify';
+    const fileName = stripPath(operation === 'create' ? patch.newFileName! : patch.oldFileName!, strip);
+    const result: FilePatchResult = { path: fileName, operation, hunks: [] };
+    files.push(result);
+
+    let target: string;
+    let originalBytes: Buffer | null = null;
+    let format = DEFAULT_TEXT_FORMAT;
+    let content = '';
+    try {
+      target = await resolveTarget(baseDir, fileName, operation, policy);
+      if (seenTargets.has(target)) {
+        throw new Error('The patch changes this file more than once');
+      }
+      seenTargets.add(target);
+      result.target = target;
+      if (operation === 'create') {
+        if (await fs.lstat(target).then(() => true, () => false)) {
+          throw new Error('The patch creates this file, but it already exists');
+        }
+      } else {
+        const { size } = await fs.stat(target);
+        if (size > maxFileBytes) {
+          throw new Error(`File is ${formatSize(size)}, larger than the ${formatSize(maxFileBytes)} read limit`);
+        }
+        originalBytes = await fs.readFile(target);
+        bytesRead += originalBytes.length;
+        ({ content, format } = decodeText(originalBytes));
+        assertEncodingKnown(target, format, 'Change it with edit_file and an explicit encoding instead');
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+      continue;
+    }
+
+    const file = splitLines(normalizeLineEndings(content));
+    result.hunks = applyHunks(file, patch.hunks, fuzz);
+    if (operation === 'delete' && file.lines.length > 0) {
+      result.error = 'The patch deletes this file, but it has content the patch does not remove';
+    }
+    changes.push({
+      path: target,
+      originalBytes,
+      data: operation === 'delete' ? null : encodeText(joinLines(file), format),
+    });
+  }
+
+  const failed = files.some(file => file.error || file.hunks.some(hunk => !hunk.applied));
+  if (failed || dryRun) {
+    return { files, written: false, bytesRead };
+  }
+
+  for (const change of changes) {
+    if (change.originalBytes === null) {
+      await fs.mkdir(path.dirname(change.path), { recursive: true });
+    }
+  }
+  await commitFileChanges(changes);
+  return { files, written: true, bytesRead };
+}
+
+/**
+ * Formats the outcome of applyUnifiedPatch as a report with one line per hunk,
+ * showing the expected and found lines of hunks that failed.
+ */
+export function formatPatchReport(result: PatchResult, dryRun: boolean): string {
+  const hunks = result.files.flatMap(file => file.hunks);
+  const appliedCount = hunks.filter(hunk => hunk.applied).length;
+  const failedFiles = result.files.filter(file => file.error).length;
+
+  let outcome: string;
+  if (result.written) {
+    outcome = 'All changes were written.';
+  } else if (appliedCount === hunks.length && failedFiles === 0) {
+    outcome = 'Dry run: the patch applies cleanly. No files were changed.';
+  } else {
+    outcome = 'No files were changed.';
+  }
+  const lines = [
+    `${result.files.length} ${result.files.length === 1 ? 'file' : 'files'}, ${hunks.length} ${hunks.length === 1 ? 'hunk' : 'hunks'}: ` +
+      `${appliedCount} ${dryRun ? 'would apply' : 'applied'}, ${hunks.length - appliedCount} failed` +
+      (failedFiles > 0 ? `, ${failedFiles} ${failedFiles === 1 ? 'file' : 'files'} with errors` : '') + `. ${outcome}`,
+  ];
+
+  for (const file of result.files) {
+    lines.push('', `${file.path} (${file.operation})`);
+    if (file.error) {
+      lines.push(`  ERROR: ${file.error}`);
+    }
+    file.hunks.forEach((hunk, i) => {
+      if (hunk.applied) {
+        const notes = [
+          hunk.offset ? `offset ${hunk.offset > 0 ? '+' : ''}${hunk.offset} lines` : '',
+          hunk.fuzz ? `fuzz ${hunk.fuzz}` : '',
+        ].filter(Boolean);
+        lines.push(`  hunk ${i + 1} ${hunk.header}: ok at line ${hunk.line}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`);
+        return;
+      }
+      lines.push(`  hunk ${i + 1} ${hunk.header}: FAILED - ${hunk.reason}`);
+      lines.push('    expected:', ...hunk.expected!.map(line => `    | ${line}`));
+      lines.push('    found:', ...hunk.found!.map(line => `    | ${line}`));
+    });
+  }
+  return lines.join('\n');
+}
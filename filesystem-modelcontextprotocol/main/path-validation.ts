@@ -84,3 +84,85 @@ export function isPathWithinAllowedDirectories(absolutePath: string, allowedDire
     return normalizedPath.startsWith(normalizedDir + path.sep);
   });
 }
+
+/** Operations that can be granted on an allowed directory */
+export type Permission = 'read' | 'write' | 'delete';
+
+export const ALL_PERMISSIONS: readonly Permission[] = ['read', 'write', 'delete'];
+
+/** Where an allowed directory came from: the command line or the client's roots */
+export type DirectorySource = 'cli' | 'roots';
+
+/** An allowed directory together with the operations permitted inside it */
+export interface AllowedDirectory {
+  path: string;
+  permissions: Permission[];
+  source?: DirectorySource;
+}
+
+/**
+ * Finds the allowed directory that contains a path, preferring the most specific one.
+ * 
+ * @param absolutePath - The absolute path to look up
+ * @param allowedDirectories - Array of absolute allowed directory paths
+ * @returns The containing allowed directory, or null if there is none
+ */
+export function findAllowedRoot(absolutePath: string, allowedDirectories: string[]): string | null {
+  const containing = allowedDirectories
+    .filter(dir => isPathWithinAllowedDirectories(absolutePath, [dir]))
+    .sort((a, b) => b.length - a.length);
+  return containing[0] ?? null;
+}
+
+/**
+ * The directories a server session may access and the operations permitted in each.
+ * Every session owns its own policy, so changing one session's directories never
+ * affects another session in the same process.
+ */
+export interface AccessPolicy {
+  /** Allowed directory paths */
+  directories(): string[];
+  /** Allowed directories together with their permissions */
+  entries(): AllowedDirectory[];
+  /** Replaces the allowed directories, e.g. when the client's roots change */
+  set(directories: (string | AllowedDirectory)[]): void;
+  /**
+   * Finds the operations permitted at a path. The most specific allowed directory
+   * containing it decides, so a writable subdirectory can be mounted inside a
+   * read-only one
+   */
+  permissionsAt(absolutePath: string): { root: string | null; permissions: Permission[] };
+}
+
+/**
+ * Creates an access policy. Directories should already be normalized and resolved;
+ * plain paths are granted every permission.
+ *
+ * @param directories - Initial allowed directories
+ * @returns The policy
+ */
+export function createAccessPolicy(directories: (string | AllowedDirectory)[] = []): AccessPolicy {
+  let entries: AllowedDirectory[] = [];
+  const policy: AccessPolicy = {
+    directories() {
+      return entries.map(entry => entry.path);
+    },
+    entries() {
+      return entries.map(entry => ({ ...entry, permissions: [...entry.permissions] }));
+    },
+    set(directories) {
+      entries = directories.map(dir =>
+        typeof dir === 'string'
+          ? { path: dir, permissions: [...ALL_PERMISSIONS] }
+          : { ...dir, permissions: [...dir.permissions] }
+      );
+    },
+    permissionsAt(absolutePath) {
+      const root = findAllowedRoot(absolutePath, policy.directories());
+      const permissions = entries.find(entry => entry.path === root)?.permissions ?? [];
+      return { root, permissions: [...permissions] };
+    },
+  };
+  policy.set(directories);
+  return policy;
+}
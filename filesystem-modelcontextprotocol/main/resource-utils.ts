@@ -0,0 +1,132 @@
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from 'url';
+import { getMimeType, sniffMimeType, MIME_SNIFF_BYTES } from './mime-utils.js';
+import { decodeText, detectEncoding } from './encoding-utils.js';
+import { loadIgnoreRules, loadIgnoreRulesForRoot, isIgnored, type IgnoreRules } from './ignore-utils.js';
+import { isBinaryBuffer } from './lib.js';
+
+/** Number of resources returned per resources/list page */
+export const RESOURCE_PAGE_SIZE = 500;
+
+export interface FileResource {
+  uri: string;
+  name: string;
+  mimeType?: string;
+}
+
+export type FileResourceContents =
+  | { uri: string; mimeType: string; text: string }
+  | { uri: string; mimeType: string; blob: string };
+
+/**
+ * Converts an absolute path to a file:// resource URI.
+ */
+export function pathToResourceUri(filePath: string): string {
+  return pathToFileURL(filePath).href;
+}
+
+/**
+ * Converts a file:// resource URI to an absolute path. The result still has to be
+ * checked with validatePath before it is used.
+ * @throws Error if the URI is not a file:// URI
+ */
+export function resourceUriToPath(uri: string): string {
+  if (!uri.startsWith('file://')) {
+    throw new Error(`Unsupported resource URI: ${uri}. Only file:// URIs are supported`);
+  }
+  return fileURLToPath(uri);
+}
+
+// Walks the allowed directories in a stable order, yielding regular files that are
+// not excluded by ignore files
+async function* walkFiles(allowedDirectories: string[]): AsyncGenerator<string> {
+  async function* walk(dir: string, rules: IgnoreRules): AsyncGenerator<string> {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return; // Unreadable directories are left out of the listing
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (isIgnored(fullPath, entry.isDirectory(), rules)) continue;
+      if (entry.isFile()) {
+        yield fullPath;
+      } else if (entry.isDirectory()) {
+        yield* walk(fullPath, await loadIgnoreRules(fullPath, rules));
+      }
+    }
+  }
+
+  for (const dir of [...allowedDirectories].sort()) {
+    yield* walk(dir, await loadIgnoreRulesForRoot(dir, allowedDirectories));
+  }
+}
+
+/**
+ * Lists the files in the allowed directories as resources, one page at a time.
+ * Entries excluded by .gitignore and similar files are left out.
+ *
+ * @param allowedDirectories - Currently allowed directories
+ * @param cursor - Cursor returned with the previous page, if any
+ * @returns A page of resources and the cursor for the next page, if there is one
+ */
+export async function listFileResources(
+  allowedDirectories: string[],
+  cursor?: string
+): Promise<{ resources: FileResource[]; nextCursor?: string }> {
+  const offset = cursor === undefined ? 0 : Number(cursor);
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+
+  const resources: FileResource[] = [];
+  let index = 0;
+  for await (const filePath of walkFiles(allowedDirectories)) {
+    if (index >= offset + RESOURCE_PAGE_SIZE) {
+      return { resources, nextCursor: String(index) };
+    }
+    if (index >= offset) {
+      resources.push({
+        uri: pathToResourceUri(filePath),
+        name: path.basename(filePath),
+        mimeType: getMimeType(filePath),
+      });
+    }
+    index++;
+  }
+  return { resources };
+}
+
+/**
+ * Reads a validated file or directory for resources/read. Text files, including
+ * SVG images, are decoded and returned as text, other files as base64 blobs, and
+ * directories as a listing. The MIME type is sniffed from the content when possible.
+ *
+ * @param validPath - Path returned by validatePath
+ * @param uri - URI the client asked for, echoed back in the contents
+ * @returns Resource contents
+ */
+export async function readFileResource(validPath: string, uri: string): Promise<FileResourceContents> {
+  const stats = await fs.stat(validPath);
+  if (stats.isDirectory()) {
+    const entries = await fs.readdir(validPath, { withFileTypes: true });
+    return {
+      uri,
+      mimeType: 'text/plain',
+      text: entries.map(entry => `${entry.isDirectory() ? '[DIR]' : '[FILE]'} ${entry.name}`).join('\n'),
+    };
+  }
+
+  const buffer = await fs.readFile(validPath);
+  const mimeType = sniffMimeType(buffer.subarray(0, MIME_SNIFF_BYTES)) ?? getMimeType(validPath);
+  const isText = mimeType?.startsWith('text/') || mimeType === 'image/svg+xml'
+    || (!mimeType?.startsWith('image/') && !mimeType?.startsWith('audio/')
+      && (detectEncoding(buffer).encoding.startsWith('utf-16') || !isBinaryBuffer(buffer)));
+  if (isText) {
+    return { uri, mimeType: mimeType ?? 'text/plain', text: decodeText(buffer).content };
+  }
+  return { uri, mimeType: mimeType ?? 'application/octet-stream', blob: buffer.toString('base64') };
+}
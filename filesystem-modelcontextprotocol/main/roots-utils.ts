@@ -2,6 +2,14 @@ import { promises as fs, type Stats } from 'fs';
 import path from 'path';
 import os from 'os';
 import { normalizePath } from './path-utils.js';
+import {
+  isPathWithinAllowedDirectories,
+  findAllowedRoot,
+  ALL_PERMISSIONS,
+  type AllowedDirectory,
+  type DirectorySource,
+  type Permission,
+} from './path-validation.js';
 import type { Root } from '@modelcontextprotocol/sdk/types.js';
 
 /**
@@ -73,4 +81,141 @@ export async function getValidRootDirectories(
   }
   
   return validatedDirectories;
-}
\ No newline at end of file
+}
+
+const PERMISSION_FLAGS: Record<string, Permission> = { r: 'read', w: 'write', d: 'delete' };
+
+/**
+ * Splits a directory argument into its path and permission set.
+ * 
+ * A trailing `:ro` makes the directory read-only, and a suffix made of r (read),
+ * w (write) and d (delete), such as `:rw`, grants exactly those operations.
+ * Directories without a suffix get full access.
+ * 
+ * @param arg - Directory argument, e.g. `/srv/docs:ro`
+ * @returns The directory path and its permissions
+ */
+export function parseDirectoryArgument(arg: string): AllowedDirectory {
+  const match = arg.match(/^(.+):(ro|r[wd]*)$/);
+  if (!match) {
+    return { path: arg, permissions: [...ALL_PERMISSIONS] };
+  }
+  const flags = match[2] === 'ro' ? 'r' : match[2];
+  return {
+    path: match[1],
+    permissions: ALL_PERMISSIONS.filter(permission => [...flags].some(flag => PERMISSION_FLAGS[flag] === permission)),
+  };
+}
+
+/**
+ * Formats a permission set for display, e.g. "read-only" or "read, write".
+ * @param permissions - Permissions granted in a directory
+ * @returns Human-readable summary
+ */
+export function formatPermissions(permissions: readonly Permission[]): string {
+  if (permissions.length === 1 && permissions[0] === 'read') {
+    return 'read-only';
+  }
+  return ALL_PERMISSIONS.filter(permission => permissions.includes(permission)).join(', ');
+}
+
+const SOURCE_LABELS: Record<DirectorySource, string> = { cli: 'command line', roots: 'client roots' };
+
+/**
+ * Formats an allowed directory for display, e.g. "/srv/docs (read-only, from command line)".
+ * @param dir - Allowed directory
+ * @returns Path followed by its permissions and, if known, where it came from
+ */
+export function formatAllowedDirectory(dir: AllowedDirectory): string {
+  const details = [formatPermissions(dir.permissions)];
+  if (dir.source) {
+    details.push(`from ${SOURCE_LABELS[dir.source]}`);
+  }
+  return `${dir.path} (${details.join(', ')})`;
+}
+
+/**
+ * Assigns permissions to root directories provided by the client.
+ * 
+ * Roots carry no permissions of their own, so a root inside a directory configured
+ * on the command line inherits that directory's permissions, and restricted
+ * configured directories inside a root are kept so their restrictions still apply.
+ * Roots outside every configured directory get full access.
+ * 
+ * @param rootDirectories - Validated root directory paths
+ * @param configuredDirectories - Directories configured on the command line
+ * @returns Allowed directories with their permissions
+ */
+export function assignRootPermissions(
+  rootDirectories: string[],
+  configuredDirectories: AllowedDirectory[]
+): AllowedDirectory[] {
+  const configuredPaths = configuredDirectories.map(dir => dir.path);
+  const permissionsFor = (dir: string): Permission[] => {
+    const configuredRoot = findAllowedRoot(dir, configuredPaths);
+    const configured = configuredDirectories.find(entry => entry.path === configuredRoot);
+    return [...(configured?.permissions ?? ALL_PERMISSIONS)];
+  };
+
+  const entries: AllowedDirectory[] = rootDirectories.map(dir => ({ path: dir, permissions: permissionsFor(dir), source: 'roots' }));
+  for (const configured of configuredDirectories) {
+    const isRestricted = configured.permissions.length < ALL_PERMISSIONS.length;
+    if (isRestricted
+      && !rootDirectories.includes(configured.path)
+      && isPathWithinAllowedDirectories(configured.path, rootDirectories)) {
+      entries.push({ ...configured, permissions: [...configured.permissions] });
+    }
+  }
+  return entries;
+}
+
+/** How the client's roots are combined with the directories configured on the command line */
+export const ROOTS_POLICIES = ['replace', 'union', 'intersect'] as const;
+export type RootsPolicy = typeof ROOTS_POLICIES[number];
+
+export interface MergedRoots {
+  /** The session's new allowed directories */
+  entries: AllowedDirectory[];
+  /** Roots left out because the policy does not let the client request them */
+  rejected: string[];
+}
+
+/**
+ * Combines the client's roots with the directories configured on the command line.
+ *
+ * - `replace`: the roots become the allowed directories
+ * - `union`: the roots are allowed in addition to the configured directories
+ * - `intersect`: only roots inside a configured directory are allowed, so the
+ *   command line caps what a client can request
+ *
+ * Roots get their permissions as described for assignRootPermissions.
+ *
+ * @param rootDirectories - Validated root directory paths
+ * @param configuredDirectories - Directories configured on the command line
+ * @param rootsPolicy - How to combine them
+ * @returns The allowed directories and the roots that were refused
+ */
+export function mergeRootDirectories(
+  rootDirectories: string[],
+  configuredDirectories: AllowedDirectory[],
+  rootsPolicy: RootsPolicy
+): MergedRoots {
+  const configuredPaths = configuredDirectories.map(dir => dir.path);
+  switch (rootsPolicy) {
+    case 'replace':
+      return { entries: assignRootPermissions(rootDirectories, configuredDirectories), rejected: [] };
+    case 'union': {
+      const added = assignRootPermissions(rootDirectories, configuredDirectories)
+        .filter(entry => entry.source === 'roots' && !configuredPaths.includes(entry.path));
+      const configured = configuredDirectories.map(dir => ({ ...dir, permissions: [...dir.permissions] }));
+      return { entries: [...configured, ...added], rejected: [] };
+    }
+    case 'intersect': {
+      const accepted = rootDirectories.filter(dir => isPathWithinAllowedDirectories(dir, configuredPaths));
+      return {
+        entries: assignRootPermissions(accepted, configuredDirectories),
+        rejected: rootDirectories.filter(dir => !accepted.includes(dir)),
+      };
+    }
+  }
+}
@@ -0,0 +1,275 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomBytes } from 'crypto';
+import { hashContent, validatePath, validateCreatablePath, commitFileChanges, type StagedFileChange } from './lib.js';
+import type { AccessPolicy } from './path-validation.js';
+
+export interface Snapshot {
+  id: string;
+  /** Position in the store's history, shared with checkpoints */
+  seq: number;
+  /** Resolved path of the file */
+  path: string;
+  createdAt: string;
+  /** Hash of the contents before the change, or null if the file did not exist yet */
+  hash: string | null;
+  size: number;
+}
+
+export interface Checkpoint {
+  id: string;
+  seq: number;
+  name?: string;
+  /** Session that created the checkpoint, which alone can list and restore it */
+  owner?: string;
+  createdAt: string;
+}
+
+export interface SnapshotStoreOptions {
+  /** Largest total size of stored contents before the oldest snapshots are dropped */
+  maxBytes?: number;
+  /** Most snapshots kept before the oldest are dropped */
+  maxSnapshots?: number;
+}
+
+export interface RestoredFile {
+  path: string;
+  /** 'written' when contents were put back, 'deleted' when the file did not exist before */
+  action: 'written' | 'deleted' | 'unchanged';
+  snapshot: Snapshot;
+}
+
+export interface SnapshotStore {
+  /** Directory holding the store */
+  readonly dir: string;
+  /** Saves the current contents of a file, or that it does not exist, before it changes */
+  capture(filePath: string): Promise<Snapshot | null>;
+  createCheckpoint(name?: string, owner?: string): Promise<Checkpoint>;
+  /** Snapshots, and the checkpoints of the given owner, newest first */
+  list(owner?: string): Promise<{ snapshots: Snapshot[]; checkpoints: Checkpoint[] }>;
+  /** Puts back the contents a file had before one snapshotted change, if the policy allows it */
+  restoreSnapshot(id: string, policy: AccessPolicy, dryRun?: boolean): Promise<RestoredFile[]>;
+  /**
+   * Puts back every file changed since a checkpoint of the given owner, as one
+   * transaction, if the policy allows it. This includes changes made by other owners
+   */
+  restoreCheckpoint(id: string, policy: AccessPolicy, dryRun?: boolean, owner?: string): Promise<RestoredFile[]>;
+}
+
+export const DEFAULT_SNAPSHOT_LIMITS: Required<SnapshotStoreOptions> = {
+  maxBytes: 256 * 1024 * 1024,
+  maxSnapshots: 1000,
+};
+
+const INDEX_NAME = 'index.json';
+const OBJECTS_DIR_NAME = 'objects';
+
+interface StoreIndex {
+  nextSeq: number;
+  snapshots: Snapshot[];
+  checkpoints: Checkpoint[];
+}
+
+function createId(): string {
+  return `${Date.now()}-${randomBytes(4).toString('hex')}`;
+}
+
+async function readIndex(dir: string): Promise<StoreIndex> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(dir, INDEX_NAME), 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { nextSeq: 1, snapshots: [], checkpoints: [] };
+    }
+    throw error;
+  }
+}
+
+async function readCurrentBytes(filePath: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Opens a snapshot store in a directory, creating it if needed. Contents are stored
+ * once per hash under objects/, and an index records which file each snapshot
+ * belongs to. When the store grows past its limits the oldest snapshots are dropped,
+ * together with checkpoints that can no longer be fully restored.
+ *
+ * The store should be outside the allowed directories so that tools cannot change it.
+ * It is not safe to share between server processes.
+ *
+ * @param dir - Directory for the store
+ * @param options - Size limits
+ * @returns The store
+ */
+export async function openSnapshotStore(dir: string, options: SnapshotStoreOptions = {}): Promise<SnapshotStore> {
+  const { maxBytes, maxSnapshots } = { ...DEFAULT_SNAPSHOT_LIMITS, ...options };
+  const objectsDir = path.join(dir, OBJECTS_DIR_NAME);
+  await fs.mkdir(objectsDir, { recursive: true });
+  const index = await readIndex(dir);
+
+  // Index updates are serialized so that concurrent tool calls do not interleave
+  let queue: Promise<unknown> = Promise.resolve();
+  function exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = queue.then(task);
+    queue = result.catch(() => {});
+    return result;
+  }
+
+  async function saveIndex() {
+    const indexPath = path.join(dir, INDEX_NAME);
+    const tempPath = `${indexPath}.${randomBytes(8).toString('hex')}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(index), 'utf-8');
+    await fs.rename(tempPath, indexPath);
+  }
+
+  function storedBytes(): number {
+    const sizes = new Map(index.snapshots.filter(s => s.hash !== null).map(s => [s.hash!, s.size]));
+    return [...sizes.values()].reduce((sum, size) => sum + size, 0);
+  }
+
+  // Drops the oldest snapshots until the store is within its limits
+  async function evict() {
+    let evictedThroughSeq = 0;
+    while (index.snapshots.length > maxSnapshots || (index.snapshots.length > 0 && storedBytes() > maxBytes)) {
+      const oldest = index.snapshots.shift()!;
+      evictedThroughSeq = oldest.seq;
+      if (oldest.hash && !index.snapshots.some(s => s.hash === oldest.hash)) {
+        await fs.rm(path.join(objectsDir, oldest.hash), { force: true });
+      }
+    }
+    if (evictedThroughSeq > 0) {
+      // Restoring these would miss the dropped snapshots taken after them
+      index.checkpoints = index.checkpoints.filter(checkpoint => checkpoint.seq > evictedThroughSeq);
+    }
+  }
+
+  async function readObject(snapshot: Snapshot): Promise<Buffer> {
+    try {
+      return await fs.readFile(path.join(objectsDir, snapshot.hash!));
+    } catch {
+      throw new Error(`Contents of snapshot ${snapshot.id} are missing from the snapshot store`);
+    }
+  }
+
+  // Restores the pre-images of several snapshots, one per file, as one transaction
+  async function restore(snapshots: Snapshot[], policy: AccessPolicy, dryRun: boolean): Promise<RestoredFile[]> {
+    const results: RestoredFile[] = [];
+    const changes: StagedFileChange[] = [];
+    for (const snapshot of snapshots) {
+      // A deleted directory is recreated, so its files may have no parent yet
+      const validPath = snapshot.hash === null
+        ? await validatePath(snapshot.path, policy, 'delete')
+        : await validateCreatablePath(snapshot.path, policy);
+      const current = await readCurrentBytes(validPath);
+      const currentHash = current === null ? null : hashContent(current);
+      if (currentHash === snapshot.hash) {
+        results.push({ path: snapshot.path, action: 'unchanged', snapshot });
+        continue;
+      }
+      changes.push({
+        path: validPath,
+        originalBytes: current,
+        data: snapshot.hash === null ? null : await readObject(snapshot),
+      });
+      results.push({ path: snapshot.path, action: snapshot.hash === null ? 'deleted' : 'written', snapshot });
+    }
+    if (!dryRun && changes.length > 0) {
+      for (const change of changes) {
+        if (change.data !== null) {
+          await fs.mkdir(path.dirname(change.path), { recursive: true });
+        }
+      }
+      await commitFileChanges(changes);
+    }
+    return results;
+  }
+
+  return {
+    dir,
+
+    capture(filePath) {
+      return exclusive(async () => {
+        const stats = await fs.lstat(filePath).catch(() => null);
+        if (stats && !stats.isFile()) {
+          return null;
+        }
+        // Checked before reading so that a large file is never loaded into memory
+        if (stats && stats.size > maxBytes) {
+          console.error(`Not keeping a snapshot of ${filePath}: it is larger than the snapshot store`);
+          return null;
+        }
+        const content = stats ? await fs.readFile(filePath) : null;
+        const snapshot: Snapshot = {
+          id: createId(),
+          seq: index.nextSeq++,
+          path: filePath,
+          createdAt: new Date().toISOString(),
+          hash: content ? hashContent(content) : null,
+          size: content?.length ?? 0,
+        };
+        if (content) {
+          await fs.writeFile(path.join(objectsDir, snapshot.hash!), content, { flag: 'wx' }).catch(error => {
+            if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+          });
+        }
+        index.snapshots.push(snapshot);
+        await evict();
+        await saveIndex();
+        return snapshot;
+      });
+    },
+
+    createCheckpoint(name, owner) {
+      return exclusive(async () => {
+        const checkpoint: Checkpoint = {
+          id: createId(),
+          seq: index.nextSeq++,
+          ...(name ? { name } : {}),
+          ...(owner ? { owner } : {}),
+          createdAt: new Date().toISOString(),
+        };
+        index.checkpoints.push(checkpoint);
+        await saveIndex();
+        return checkpoint;
+      });
+    },
+
+    list(owner) {
+      return exclusive(async () => ({
+        snapshots: [...index.snapshots].reverse(),
+        checkpoints: index.checkpoints.filter(checkpoint => checkpoint.owner === owner).reverse(),
+      }));
+    },
+
+    restoreSnapshot(id, policy, dryRun = false) {
+      const snapshot = index.snapshots.find(s => s.id === id);
+      if (!snapshot) {
+        return Promise.reject(new Error(`Snapshot not found: ${id}. Use list_snapshots to see available snapshots`));
+      }
+      return restore([snapshot], policy, dryRun);
+    },
+
+    restoreCheckpoint(id, policy, dryRun = false, owner) {
+      const checkpoint = index.checkpoints.find(c => c.id === id && c.owner === owner);
+      if (!checkpoint) {
+        return Promise.reject(new Error(`Checkpoint not found: ${id}. Use list_snapshots to see available checkpoints`));
+      }
+      // The first snapshot of each file after the checkpoint holds its contents at the checkpoint
+      const firstByPath = new Map<string, Snapshot>();
+      for (const snapshot of index.snapshots) {
+        if (snapshot.seq > checkpoint.seq && !firstByPath.has(snapshot.path)) {
+          firstByPath.set(snapshot.path, snapshot);
+        }
+      }
+      return restore([...firstByPath.values()], policy, dryRun);
+    },
+  };
+}
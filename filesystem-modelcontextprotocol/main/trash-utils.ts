@@ -0,0 +1,162 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomBytes } from 'crypto';
+import { isPathWithinAllowedDirectories, findAllowedRoot } from './path-validation.js';
+
+/** Name of the trash folder created inside each allowed directory */
+export const TRASH_DIR_NAME = '.mcp-trash';
+
+const TRASH_ITEM_NAME = 'item';
+const TRASH_INFO_NAME = 'info.json';
+
+export interface TrashEntry {
+  id: string;
+  originalPath: string;
+  deletedAt: string;
+  isDirectory: boolean;
+  trashRoot: string;
+}
+
+/**
+ * Moves a file or directory into the trash folder of its allowed directory.
+ * The entry keeps a record of its original location so it can be restored.
+ * @param targetPath - Validated path of the entry to trash
+ * @param allowedDirectories - Currently allowed directories
+ * @returns The trash entry that was created
+ */
+export async function moveToTrash(targetPath: string, allowedDirectories: string[]): Promise<TrashEntry> {
+  const root = findAllowedRoot(targetPath, allowedDirectories);
+  if (!root) {
+    throw new Error(`Access denied - path outside allowed directories: ${targetPath}`);
+  }
+  if (isPathWithinAllowedDirectories(targetPath, [path.join(root, TRASH_DIR_NAME)])) {
+    throw new Error(`${targetPath} is already in the trash. Delete it without trash to remove it permanently`);
+  }
+  const trashRoot = await resolveTrashRoot(root, true);
+
+  const stats = await fs.lstat(targetPath);
+  const entry: TrashEntry = {
+    id: `${Date.now()}-${randomBytes(4).toString('hex')}`,
+    originalPath: targetPath,
+    deletedAt: new Date().toISOString(),
+    isDirectory: stats.isDirectory(),
+    trashRoot,
+  };
+
+  const entryDir = path.join(trashRoot, entry.id);
+  await fs.mkdir(entryDir, { recursive: true });
+  await fs.writeFile(path.join(entryDir, TRASH_INFO_NAME), JSON.stringify(entry, null, 2), 'utf-8');
+  try {
+    await moveEntry(targetPath, path.join(entryDir, TRASH_ITEM_NAME));
+  } catch (error) {
+    await fs.rm(entryDir, { recursive: true, force: true });
+    throw error;
+  }
+  return entry;
+}
+
+/**
+ * Lists trashed entries in the given allowed directories, newest first.
+ * @param roots - Allowed directories whose trash folders should be read
+ * @returns Trash entries with readable metadata
+ */
+export async function listTrash(roots: string[]): Promise<TrashEntry[]> {
+  const entries: TrashEntry[] = [];
+  for (const root of roots) {
+    let trashRoot: string;
+    let ids: string[];
+    try {
+      trashRoot = await resolveTrashRoot(root, false);
+      ids = await fs.readdir(trashRoot);
+    } catch {
+      continue; // No usable trash folder in this root
+    }
+    for (const id of ids) {
+      const entry = await readTrashEntry(trashRoot, id);
+      if (entry) entries.push(entry);
+    }
+  }
+  return entries.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+/**
+ * Looks up a trash entry by id across the given allowed directories.
+ * @throws Error if no entry with that id exists
+ */
+export async function findTrashEntry(id: string, roots: string[]): Promise<TrashEntry> {
+  if (id.includes('/') || id.includes('\\') || id === '.' || id === '..') {
+    throw new Error(`Invalid trash entry id: ${id}`);
+  }
+  for (const root of roots) {
+    let trashRoot: string;
+    try {
+      trashRoot = await resolveTrashRoot(root, false);
+    } catch {
+      continue;
+    }
+    const entry = await readTrashEntry(trashRoot, id);
+    if (entry) return entry;
+  }
+  throw new Error(`Trash entry not found: ${id}`);
+}
+
+/**
+ * Moves a trashed entry back to a validated destination and removes it from the trash.
+ * @param entry - Entry returned by findTrashEntry
+ * @param destination - Validated path to restore to, usually the original path
+ * @throws Error if the destination already exists
+ */
+export async function restoreFromTrash(entry: TrashEntry, destination: string): Promise<void> {
+  let destinationExists = true;
+  try {
+    await fs.lstat(destination);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+    destinationExists = false;
+  }
+  if (destinationExists) {
+    throw new Error(`Cannot restore: destination already exists: ${destination}`);
+  }
+
+  const entryDir = path.join(entry.trashRoot, entry.id);
+  await moveEntry(path.join(entryDir, TRASH_ITEM_NAME), destination);
+  await fs.rm(entryDir, { recursive: true, force: true });
+}
+
+// Security: The trash folder could have been replaced with a symlink, so make
+// sure it still resolves inside the allowed directory it belongs to
+async function resolveTrashRoot(root: string, create: boolean): Promise<string> {
+  const trashRoot = path.join(root, TRASH_DIR_NAME);
+  if (create) {
+    await fs.mkdir(trashRoot, { recursive: true });
+  }
+  const realTrashRoot = await fs.realpath(trashRoot);
+  if (!isPathWithinAllowedDirectories(realTrashRoot, [root])) {
+    throw new Error(`Access denied - trash folder resolves outside allowed directory: ${realTrashRoot} not in ${root}`);
+  }
+  return trashRoot;
+}
+
+async function readTrashEntry(trashRoot: string, id: string): Promise<TrashEntry | null> {
+  try {
+    const info = JSON.parse(await fs.readFile(path.join(trashRoot, id, TRASH_INFO_NAME), 'utf-8'));
+    return { ...info, id, trashRoot };
+  } catch {
+    return null;
+  }
+}
+
+// Renames, falling back to copy and delete when source and destination are on different devices
+async function moveEntry(source: string, destination: string): Promise<void> {
+  try {
+    await fs.rename(source, destination);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+      throw error;
+    }
+    await fs.cp(source, destination, { recursive: true, errorOnExist: true, force: false });
+    await fs.rm(source, { recursive: true, force: true });
+  }
+}
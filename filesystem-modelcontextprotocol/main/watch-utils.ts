@@ -0,0 +1,166 @@
+import { watch, promises as fs, type FSWatcher } from 'fs';
+import path from 'path';
+import { isPathWithinAllowedDirectories } from './path-validation.js';
+
+/** Quiet period after the last change before subscribers are notified */
+export const DEFAULT_DEBOUNCE_MS = 200;
+
+/** Longest a continuous burst of changes can delay a notification */
+export const DEFAULT_MAX_WAIT_MS = 2000;
+
+export interface ResourceWatcherOptions {
+  debounceMs?: number;
+  maxWaitMs?: number;
+}
+
+export interface ResourceWatcher {
+  /** Starts watching a validated path and reports changes to it under the given URI */
+  subscribe(uri: string, validPath: string): Promise<void>;
+  unsubscribe(uri: string): void;
+  /** Drops subscriptions that are no longer inside the allowed directories */
+  setAllowedDirectories(allowedDirectories: string[]): void;
+  /** URIs that currently have a subscription */
+  subscriptions(): string[];
+  close(): void;
+}
+
+interface Subscription {
+  path: string;
+  isDirectory: boolean;
+}
+
+/**
+ * Creates a watcher that reports changes to subscribed files and directories.
+ *
+ * A subscribed directory is watched recursively and reported when anything below it
+ * changes. A subscribed file is watched through its parent directory, so that it is
+ * still reported after being replaced by a rename or deleted and created again.
+ * Changes are coalesced: each URI is reported at most once per batch, after the
+ * changes have been quiet for debounceMs, or after maxWaitMs during a long burst.
+ *
+ * @param onUpdated - Called with the URI of every subscription that changed
+ * @param options - Debounce timings
+ * @returns The watcher
+ */
+export function createResourceWatcher(
+  onUpdated: (uri: string) => void,
+  options: ResourceWatcherOptions = {}
+): ResourceWatcher {
+  const { debounceMs = DEFAULT_DEBOUNCE_MS, maxWaitMs = DEFAULT_MAX_WAIT_MS } = options;
+  const subscriptions = new Map<string, Subscription>();
+  const watchers = new Map<string, { watcher: FSWatcher; recursive: boolean }>();
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+  let batchStart = 0;
+
+  function flush() {
+    timer = null;
+    const uris = [...pending];
+    pending.clear();
+    for (const uri of uris) {
+      onUpdated(uri);
+    }
+  }
+
+  function schedule(uri: string) {
+    const now = Date.now();
+    if (timer) {
+      clearTimeout(timer);
+    } else {
+      batchStart = now;
+    }
+    pending.add(uri);
+    timer = setTimeout(flush, Math.max(0, Math.min(debounceMs, batchStart + maxWaitMs - now)));
+    timer.unref();
+  }
+
+  function handleChange(changedPath: string) {
+    for (const [uri, subscription] of subscriptions) {
+      const affected = subscription.isDirectory
+        ? isPathWithinAllowedDirectories(changedPath, [subscription.path])
+        : changedPath === subscription.path;
+      if (affected) {
+        schedule(uri);
+      }
+    }
+  }
+
+  // Opens and closes watchers so that exactly the directories needed by the current
+  // subscriptions are watched
+  function syncWatchers() {
+    const needed = new Map<string, boolean>();
+    for (const subscription of subscriptions.values()) {
+      const dir = subscription.isDirectory ? subscription.path : path.dirname(subscription.path);
+      needed.set(dir, needed.get(dir) || subscription.isDirectory);
+    }
+
+    for (const [dir, entry] of watchers) {
+      if (needed.get(dir) !== entry.recursive) {
+        entry.watcher.close();
+        watchers.delete(dir);
+      }
+    }
+    for (const [dir, recursive] of needed) {
+      if (watchers.has(dir)) continue;
+      try {
+        const watcher = watch(dir, { recursive, persistent: false }, (_event, filename) => {
+          handleChange(filename ? path.join(dir, filename.toString()) : dir);
+        });
+        watcher.on('error', (error) => {
+          console.error(`Stopped watching ${dir}:`, error instanceof Error ? error.message : String(error));
+          watcher.close();
+          watchers.delete(dir);
+        });
+        watchers.set(dir, { watcher, recursive });
+      } catch (error) {
+        console.error(`Failed to watch ${dir}:`, error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+
+  return {
+    async subscribe(uri, validPath) {
+      let isDirectory = false;
+      try {
+        isDirectory = (await fs.stat(validPath)).isDirectory();
+      } catch (error) {
+        // Files that do not exist yet can be subscribed to and are reported once created
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+      subscriptions.set(uri, { path: validPath, isDirectory });
+      syncWatchers();
+    },
+
+    unsubscribe(uri) {
+      subscriptions.delete(uri);
+      pending.delete(uri);
+      syncWatchers();
+    },
+
+    setAllowedDirectories(allowedDirectories) {
+      for (const [uri, subscription] of subscriptions) {
+        if (!isPathWithinAllowedDirectories(subscription.path, allowedDirectories)) {
+          subscriptions.delete(uri);
+          pending.delete(uri);
+        }
+      }
+      syncWatchers();
+    },
+
+    subscriptions() {
+      return [...subscriptions.keys()];
+    },
+
+    close() {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      pending.clear();
+      subscriptions.clear();
+      syncWatchers();
+    },
+  };
+}